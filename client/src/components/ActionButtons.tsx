@@ -6,6 +6,7 @@ interface ActionButtonsProps {
   project: Project | null;
   onStart: () => void;
   onPause: () => void;
+  onResume: () => void;
   onStop: () => void;
   onDownload: () => void;
   analyzing: boolean;
@@ -16,14 +17,18 @@ export function ActionButtons({
   project, 
   onStart, 
   onPause, 
+  onResume, 
   onStop, 
   onDownload, 
   analyzing, 
   building 
 }: ActionButtonsProps) {
-  const canStart = project && project.status === 'analyzed' && !analyzing && !building;
-  const canPause = project && (analyzing || building);
-  const canStop = project && (analyzing || building);
+  // A cancelled build can be started again
+  const canStart = project && (project.status === 'analyzed' || project.status === 'cancelled') && !analyzing && !building;
+  const paused = project?.status === 'paused';
+  // Only builds can be paused or stopped, analysis runs within its request
+  const canPause = project && building;
+  const canStop = project && (building || paused);
   const canDownload = project && project.status === 'completed' && project.apkPath;
 
   return (
@@ -38,14 +43,24 @@ export function ActionButtons({
           Generate APK
         </Button>
         
-        <Button 
-          className="bg-slate-600 hover:bg-slate-700" 
-          onClick={onPause}
-          disabled={!canPause}
-        >
-          <Pause className="w-4 h-4 mr-2" />
-          Pause
-        </Button>
+        {paused ? (
+          <Button 
+            className="bg-slate-600 hover:bg-slate-700" 
+            onClick={onResume}
+          >
+            <Play className="w-4 h-4 mr-2" />
+            Resume
+          </Button>
+        ) : (
+          <Button 
+            className="bg-slate-600 hover:bg-slate-700" 
+            onClick={onPause}
+            disabled={!canPause}
+          >
+            <Pause className="w-4 h-4 mr-2" />
+            Pause
+          </Button>
+        )}
         
         <Button 
           className="bg-red-600 hover:bg-red-700" 
@@ -60,11 +75,11 @@ export function ActionButtons({
       <div className="flex items-center space-x-3">
         <Button 
           className="bg-green-600 hover:bg-green-700" 
-          onClick={onDownload}
+          onClick={() => onDownload()}
           disabled={!canDownload}
         >
           <Download className="w-4 h-4 mr-2" />
-          Download APK
+          {project?.apkPath?.endsWith('.aab') ? 'Download App Bundle' : 'Download APK'}
         </Button>
       </div>
     </div>
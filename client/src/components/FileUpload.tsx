@@ -43,7 +43,7 @@ export function FileUpload({ onFileSelect, uploading, selectedFile, onFileRemove
       <CardContent className="p-8">
         <div className="text-center mb-6">
           <h2 className="text-2xl font-bold text-slate-900 mb-2">Upload Your Mobile App Project</h2>
-          <p className="text-slate-600">Upload a ZIP file containing your mobile app project. We support React Native, Flutter, Java, Kotlin, and Cordova projects.</p>
+          <p className="text-slate-600">Upload a ZIP file containing your mobile app project. We support React Native, Expo, Flutter, Java, Kotlin, and Cordova projects.</p>
         </div>
 
         {!selectedFile && (
@@ -69,7 +69,7 @@ export function FileUpload({ onFileSelect, uploading, selectedFile, onFileRemove
               </div>
               <div className="text-sm text-slate-500">
                 <p>Supported formats: .zip (Max size: 500MB)</p>
-                <p>Supported frameworks: React Native, Flutter, Java, Kotlin, Cordova/PhoneGap</p>
+                <p>Supported frameworks: React Native, Expo, Flutter, Java, Kotlin (incl. Multiplatform and Compose), Cordova/PhoneGap, Capacitor/Ionic, PWA</p>
               </div>
             </div>
           </div>
@@ -5,59 +5,146 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Info, Key, Shield, User, Lock } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Info, Key, Shield, User, Lock, Vault, Trash2 } from 'lucide-react';
+import { SigningIdentity } from '@/types/conversion';
 
 interface KeystoreDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (keystoreData: KeystoreData) => void;
+  onSubmit: (buildData: BuildSettings | KeystoreData) => void;
   projectName: string;
+  identities: SigningIdentity[];
+  onDeleteIdentity: (identityId: number) => void;
 }
 
-export interface KeystoreData {
+// Sent with every build request
+export interface BuildSettings {
+  // App bundles (.aab) are what Google Play accepts for uploads
+  outputFormat?: 'apk' | 'aab';
+  // Debug builds are signed with the server's debug key and need no signing details
+  variant?: 'debug' | 'release';
+  // Per-ABI and per-density APKs, APK output only
+  splits?: { abi: boolean; density: boolean; universal: boolean };
+}
+
+export interface KeystoreData extends BuildSettings {
   keystorePassword: string;
   keyAlias: string;
   keyPassword: string;
-  storeFile?: string;
+  // Existing keystore, uploaded before the build request is sent
+  keystoreFile?: File;
+  keystoreId?: string;
   createNew: boolean;
   // For new keystore creation
+  keyAlgorithm?: 'RSA' | 'EC';
   organizationName?: string;
   organizationUnit?: string;
   locality?: string;
   state?: string;
   country?: string;
   validity?: number;
+  // Save the keystore to the user's vault, or sign with an identity saved earlier
+  saveIdentity?: boolean;
+  identityName?: string;
+  identityId?: number;
 }
 
-export default function KeystoreDialog({ isOpen, onClose, onSubmit, projectName }: KeystoreDialogProps) {
+export default function KeystoreDialog({ isOpen, onClose, onSubmit, projectName, identities, onDeleteIdentity }: KeystoreDialogProps) {
+  const [useSavedIdentity, setUseSavedIdentity] = useState(false);
+  const [selectedIdentityId, setSelectedIdentityId] = useState<number | undefined>(undefined);
   const [keystoreData, setKeystoreData] = useState<KeystoreData>({
+    outputFormat: 'apk',
+    variant: 'release',
+    splits: { abi: false, density: false, universal: true },
     keystorePassword: '',
     keyAlias: 'release',
     keyPassword: '',
     createNew: true,
+    keyAlgorithm: 'RSA',
     organizationName: '',
     organizationUnit: '',
     locality: '',
     state: '',
     country: '',
-    validity: 25
+    validity: 25,
+    saveIdentity: false,
+    identityName: ''
   });
 
   const handleSubmit = () => {
+    // Google Play splits app bundles itself
+    const splits = keystoreData.outputFormat === 'apk' && (keystoreData.splits?.abi || keystoreData.splits?.density)
+      ? keystoreData.splits
+      : undefined;
+
+    if (keystoreData.variant === 'debug') {
+      onSubmit({ outputFormat: keystoreData.outputFormat, variant: 'debug', splits });
+      return;
+    }
+
+    if (useSavedIdentity) {
+      if (!selectedIdentityId) {
+        alert('Please select a signing identity');
+        return;
+      }
+      // The server has the keystore and passwords, only the id is sent
+      onSubmit({
+        outputFormat: keystoreData.outputFormat,
+        variant: 'release',
+        splits,
+        keystorePassword: '',
+        keyAlias: '',
+        keyPassword: '',
+        createNew: false,
+        identityId: selectedIdentityId,
+      });
+      return;
+    }
+
     if (!keystoreData.keystorePassword || !keystoreData.keyAlias || !keystoreData.keyPassword) {
       alert('Please fill in all required fields');
       return;
     }
 
+    if (!keystoreData.createNew && !keystoreData.keystoreFile) {
+      alert('Please select your keystore file');
+      return;
+    }
+
     if (keystoreData.createNew && (!keystoreData.organizationName || !keystoreData.country)) {
       alert('Please fill in organization name and country for new keystore');
       return;
     }
 
-    onSubmit(keystoreData);
+    onSubmit({ ...keystoreData, splits, identityName: keystoreData.identityName || undefined });
+  };
+
+  const handleDeleteIdentity = (identityId: number) => {
+    if (!confirm('Delete this signing identity? Builds signed with it can only be updated with a copy of the keystore.')) {
+      return;
+    }
+    if (selectedIdentityId === identityId) {
+      setSelectedIdentityId(undefined);
+    }
+    onDeleteIdentity(identityId);
+  };
+
+  const selectSource = (source: 'new' | 'existing' | 'saved') => {
+    setUseSavedIdentity(source === 'saved');
+    if (source !== 'saved') {
+      handleInputChange('createNew', source === 'new');
+    }
+  };
+
+  const isDebug = keystoreData.variant === 'debug';
+
+  const handleSplitChange = (split: 'abi' | 'density' | 'universal', enabled: boolean) => {
+    setKeystoreData(prev => ({ ...prev, splits: { abi: false, density: false, universal: true, ...prev.splits, [split]: enabled } }));
   };
 
-  const handleInputChange = (field: keyof KeystoreData, value: string | number | boolean) => {
+  const handleInputChange = (field: keyof KeystoreData, value: string | number | boolean | File | undefined) => {
     setKeystoreData(prev => ({ ...prev, [field]: value }));
   };
 
@@ -75,52 +162,170 @@ export default function KeystoreDialog({ isOpen, onClose, onSubmit, projectName
           <Alert>
             <Info className="h-4 w-4" />
             <AlertDescription>
-              A keystore is required to sign your APK for release. You can create a new keystore or use an existing one.
+              {isDebug
+                ? 'Debug builds are signed with a shared debug key, are debuggable and install next to the release app under a .debug application id.'
+                : 'A keystore is required to sign your APK for release. You can create a new keystore or use an existing one.'}
             </AlertDescription>
           </Alert>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="variant">Build Variant</Label>
+              <Select
+                value={keystoreData.variant || 'release'}
+                onValueChange={(value) => handleInputChange('variant', value)}
+              >
+                <SelectTrigger id="variant">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="release">Release - signed with your keystore</SelectItem>
+                  <SelectItem value="debug">Debug - for testing</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="outputFormat">Output Format</Label>
+              <Select
+                value={keystoreData.outputFormat || 'apk'}
+                onValueChange={(value) => handleInputChange('outputFormat', value)}
+              >
+                <SelectTrigger id="outputFormat">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="apk">APK - install directly on devices</SelectItem>
+                  <SelectItem value="aab">Android App Bundle (.aab) - upload to Google Play</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {keystoreData.outputFormat === 'apk' && (
+            <div className="flex flex-wrap items-center gap-6">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="splitAbi"
+                  checked={keystoreData.splits?.abi}
+                  onCheckedChange={(checked) => handleSplitChange('abi', checked === true)}
+                />
+                <Label htmlFor="splitAbi">One APK per ABI</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="splitDensity"
+                  checked={keystoreData.splits?.density}
+                  onCheckedChange={(checked) => handleSplitChange('density', checked === true)}
+                />
+                <Label htmlFor="splitDensity">One APK per screen density</Label>
+              </div>
+              {(keystoreData.splits?.abi || keystoreData.splits?.density) && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="splitUniversal"
+                    checked={keystoreData.splits?.universal}
+                    onCheckedChange={(checked) => handleSplitChange('universal', checked === true)}
+                  />
+                  <Label htmlFor="splitUniversal">Universal APK too</Label>
+                </div>
+              )}
+            </div>
+          )}
+
+          {!isDebug && (
           <div className="flex gap-4">
             <Button 
-              variant={keystoreData.createNew ? "default" : "outline"}
-              onClick={() => handleInputChange('createNew', true)}
+              variant={!useSavedIdentity && keystoreData.createNew ? "default" : "outline"}
+              onClick={() => selectSource('new')}
               className="flex-1"
             >
               <Shield className="h-4 w-4 mr-2" />
               Create New Keystore
             </Button>
             <Button 
-              variant={!keystoreData.createNew ? "default" : "outline"}
-              onClick={() => handleInputChange('createNew', false)}
+              variant={!useSavedIdentity && !keystoreData.createNew ? "default" : "outline"}
+              onClick={() => selectSource('existing')}
               className="flex-1"
             >
               <Key className="h-4 w-4 mr-2" />
               Use Existing Keystore
             </Button>
+            <Button 
+              variant={useSavedIdentity ? "default" : "outline"}
+              onClick={() => selectSource('saved')}
+              disabled={identities.length === 0}
+              className="flex-1"
+            >
+              <Vault className="h-4 w-4 mr-2" />
+              Saved Identity
+            </Button>
           </div>
+          )}
+
+          {!isDebug && useSavedIdentity && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Saved Signing Identities</CardTitle>
+                <CardDescription>
+                  Keystores saved to your encrypted vault
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {identities.map((identity) => (
+                  <div
+                    key={identity.id}
+                    className={`flex items-center justify-between p-3 rounded-lg border cursor-pointer ${
+                      selectedIdentityId === identity.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                    }`}
+                    onClick={() => setSelectedIdentityId(identity.id)}
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium text-sm">{identity.name}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {identity.alias} · {identity.keyAlgorithm} · expires {new Date(identity.certificateExpiresAt).toLocaleDateString()}
+                      </p>
+                      <p className="text-xs text-gray-400 font-mono truncate">{identity.certificateFingerprint}</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDeleteIdentity(identity.id);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
 
-          {!keystoreData.createNew && (
+          {!isDebug && !useSavedIdentity && !keystoreData.createNew && (
             <Card>
               <CardHeader>
                 <CardTitle className="text-lg">Existing Keystore</CardTitle>
                 <CardDescription>
-                  Provide details for your existing keystore file
+                  Upload the keystore you already sign this app with
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
                 <div>
-                  <Label htmlFor="storeFile">Keystore File Path</Label>
+                  <Label htmlFor="keystoreFile">Keystore File *</Label>
                   <Input
-                    id="storeFile"
-                    placeholder="e.g., /path/to/release.keystore"
-                    value={keystoreData.storeFile || ''}
-                    onChange={(e) => handleInputChange('storeFile', e.target.value)}
+                    id="keystoreFile"
+                    type="file"
+                    accept=".jks,.p12,.pfx,.keystore"
+                    onChange={(e) => handleInputChange('keystoreFile', e.target.files?.[0])}
                   />
+                  <p className="text-xs text-gray-500 mt-1">JKS or PKCS#12 (.jks, .p12, .keystore)</p>
                 </div>
               </CardContent>
             </Card>
           )}
 
-          {keystoreData.createNew && (
+          {!isDebug && !useSavedIdentity && keystoreData.createNew && (
             <Card>
               <CardHeader>
                 <CardTitle className="text-lg">New Keystore Details</CardTitle>
@@ -194,10 +399,27 @@ export default function KeystoreDialog({ isOpen, onClose, onSubmit, projectName
                     />
                   </div>
                 </div>
+
+                <div>
+                  <Label htmlFor="keyAlgorithm">Key Algorithm</Label>
+                  <Select
+                    value={keystoreData.keyAlgorithm || 'RSA'}
+                    onValueChange={(value) => handleInputChange('keyAlgorithm', value)}
+                  >
+                    <SelectTrigger id="keyAlgorithm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="RSA">RSA 2048-bit</SelectItem>
+                      <SelectItem value="EC">EC P-256</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               </CardContent>
             </Card>
           )}
 
+          {!isDebug && !useSavedIdentity && (
           <Card>
             <CardHeader>
               <CardTitle className="text-lg">Keystore Credentials</CardTitle>
@@ -237,8 +459,30 @@ export default function KeystoreDialog({ isOpen, onClose, onSubmit, projectName
                   onChange={(e) => handleInputChange('keyPassword', e.target.value)}
                 />
               </div>
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="saveIdentity"
+                  checked={keystoreData.saveIdentity}
+                  onCheckedChange={(checked) => handleInputChange('saveIdentity', checked === true)}
+                />
+                <Label htmlFor="saveIdentity">Save as a signing identity for future builds</Label>
+              </div>
+
+              {keystoreData.saveIdentity && (
+                <div>
+                  <Label htmlFor="identityName">Identity Name</Label>
+                  <Input
+                    id="identityName"
+                    placeholder={`e.g., ${projectName} release key`}
+                    value={keystoreData.identityName || ''}
+                    onChange={(e) => handleInputChange('identityName', e.target.value)}
+                  />
+                </div>
+              )}
             </CardContent>
           </Card>
+          )}
         </div>
 
         <DialogFooter>
@@ -247,7 +491,7 @@ export default function KeystoreDialog({ isOpen, onClose, onSubmit, projectName
           </Button>
           <Button onClick={handleSubmit} className="min-w-32">
             <Lock className="h-4 w-4 mr-2" />
-            Generate APK
+            {keystoreData.outputFormat === 'aab' ? 'Generate App Bundle' : 'Generate APK'}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -15,13 +15,13 @@ export function ProcessingSteps({ project }: ProcessingStepsProps) {
     switch (step) {
       case 'analysis':
         if (project.status === 'analyzing') return 'processing';
-        if (project.status === 'analyzed' || project.status === 'building' || project.status === 'completed') return 'completed';
+        if (project.status === 'analyzed' || project.status === 'building' || project.status === 'paused' || project.status === 'completed' || project.status === 'cancelled') return 'completed';
         if (project.status === 'error') return 'error';
         return 'pending';
       
       case 'setup':
         if (project.status === 'building' && project.progress >= 10 && project.progress < 60) return 'processing';
-        if (project.status === 'building' && project.progress >= 60) return 'completed';
+        if ((project.status === 'building' || project.status === 'paused') && project.progress >= 60) return 'completed';
         if (project.status === 'completed') return 'completed';
         if (project.status === 'error' && project.progress >= 10) return 'error';
         return 'pending';
@@ -38,7 +38,7 @@ export function ProcessingSteps({ project }: ProcessingStepsProps) {
   };
 
   const getDetailedStepStatus = (stepType: string, subStep: string) => {
-    if (!project || project.status !== 'building') return 'pending';
+    if (!project || (project.status !== 'building' && project.status !== 'paused')) return 'pending';
     
     if (stepType === 'setup') {
       switch (subStep) {
@@ -28,6 +28,10 @@ export function ProgressBar({ project }: ProgressBarProps) {
         return 'APK generation completed successfully!';
       case 'error':
         return 'An error occurred during the process.';
+      case 'paused':
+        return 'Build paused. Resume it to continue from the next stage.';
+      case 'cancelled':
+        return 'Build cancelled. Generate the APK again to restart it.';
       default:
         return 'Processing...';
     }
@@ -36,6 +40,8 @@ export function ProgressBar({ project }: ProgressBarProps) {
   const getProgressColor = () => {
     if (status === 'error') return 'bg-red-600';
     if (status === 'completed') return 'bg-green-600';
+    if (status === 'paused') return 'bg-amber-500';
+    if (status === 'cancelled') return 'bg-slate-400';
     return 'bg-blue-600';
   };
 
@@ -59,6 +65,8 @@ export function ProgressBar({ project }: ProgressBarProps) {
             <div className={`w-4 h-4 rounded-full ${
               status === 'error' ? 'bg-red-300' : 
               status === 'completed' ? 'bg-green-300' : 
+              status === 'paused' ? 'bg-amber-300' : 
+              status === 'cancelled' ? 'bg-slate-300' : 
               'bg-blue-300'
             }`} />
             <span className="text-sm text-slate-600">{getStatusMessage()}</span>
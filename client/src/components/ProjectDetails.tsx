@@ -20,6 +20,12 @@ export function ProjectDetails({ project, onRefresh }: ProjectDetailsProps) {
         return '🤖';
       case 'cordova':
         return '📱';
+      case 'capacitor':
+        return '⚡';
+      case 'expo':
+        return '⚛️';
+      case 'pwa':
+        return '🌐';
       default:
         return '❓';
     }
@@ -35,6 +41,12 @@ export function ProjectDetails({ project, onRefresh }: ProjectDetailsProps) {
         return <Badge className="bg-green-100 text-green-800">Android</Badge>;
       case 'cordova':
         return <Badge className="bg-orange-100 text-orange-800">Cordova</Badge>;
+      case 'capacitor':
+        return <Badge className="bg-indigo-100 text-indigo-800">Capacitor / Ionic</Badge>;
+      case 'expo':
+        return <Badge className="bg-slate-100 text-slate-800">Expo</Badge>;
+      case 'pwa':
+        return <Badge className="bg-teal-100 text-teal-800">Progressive Web App</Badge>;
       default:
         return <Badge variant="secondary">Unknown</Badge>;
     }
@@ -64,9 +76,16 @@ export function ProjectDetails({ project, onRefresh }: ProjectDetailsProps) {
                     <div className="flex items-center space-x-2">
                       <span className="text-lg">{getFrameworkIcon(project.framework)}</span>
                       {getFrameworkBadge(project.framework)}
+                      {project.buildConfig?.kotlinMultiplatform && (
+                        <Badge className="bg-purple-100 text-purple-800">Kotlin Multiplatform</Badge>
+                      )}
+                      {project.buildConfig?.compose && (
+                        <Badge className="bg-green-100 text-green-800">Jetpack Compose</Badge>
+                      )}
                     </div>
                     <p className="text-sm text-slate-500 mt-1">
                       {project.framework.charAt(0).toUpperCase() + project.framework.slice(1)} Project
+                      {project.buildConfig?.applicationModule && ` · ${project.buildConfig.applicationModule} module`}
                     </p>
                   </>
                 ) : (
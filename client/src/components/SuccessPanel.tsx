@@ -1,16 +1,23 @@
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Check, Download, Share, Plus } from 'lucide-react';
-import { Project } from '@/types/conversion';
+import { Check, Download, Share, Plus, Key, Link } from 'lucide-react';
+import { BuildArtifact, Project } from '@/types/conversion';
 
 interface SuccessPanelProps {
   project: Project;
-  onDownload: () => void;
+  onDownload: (artifact?: BuildArtifact) => void;
+  onDownloadKeystore: () => void;
   onShare: () => void;
   onNewProject: () => void;
 }
 
-export function SuccessPanel({ project, onDownload, onShare, onNewProject }: SuccessPanelProps) {
+export function SuccessPanel({ project, onDownload, onDownloadKeystore, onShare, onNewProject }: SuccessPanelProps) {
+  const isBundle = project.apkPath?.endsWith('.aab');
+  const artifact = isBundle ? 'App Bundle' : 'APK';
+  const artifacts = Object.values(project.artifacts ?? {});
+  const latest = artifacts.find((kept) => kept.path === project.apkPath);
+  const artifactLabel = (kept: BuildArtifact) => [kept.flavor, kept.split, kept.variant].filter(Boolean).join('-');
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -38,17 +45,17 @@ export function SuccessPanel({ project, onDownload, onShare, onNewProject }: Suc
           </div>
           <div>
             <h3 className="text-lg font-semibold text-green-900">Conversion Complete!</h3>
-            <p className="text-green-700">Your APK file has been generated successfully.</p>
+            <p className="text-green-700">Your {isBundle ? 'app bundle' : 'APK file'} has been generated successfully.</p>
           </div>
         </div>
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
           <div className="bg-white p-4 rounded-lg border border-green-200">
-            <h4 className="font-medium text-slate-900 mb-2">APK Details</h4>
+            <h4 className="font-medium text-slate-900 mb-2">{artifact} Details</h4>
             <div className="space-y-1 text-sm">
               <div className="flex justify-between">
                 <span className="text-slate-600">File Name:</span>
-                <span className="font-medium">{project.name}-release.apk</span>
+                <span className="font-medium">{project.name}-{latest ? artifactLabel(latest) : 'release'}.{isBundle ? 'aab' : 'apk'}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-slate-600">Size:</span>
@@ -80,14 +87,50 @@ export function SuccessPanel({ project, onDownload, onShare, onNewProject }: Suc
           </div>
         </div>
         
-        <div className="flex items-center space-x-3">
-          <Button 
-            className="bg-green-600 hover:bg-green-700" 
-            onClick={onDownload}
-          >
-            <Download className="w-4 h-4 mr-2" />
-            Download APK
-          </Button>
+        {project.keystoreAvailable && (
+          <div className="bg-amber-50 p-4 rounded-lg border border-amber-200 mb-4 flex items-center justify-between">
+            <p className="text-sm text-amber-800">
+              A new signing keystore was created for this app. Download it now and keep it safe - it can only be downloaded once and is required to publish updates.
+            </p>
+            <Button
+              variant="outline"
+              className="border-amber-300 hover:bg-amber-100 ml-4 shrink-0"
+              onClick={onDownloadKeystore}
+            >
+              <Key className="w-4 h-4 mr-2" />
+              Download Keystore
+            </Button>
+          </div>
+        )}
+        
+        <div className="flex flex-wrap items-center gap-3">
+          {artifacts.length > 1 ? artifacts.map((kept) => (
+            <Button 
+              key={artifactLabel(kept)}
+              className="bg-green-600 hover:bg-green-700" 
+              onClick={() => onDownload(kept)}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download {artifactLabel(kept)} {kept.format === 'aab' ? 'App Bundle' : 'APK'}
+            </Button>
+          )) : (
+            <Button 
+              className="bg-green-600 hover:bg-green-700" 
+              onClick={() => onDownload()}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download {artifact}
+            </Button>
+          )}
+
+          {project.framework === 'pwa' && (
+            <Button variant="outline" className="border-green-300 hover:bg-green-100" asChild>
+              <a href={`/api/projects/${project.id}/assetlinks`} download>
+                <Link className="w-4 h-4 mr-2" />
+                Download assetlinks.json
+              </a>
+            </Button>
+          )}
           
           <Button 
             className="bg-slate-600 hover:bg-slate-700" 
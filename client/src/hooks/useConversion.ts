@@ -1,9 +1,21 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
-import { Project, BuildLog } from '@/types/conversion';
+import { Project, BuildArtifact, BuildLog, SigningIdentity } from '@/types/conversion';
 import { toast } from '@/hooks/use-toast';
 
+// Uploads an existing keystore; the server checks the credentials and returns an id to build with
+async function uploadKeystore(file: File, credentials: { keystorePassword: string; keyAlias: string; keyPassword: string }) {
+  const formData = new FormData();
+  formData.append('keystore', file);
+  formData.append('keystorePassword', credentials.keystorePassword);
+  formData.append('keyAlias', credentials.keyAlias);
+  formData.append('keyPassword', credentials.keyPassword);
+
+  const response = await apiRequest('POST', '/api/keystores/upload', formData);
+  return response.json() as Promise<{ keystoreId: string }>;
+}
+
 export const useConversion = (projectId?: number) => {
   const queryClient = useQueryClient();
   const [currentProject, setCurrentProject] = useState<Project | null>(null);
@@ -71,23 +83,23 @@ export const useConversion = (projectId?: number) => {
   // Build APK
   const buildMutation = useMutation({
     mutationFn: async ({ projectId, keystoreData }: { projectId: number; keystoreData?: any }) => {
+      if (keystoreData?.keystoreFile) {
+        const { keystoreFile, ...credentials } = keystoreData;
+        const { keystoreId } = await uploadKeystore(keystoreFile, credentials);
+        keystoreData = { ...credentials, keystoreId };
+      }
       const response = await apiRequest('POST', `/api/projects/${projectId}/build`, keystoreData);
-      return response.json();
+      return response.json() as Promise<{ jobId: number }>;
     },
     onSuccess: (data, variables) => {
-      if (data.buildResult && data.buildResult.success) {
-        toast({
-          title: 'Build Complete',
-          description: 'APK has been generated successfully.',
-        });
-      } else {
-        toast({
-          variant: 'destructive',
-          title: 'Build Failed',
-          description: data.buildResult?.errors?.join(', ') || 'Failed to build APK.',
-        });
-      }
+      toast({
+        title: 'Build Queued',
+        description: `Build job #${data.jobId} will start as soon as a worker is free.`,
+      });
       queryClient.invalidateQueries({ queryKey: [`/api/projects/${variables.projectId}`] });
+      if (variables.keystoreData?.saveIdentity) {
+        queryClient.invalidateQueries({ queryKey: ['/api/signing-identities'] });
+      }
     },
     onError: (error: any) => {
       console.error('Build error:', error);
@@ -99,22 +111,141 @@ export const useConversion = (projectId?: number) => {
     },
   });
 
+  // Cancel the running or queued build
+  const cancelMutation = useMutation({
+    mutationFn: async (projectId: number) => {
+      await apiRequest('POST', `/api/projects/${projectId}/cancel`);
+    },
+    onError: (error: any) => {
+      toast({
+        variant: 'destructive',
+        title: 'Cancel Failed',
+        description: error.message || 'Failed to cancel the build.',
+      });
+    },
+  });
+
+  // Stop the build after its current stage
+  const pauseMutation = useMutation({
+    mutationFn: async (projectId: number) => {
+      await apiRequest('POST', `/api/projects/${projectId}/pause`);
+    },
+    onError: (error: any) => {
+      toast({
+        variant: 'destructive',
+        title: 'Pause Failed',
+        description: error.message || 'Failed to pause the build.',
+      });
+    },
+  });
+
+  // Continue a paused build from the stage it stopped before
+  const resumeMutation = useMutation({
+    mutationFn: async (projectId: number) => {
+      await apiRequest('POST', `/api/projects/${projectId}/resume`);
+    },
+    onError: (error: any) => {
+      toast({
+        variant: 'destructive',
+        title: 'Resume Failed',
+        description: error.message || 'Failed to resume the build.',
+      });
+    },
+  });
+
   // Get project details
-  const { data: project, isLoading: projectLoading } = useQuery({
+  const { data: project, isLoading: projectLoading } = useQuery<Project>({
     queryKey: [`/api/projects/${projectId}`],
     enabled: !!projectId,
     refetchInterval: false,
     refetchOnWindowFocus: false,
   });
+  const buildRunning = project?.status === 'building';
 
   // Get build logs
-  const { data: logs, isLoading: logsLoading } = useQuery({
+  const { data: logs, isLoading: logsLoading } = useQuery<BuildLog[]>({
     queryKey: [`/api/projects/${projectId}/logs`],
     enabled: !!projectId,
     refetchInterval: false,
     refetchOnWindowFocus: false,
   });
 
+  // Live progress and log lines from the server's event stream, written straight into the query cache
+  useEffect(() => {
+    if (!projectId) return;
+    const projectKey = [`/api/projects/${projectId}`];
+    const logsKey = [`/api/projects/${projectId}/logs`];
+    const events = new EventSource(`/api/projects/${projectId}/events`);
+
+    // EventSource reconnects by itself; lines written while it was down are fetched again
+    events.onopen = () => {
+      queryClient.invalidateQueries({ queryKey: logsKey });
+    };
+    events.addEventListener('project', (event) => {
+      queryClient.setQueryData<Project>(projectKey, JSON.parse((event as MessageEvent).data));
+    });
+    events.addEventListener('log', (event) => {
+      const log: BuildLog = JSON.parse((event as MessageEvent).data);
+      queryClient.setQueryData<BuildLog[]>(logsKey, (logs = []) => (logs.some((existing) => existing.id === log.id) ? logs : [...logs, log]));
+    });
+
+    return () => events.close();
+  }, [projectId, queryClient]);
+
+  // Builds run in the background, report them once the project leaves the building status
+  const previousStatus = useRef(project?.status);
+  useEffect(() => {
+    const status = project?.status;
+    if (previousStatus.current === 'building' && status !== 'building') {
+      if (status === 'completed') {
+        toast({
+          title: 'Build Complete',
+          description: 'APK has been generated successfully.',
+        });
+      } else if (status === 'error') {
+        toast({
+          variant: 'destructive',
+          title: 'Build Failed',
+          description: 'Failed to build APK, see the build log for details.',
+        });
+      } else if (status === 'cancelled') {
+        toast({
+          title: 'Build Cancelled',
+          description: 'The build was stopped and its partial outputs removed.',
+        });
+      } else if (status === 'paused') {
+        toast({
+          title: 'Build Paused',
+          description: 'Resume the build to continue from its next stage.',
+        });
+      }
+    }
+    previousStatus.current = status;
+  }, [project?.status]);
+
+  // Get saved signing identities
+  const { data: signingIdentities } = useQuery<SigningIdentity[]>({
+    queryKey: ['/api/signing-identities'],
+    refetchOnWindowFocus: false,
+  });
+
+  // Delete signing identity
+  const deleteIdentityMutation = useMutation({
+    mutationFn: async (identityId: number) => {
+      await apiRequest('DELETE', `/api/signing-identities/${identityId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/signing-identities'] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: 'destructive',
+        title: 'Delete Failed',
+        description: error.message || 'Failed to delete signing identity.',
+      });
+    },
+  });
+
   // Clear logs
   const clearLogsMutation = useMutation({
     mutationFn: async (projectId: number) => {
@@ -150,19 +281,48 @@ export const useConversion = (projectId?: number) => {
 
   const buildApk = useCallback((projectId: number, keystoreData?: any) => {
     // Prevent multiple concurrent builds
-    if (buildMutation.isPending) {
+    if (buildMutation.isPending || buildRunning) {
       return;
     }
     buildMutation.mutate({ projectId, keystoreData });
-  }, [buildMutation]);
+  }, [buildMutation, buildRunning]);
+
+  const cancelBuild = useCallback((projectId: number) => {
+    cancelMutation.mutate(projectId);
+  }, [cancelMutation]);
+
+  const pauseBuild = useCallback((projectId: number) => {
+    pauseMutation.mutate(projectId);
+  }, [pauseMutation]);
 
-  const downloadApk = useCallback((projectId: number, filename: string) => {
+  const resumeBuild = useCallback((projectId: number) => {
+    resumeMutation.mutate(projectId);
+  }, [resumeMutation]);
+
+  // Without an artifact the server sends the most recent build
+  const downloadApk = useCallback((projectId: number, filename: string, artifact?: BuildArtifact) => {
+    const params = new URLSearchParams();
+    if (artifact) {
+      params.set('variant', artifact.variant);
+      if (artifact.flavor) params.set('flavor', artifact.flavor);
+      if (artifact.split) params.set('split', artifact.split);
+    }
+    const query = params.toString();
     const link = document.createElement('a');
-    link.href = `/api/projects/${projectId}/download`;
+    link.href = `/api/projects/${projectId}/download${query ? `?${query}` : ''}`;
     link.download = filename;
     link.click();
   }, []);
 
+  const downloadKeystore = useCallback((projectId: number, filename: string) => {
+    const link = document.createElement('a');
+    link.href = `/api/projects/${projectId}/keystore`;
+    link.download = filename;
+    link.click();
+    // The server only hands the keystore out once
+    queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}`] });
+  }, [queryClient]);
+
   const clearLogs = useCallback((projectId: number) => {
     clearLogsMutation.mutate(projectId);
   }, [clearLogsMutation]);
@@ -171,15 +331,20 @@ export const useConversion = (projectId?: number) => {
     deleteMutation.mutate(projectId);
   }, [deleteMutation]);
 
+  const deleteSigningIdentity = useCallback((identityId: number) => {
+    deleteIdentityMutation.mutate(identityId);
+  }, [deleteIdentityMutation]);
+
   return {
     // State
     currentProject: project || currentProject,
     logs: logs || [],
+    signingIdentities: signingIdentities || [],
     
     // Loading states
     uploading: uploadMutation.isPending,
     analyzing: analyzeMutation.isPending,
-    building: buildMutation.isPending,
+    building: buildMutation.isPending || buildRunning,
     projectLoading,
     logsLoading,
     
@@ -187,7 +352,12 @@ export const useConversion = (projectId?: number) => {
     uploadFile,
     analyzeProject,
     buildApk,
+    cancelBuild,
+    pauseBuild,
+    resumeBuild,
     downloadApk,
+    downloadKeystore,
+    deleteSigningIdentity,
     clearLogs,
     deleteProject,
   };
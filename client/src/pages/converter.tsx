@@ -6,7 +6,8 @@ import { ProjectDetails } from '@/components/ProjectDetails';
 import { BuildLog } from '@/components/BuildLog';
 import { ActionButtons } from '@/components/ActionButtons';
 import { SuccessPanel } from '@/components/SuccessPanel';
-import KeystoreDialog, { KeystoreData } from '@/components/KeystoreDialog';
+import KeystoreDialog, { BuildSettings, KeystoreData } from '@/components/KeystoreDialog';
+import { BuildArtifact } from '@/types/conversion';
 import { Smartphone } from 'lucide-react';
 import { useConversion } from '@/hooks/useConversion';
 
@@ -17,13 +18,19 @@ export default function Converter() {
   const {
     currentProject,
     logs,
+    signingIdentities,
     uploading,
     analyzing,
     building,
     uploadFile,
     analyzeProject,
     buildApk,
+    cancelBuild,
+    pauseBuild,
+    resumeBuild,
     downloadApk,
+    downloadKeystore,
+    deleteSigningIdentity,
     clearLogs,
     deleteProject,
   } = useConversion(projectId);
@@ -45,12 +52,12 @@ export default function Converter() {
   };
 
   const handleStartConversion = () => {
-    if (currentProject && currentProject.status === 'analyzed') {
+    if (currentProject && (currentProject.status === 'analyzed' || currentProject.status === 'cancelled')) {
       setShowKeystoreDialog(true);
     }
   };
 
-  const handleKeystoreSubmit = (keystoreData: KeystoreData) => {
+  const handleKeystoreSubmit = (keystoreData: BuildSettings | KeystoreData) => {
     if (currentProject) {
       buildApk(currentProject.id, keystoreData);
       setShowKeystoreDialog(false);
@@ -58,18 +65,36 @@ export default function Converter() {
   };
 
   const handlePause = () => {
-    // TODO: Implement pause functionality
-    console.log('Pause conversion');
+    if (currentProject) {
+      pauseBuild(currentProject.id);
+    }
+  };
+
+  const handleResume = () => {
+    if (currentProject) {
+      resumeBuild(currentProject.id);
+    }
   };
 
   const handleStop = () => {
-    // TODO: Implement stop functionality
-    console.log('Stop conversion');
+    if (currentProject) {
+      cancelBuild(currentProject.id);
+    }
+  };
+
+  // Without an artifact the most recent build is downloaded
+  const handleDownload = (artifact?: BuildArtifact) => {
+    if (currentProject) {
+      const selected = artifact ?? Object.values(currentProject.artifacts ?? {}).find((kept: BuildArtifact) => kept.path === currentProject.apkPath);
+      const label = selected ? [selected.flavor, selected.split, selected.variant].filter(Boolean).join('-') : 'release';
+      const extension = (selected?.path ?? currentProject.apkPath)?.endsWith('.aab') ? 'aab' : 'apk';
+      downloadApk(currentProject.id, `${currentProject.name}-${label}.${extension}`, artifact);
+    }
   };
 
-  const handleDownload = () => {
+  const handleDownloadKeystore = () => {
     if (currentProject) {
-      downloadApk(currentProject.id, `${currentProject.name}-release.apk`);
+      downloadKeystore(currentProject.id, `${currentProject.name}-release.p12`);
     }
   };
 
@@ -181,6 +206,7 @@ export default function Converter() {
             project={currentProject}
             onStart={handleStartConversion}
             onPause={handlePause}
+            onResume={handleResume}
             onStop={handleStop}
             onDownload={handleDownload}
             analyzing={analyzing}
@@ -194,6 +220,7 @@ export default function Converter() {
             <SuccessPanel
               project={currentProject}
               onDownload={handleDownload}
+              onDownloadKeystore={handleDownloadKeystore}
               onShare={handleShare}
               onNewProject={handleNewProject}
             />
@@ -260,6 +287,8 @@ export default function Converter() {
         onClose={() => setShowKeystoreDialog(false)}
         onSubmit={handleKeystoreSubmit}
         projectName={currentProject?.name || 'Project'}
+        identities={signingIdentities}
+        onDeleteIdentity={deleteSigningIdentity}
       />
     </div>
   );
@@ -4,17 +4,37 @@ export interface Project {
   originalFileName: string;
   fileSize: number;
   framework?: string;
-  status: 'uploaded' | 'extracted' | 'analyzing' | 'analyzed' | 'building' | 'completed' | 'error';
+  status: 'uploaded' | 'extracted' | 'analyzing' | 'analyzed' | 'building' | 'paused' | 'completed' | 'error' | 'cancelled';
   progress: number;
   buildConfig?: any;
   projectStats?: ProjectStats;
   logs?: any[];
   apkPath?: string;
   apkSize?: number;
+  // Latest build of each variant, flavor and split, keyed like release, acmeDebug or release-arm64-v8a; apkPath is the most recent one
+  artifacts?: Record<string, BuildArtifact>;
+  keystoreDownloaded?: boolean;
+  // The generated keystore is waiting to be downloaded by this session
+  keystoreAvailable?: boolean;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+export type BuildVariant = 'debug' | 'release';
+
+export interface BuildArtifact {
+  path: string;
+  size: number;
+  format: 'apk' | 'aab';
+  variant: BuildVariant;
+  flavor?: string;
+  // APK split filter such as arm64-v8a, hdpi or universal
+  split?: string;
+  applicationId: string;
+  versionCode: number;
+  builtAt: string;
+}
+
 export interface ProjectStats {
   totalFiles: number;
   sourceFiles: number;
@@ -32,6 +52,18 @@ export interface BuildLog {
   timestamp: Date;
 }
 
+// Saved keystore as listed by the server; key material never leaves the vault
+export interface SigningIdentity {
+  id: number;
+  name: string;
+  alias: string;
+  keyAlgorithm: 'RSA' | 'EC';
+  certificateSubject: string;
+  certificateFingerprint: string;
+  certificateExpiresAt: string;
+  createdAt?: string;
+}
+
 export interface ConversionStep {
   id: string;
   name: string;
@@ -0,0 +1,47 @@
+CREATE TABLE "build_logs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"level" text NOT NULL,
+	"message" text NOT NULL,
+	"timestamp" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "projects" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"original_file_name" text NOT NULL,
+	"file_size" integer NOT NULL,
+	"framework" text,
+	"status" text DEFAULT 'uploaded' NOT NULL,
+	"progress" integer DEFAULT 0 NOT NULL,
+	"build_config" jsonb,
+	"project_stats" jsonb,
+	"logs" jsonb DEFAULT '[]'::jsonb,
+	"apk_path" text,
+	"apk_size" integer,
+	"artifacts" jsonb,
+	"keystore_path" text,
+	"keystore_downloaded" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "signing_identities" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"alias" text NOT NULL,
+	"key_algorithm" text NOT NULL,
+	"certificate_subject" text NOT NULL,
+	"certificate_fingerprint" text NOT NULL,
+	"certificate_expires_at" timestamp NOT NULL,
+	"encrypted_keystore" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
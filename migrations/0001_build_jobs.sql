@@ -0,0 +1,17 @@
+CREATE TABLE "build_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"options" jsonb NOT NULL,
+	"signing" jsonb,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 1 NOT NULL,
+	"timeout_ms" integer NOT NULL,
+	"error" text,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp,
+	"heartbeat_at" timestamp,
+	"finished_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
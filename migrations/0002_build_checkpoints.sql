@@ -0,0 +1,2 @@
+ALTER TABLE "build_jobs" ADD COLUMN "pause_requested" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "build_jobs" ADD COLUMN "checkpoint" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "projects" ADD COLUMN "keystore_user_id" integer;
\ No newline at end of file
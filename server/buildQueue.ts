@@ -0,0 +1,243 @@
+import os from "os";
+import type { IStorage } from "./storage";
+import type { BuildJob, BuildJobOptions, BuildOptions, BuildSigning } from "@shared/schema";
+
+// How a build that ran to the end went; a handler that throws counts as crashed and is retried
+export interface BuildJobOutcome {
+  success: boolean;
+  error?: string;
+  // Set when the build paused between stages; kept with the job until it is resumed
+  checkpoint?: unknown;
+}
+
+// The signal aborts when the job times out or is cancelled; pauseRequested tells the build to stop at its
+// next stage boundary and return a checkpoint
+export type BuildJobHandler = (job: BuildJob, signal: AbortSignal, pauseRequested: () => boolean) => Promise<BuildJobOutcome>;
+
+export interface BuildQueueOptions {
+  // Builds this server runs at the same time
+  concurrency: number;
+  // Defaults for jobs that don't set their own
+  timeoutMinutes: number;
+  maxAttempts: number;
+}
+
+const POLL_INTERVAL = 2000;
+const HEARTBEAT_INTERVAL = 30 * 1000;
+// A running job without a heartbeat for this long was left behind by a server that stopped
+const STALL_TIMEOUT = 4 * HEARTBEAT_INTERVAL;
+// Doubled for every further attempt
+const RETRY_DELAY = 30 * 1000;
+
+interface RunningJob {
+  controller: AbortController;
+  // Settles once the handler has returned
+  done: Promise<void>;
+  // Read by the build between stages
+  pauseRequested: boolean;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? "");
+  return value > 0 ? value : fallback;
+}
+
+// Runs queued builds in the background, a limited number at a time. Jobs are kept in storage, so with
+// DbStorage queued builds survive a restart and several servers can work off the same queue
+export class BuildQueue {
+  private storage: IStorage;
+  private handler: BuildJobHandler;
+  private options: BuildQueueOptions;
+  private running: Map<number, RunningJob>;
+  private timer?: NodeJS.Timeout;
+  private polling: boolean;
+  private lastRecovery: number;
+
+  constructor(storage: IStorage, handler: BuildJobHandler, options: Partial<BuildQueueOptions> = {}) {
+    this.storage = storage;
+    this.handler = handler;
+    this.options = {
+      concurrency: options.concurrency ?? envNumber("BUILD_CONCURRENCY", Math.max(1, Math.floor(os.cpus().length / 2))),
+      timeoutMinutes: options.timeoutMinutes ?? envNumber("BUILD_TIMEOUT_MINUTES", 30),
+      maxAttempts: options.maxAttempts ?? envNumber("BUILD_MAX_ATTEMPTS", 2),
+    };
+    this.running = new Map();
+    this.polling = false;
+    this.lastRecovery = 0;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL);
+    this.poll();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async enqueue(projectId: number, options: BuildOptions, signing: BuildSigning | undefined, jobOptions: BuildJobOptions): Promise<BuildJob> {
+    const job = await this.storage.createBuildJob({
+      projectId,
+      options,
+      signing,
+      priority: jobOptions.priority,
+      maxAttempts: jobOptions.maxAttempts ?? this.options.maxAttempts,
+      timeoutMs: (jobOptions.timeoutMinutes ?? this.options.timeoutMinutes) * 60 * 1000,
+    });
+    this.poll();
+    return job;
+  }
+
+  // Queued jobs never start; running ones on this server are stopped and awaited, those on another server
+  // stop at their next heartbeat. False when the job left the status it was read with, e.g. it finished meanwhile
+  async cancel(job: BuildJob): Promise<boolean> {
+    // A claimed job is still cancelled, a resumed paused one is not: its checkpoint is in use again
+    const statuses = job.status === "paused" ? ["paused"] : ["queued", "running"];
+    const cancelled = await this.storage.transitionBuildJob(job.id, statuses, { status: "cancelled", finishedAt: new Date() });
+    if (!cancelled) return false;
+
+    await this.storage.updateProject(job.projectId, { status: "cancelled" });
+    await this.storage.addBuildLog({ projectId: job.projectId, level: "warning", message: `Build job #${job.id} cancelled` });
+
+    const running = this.running.get(job.id);
+    if (running) {
+      running.controller.abort(new Error("Build cancelled"));
+      await running.done;
+    }
+    return true;
+  }
+
+  // Queued jobs are held back; running ones stop after their current stage, on another server once its
+  // heartbeat sees the request. False when the job left the status it was read with, e.g. it finished meanwhile
+  async pause(job: BuildJob): Promise<boolean> {
+    if (job.status === "queued") {
+      const paused = await this.storage.transitionBuildJob(job.id, ["queued"], { status: "paused" });
+      if (!paused) return false;
+      await this.storage.updateProject(job.projectId, { status: "paused" });
+      await this.storage.addBuildLog({ projectId: job.projectId, level: "info", message: `Build job #${job.id} paused` });
+      return true;
+    }
+
+    const pausing = await this.storage.transitionBuildJob(job.id, ["running"], { pauseRequested: true });
+    if (!pausing) return false;
+    await this.storage.addBuildLog({ projectId: job.projectId, level: "info", message: `Pausing build job #${job.id} after its current stage...` });
+    const running = this.running.get(job.id);
+    if (running) running.pauseRequested = true;
+    return true;
+  }
+
+  // Queues a paused job again; it continues from its checkpoint on whichever server claims it
+  async resume(job: BuildJob): Promise<void> {
+    await this.storage.updateBuildJob(job.id, { status: "queued", pauseRequested: false, runAt: new Date() });
+    await this.storage.updateProject(job.projectId, { status: "building" });
+    await this.storage.addBuildLog({ projectId: job.projectId, level: "info", message: `Build job #${job.id} resumed` });
+    this.poll();
+  }
+
+  private poll(): void {
+    if (this.polling) return;
+    this.polling = true;
+    this.claimJobs()
+      .catch((error) => console.error("Build queue error:", error))
+      .finally(() => {
+        this.polling = false;
+      });
+  }
+
+  private async claimJobs(): Promise<void> {
+    if (Date.now() - this.lastRecovery >= HEARTBEAT_INTERVAL) {
+      this.lastRecovery = Date.now();
+      await this.recoverStalledJobs();
+    }
+
+    while (this.running.size < this.options.concurrency) {
+      const job = await this.storage.claimBuildJob();
+      if (!job) return;
+      const running: RunningJob = { controller: new AbortController(), done: Promise.resolve(), pauseRequested: job.pauseRequested };
+      running.done = this.run(job, running)
+        .catch((error) => console.error(`Build job ${job.id} error:`, error))
+        .finally(() => {
+          this.running.delete(job.id);
+          this.poll();
+        });
+      this.running.set(job.id, running);
+    }
+  }
+
+  private async run(job: BuildJob, running: RunningJob): Promise<void> {
+    const { controller } = running;
+    const timeout = setTimeout(() => {
+      controller.abort(new Error("Build timed out"));
+      // The job fails right away, but its slot stays taken until the build returns so it can't overlap the next one
+      this.fail(job, `Build timed out after ${job.timeoutMs / 60000} minutes`)
+        .catch((error) => console.error(`Build job ${job.id} error:`, error));
+    }, job.timeoutMs);
+    const heartbeat = setInterval(() => {
+      this.storage.updateBuildJob(job.id, { heartbeatAt: new Date() })
+        .then((current) => {
+          // Cancelled or paused through another server
+          if (current?.status === "cancelled") controller.abort(new Error("Build cancelled"));
+          if (current?.pauseRequested) running.pauseRequested = true;
+        })
+        .catch((error) => console.error(`Build job ${job.id} heartbeat error:`, error));
+    }, HEARTBEAT_INTERVAL);
+
+    try {
+      const outcome = await this.handler(job, controller.signal, () => running.pauseRequested);
+      if (controller.signal.aborted) return;
+      if (outcome.checkpoint) {
+        // Resuming continues this attempt rather than starting another
+        await this.storage.updateBuildJob(job.id, {
+          status: "paused",
+          checkpoint: outcome.checkpoint,
+          pauseRequested: false,
+          attempts: job.attempts - 1,
+        });
+        return;
+      }
+      await this.storage.updateBuildJob(job.id, {
+        status: outcome.success ? "completed" : "failed",
+        error: outcome.error ?? null,
+        checkpoint: null,
+        finishedAt: new Date(),
+      });
+    } catch (error: any) {
+      if (controller.signal.aborted) return;
+      await this.retryOrFail(job, error?.message || String(error));
+    } finally {
+      clearTimeout(timeout);
+      clearInterval(heartbeat);
+    }
+  }
+
+  // Crashed and interrupted builds run again after a growing delay until they are out of attempts
+  private async retryOrFail(job: BuildJob, message: string): Promise<void> {
+    if (job.attempts >= job.maxAttempts) {
+      await this.fail(job, message);
+      return;
+    }
+
+    const delay = RETRY_DELAY * 2 ** (job.attempts - 1);
+    await this.storage.updateBuildJob(job.id, { status: "queued", error: message, runAt: new Date(Date.now() + delay) });
+    await this.storage.addBuildLog({
+      projectId: job.projectId,
+      level: "warning",
+      message: `Build attempt ${job.attempts} of ${job.maxAttempts} failed: ${message}, retrying in ${delay / 1000} seconds`,
+    });
+  }
+
+  private async fail(job: BuildJob, message: string): Promise<void> {
+    await this.storage.updateBuildJob(job.id, { status: "failed", error: message, finishedAt: new Date() });
+    await this.storage.updateProject(job.projectId, { status: "error", progress: 100 });
+    await this.storage.addBuildLog({ projectId: job.projectId, level: "error", message });
+  }
+
+  private async recoverStalledJobs(): Promise<void> {
+    for (const job of await this.storage.getStalledBuildJobs(new Date(Date.now() - STALL_TIMEOUT))) {
+      if (this.running.has(job.id)) continue;
+      await this.retryOrFail(job, "The server running the build stopped");
+    }
+  }
+}
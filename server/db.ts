@@ -0,0 +1,46 @@
+import path from "path";
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { migrate as migrateNeon } from "drizzle-orm/neon-serverless/migrator";
+import { drizzle as drizzleNodePg } from "drizzle-orm/node-postgres";
+import { migrate as migrateNodePg } from "drizzle-orm/node-postgres/migrator";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import pg from "pg";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// SQL generated from shared/schema.ts with npm run db:generate
+export const MIGRATIONS_FOLDER = path.join(process.cwd(), "migrations");
+
+// Storage only uses what every Postgres driver has in common, so tests can hand it a pglite database
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export type DatabaseConnection =
+  | { driver: "neon"; pool: NeonPool; db: ReturnType<typeof drizzleNeon<typeof schema>> }
+  | { driver: "node-postgres"; pool: pg.Pool; db: ReturnType<typeof drizzleNodePg<typeof schema>> };
+
+// Neon's serverless driver reaches Neon over WebSockets, any other Postgres is connected to with node-postgres
+function isNeonUrl(connectionString: string): boolean {
+  return new URL(connectionString).hostname.endsWith(".neon.tech");
+}
+
+export function createDatabase(connectionString: string): DatabaseConnection {
+  if (isNeonUrl(connectionString)) {
+    const pool = new NeonPool({ connectionString });
+    return { driver: "neon", pool, db: drizzleNeon({ client: pool, schema }) };
+  }
+  const pool = new pg.Pool({ connectionString });
+  return { driver: "node-postgres", pool, db: drizzleNodePg({ client: pool, schema }) };
+}
+
+// Applies the migrations the database hasn't run yet, tracked in drizzle.__drizzle_migrations
+export async function migrateDatabase(database: DatabaseConnection): Promise<void> {
+  const config = { migrationsFolder: MIGRATIONS_FOLDER };
+  if (database.driver === "neon") {
+    await migrateNeon(database.db, config);
+  } else {
+    await migrateNodePg(database.db, config);
+  }
+}
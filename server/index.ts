@@ -1,10 +1,14 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { setupSession } from "./session";
+import { database } from "./storage";
+import { migrateDatabase } from "./db";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
+setupSession(app);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -37,6 +41,11 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  if (database) {
+    await migrateDatabase(database);
+    log("database migrations applied");
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
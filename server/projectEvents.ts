@@ -0,0 +1,34 @@
+import { EventEmitter } from "events";
+import type { BuildLog, Project } from "@shared/schema";
+
+export type ProjectEvent =
+  | { type: "project"; data: Project }
+  | { type: "log"; data: BuildLog };
+
+export type ProjectEventListener = (event: ProjectEvent) => void;
+
+// Project updates and new build log lines as storage writes them, streamed by GET /api/projects/:id/events.
+// Events stay in this process: with several servers on one database a stream only sees its own server's writes
+export class ProjectEvents {
+  private emitter: EventEmitter;
+
+  constructor() {
+    this.emitter = new EventEmitter();
+    // One listener per open stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(projectId: number, event: ProjectEvent): void {
+    this.emitter.emit(String(projectId), event);
+  }
+
+  // Returns the unsubscribe function
+  subscribe(projectId: number, listener: ProjectEventListener): () => void {
+    this.emitter.on(String(projectId), listener);
+    return () => {
+      this.emitter.off(String(projectId), listener);
+    };
+  }
+}
+
+export const projectEvents = new ProjectEvents();
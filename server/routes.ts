@@ -6,20 +6,358 @@ interface RequestWithFile extends Request {
   file?: Express.Multer.File;
 }
 import path from "path";
+import crypto, { X509Certificate } from "crypto";
 import { storage } from "./storage";
+import { getSessionUser } from "./session";
 import { FileManager } from "./services/fileManager";
 import { ProjectAnalyzer } from "./services/projectAnalyzer";
-import { ApkBuilder } from "./services/apkBuilder";
-import { insertProjectSchema, insertBuildLogSchema } from "@shared/schema";
+import { ApkBuilder, type BuildCheckpoint } from "./services/apkBuilder";
+import { createFrameworkRegistry } from "./services/frameworks/registry";
+import { ASSET_LINKS_FILE } from "./services/frameworks/pwa";
+import { KeystoreParser, KeystoreError, type SigningKey } from "./services/keystoreParser";
+import { KeystoreGenerator } from "./services/keystoreGenerator";
+import { KeystoreVault, type VaultSecret } from "./services/keystoreVault";
+import { BuildQueue, type BuildJobOutcome } from "./buildQueue";
+import { projectEvents, type ProjectEvent } from "./projectEvents";
+import { artifactName, insertProjectSchema, insertBuildLogSchema, buildOptionsSchema, buildJobOptionsSchema, keystoreRequestSchema, keystoreUploadSchema, signingIdentityRequestSchema, type BuildArtifact, type BuildArtifacts, type BuildJob, type BuildOptions, type BuildSigning, type BuildVariant, type KeystoreRequest, type Project, type SigningIdentity, type User } from "@shared/schema";
 import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
 
 const upload = multer({ storage: multer.memoryStorage() });
+const keystoreUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 1024 * 1024 } });
+const KEYSTORE_EXTENSIONS = [".jks", ".p12", ".pfx", ".keystore"];
+// There is no registered media type for app bundles; Play Console and bundletool treat them as plain binaries
+const OUTPUT_CONTENT_TYPES: Record<string, string> = {
+  ".apk": "application/vnd.android.package-archive",
+  ".aab": "application/octet-stream",
+};
+// Same alias and password as the Android SDK's debug.keystore
+const DEBUG_KEYSTORE = { file: "debug.p12", alias: "androiddebugkey", password: "android" };
+// Comment lines sent on idle event streams so proxies don't close them
+const EVENTS_KEEP_ALIVE = 15 * 1000;
 const fileManager = new FileManager();
-const projectAnalyzer = new ProjectAnalyzer(fileManager);
-const apkBuilder = new ApkBuilder(fileManager);
+// Analysis and builds dispatch to the same framework builders
+const frameworks = createFrameworkRegistry(fileManager);
+const projectAnalyzer = new ProjectAnalyzer(fileManager, frameworks);
+const apkBuilder = new ApkBuilder(fileManager, frameworks);
+const keystoreParser = new KeystoreParser();
+const keystoreGenerator = new KeystoreGenerator();
+const keystoreVault = new KeystoreVault();
+const buildQueue = new BuildQueue(storage, runBuildJob);
+
+// Checks the credentials and seals the keystore for the queued build
+async function prepareSigning(project: Project, keystore: KeystoreRequest, user: User): Promise<BuildSigning> {
+  const keystoreData = await resolveKeystore(project, keystore, user);
+  const signingKey = keystoreParser.parse(keystoreData, keystore.keystorePassword, keystore.keyAlias, keystore.keyPassword);
+
+  if (keystore.saveIdentity) {
+    await saveSigningIdentity(user, keystore, keystoreData, signingKey);
+  }
+  return {
+    userId: user.id,
+    alias: keystore.keyAlias,
+    keystore: keystoreVault.seal(user.id, {
+      keystore: keystoreData,
+      storePassword: keystore.keystorePassword,
+      keyPassword: keystore.keyPassword,
+    }),
+  };
+}
+
+async function resolveKeystore(project: Project, keystore: KeystoreRequest, user: User): Promise<Buffer> {
+  if (keystore.createNew) {
+    // Later builds reuse the project's generated key so updates keep the same signature
+    if (project.keystorePath) {
+      if (project.keystoreUserId !== user.id) {
+        throw new KeystoreError("The project's generated keystore belongs to another session");
+      }
+      return await fileManager.readFileBuffer(project.keystorePath);
+    }
+    return await createProjectKeystore(project, keystore, user);
+  }
+  if (!keystore.keystoreId) {
+    throw new KeystoreError("No keystore uploaded");
+  }
+
+  // Sealed to the user who uploaded it, so another session can't build with it even knowing the id
+  const filename = `upload_${keystore.keystoreId}`;
+  let secret: VaultSecret;
+  try {
+    secret = keystoreVault.open(user.id, (await fileManager.readKeystore(filename)).toString("utf8"));
+  } catch {
+    throw new KeystoreError("Uploaded keystore not found, please upload it again");
+  }
+  // Uploads are single use: the queued build carries its own sealed copy and the client uploads again for the next one
+  await fileManager.deleteKeystore(filename);
+  return secret.keystore;
+}
+
+// The queued build gets its own copy of the sealed keystore, deleting the identity doesn't affect it
+async function prepareIdentitySigning(user: User, identityId: number): Promise<BuildSigning> {
+  const identity = await storage.getSigningIdentity(identityId);
+  if (!identity || identity.userId !== user.id) {
+    throw new KeystoreError("Signing identity not found");
+  }
+
+  const secret = keystoreVault.open(user.id, identity.encryptedKeystore);
+  keystoreParser.parse(secret.keystore, secret.storePassword, identity.alias, secret.keyPassword);
+  return { userId: user.id, alias: identity.alias, keystore: identity.encryptedKeystore };
+}
+
+// Debug builds use the server's debug key, release builds the keystore sealed into the job if any
+async function loadJobSigningKey(job: BuildJob): Promise<SigningKey | undefined> {
+  if (job.options.variant === "debug") {
+    return await loadDebugSigningKey();
+  }
+  if (!job.signing) {
+    return undefined;
+  }
+
+  const secret = keystoreVault.open(job.signing.userId, job.signing.keystore);
+  return keystoreParser.parse(secret.keystore, secret.storePassword, job.signing.alias, secret.keyPassword);
+}
+
+async function saveSigningIdentity(user: User, keystore: KeystoreRequest, keystoreData: Buffer, signingKey: SigningKey) {
+  const certificate = new X509Certificate(signingKey.certificates[0]);
+  const subject = certificate.subject.split("\n").join(", ");
+
+  await storage.createSigningIdentity({
+    userId: user.id,
+    name: keystore.identityName || `${signingKey.alias} (${subject})`,
+    alias: signingKey.alias,
+    keyAlgorithm: signingKey.keyAlgorithm,
+    certificateSubject: subject,
+    certificateFingerprint: certificate.fingerprint256,
+    certificateExpiresAt: new Date(certificate.validTo),
+    encryptedKeystore: keystoreVault.seal(user.id, {
+      keystore: keystoreData,
+      storePassword: keystore.keystorePassword,
+      keyPassword: keystore.keyPassword,
+    }),
+  });
+}
+
+// Saved identities are listed without their encrypted keystore
+function toPublicIdentity({ encryptedKeystore, userId, ...identity }: SigningIdentity) {
+  return identity;
+}
+
+// Projects are sent without the server's keystore path; keystoreAvailable tells the session it may download the generated keystore
+function toPublicProject({ keystorePath, keystoreUserId, ...project }: Project, user: User) {
+  return {
+    ...project,
+    keystoreAvailable: Boolean(keystorePath) && keystoreUserId === user.id && !project.keystoreDownloaded,
+  };
+}
+
+// Jobs are listed without their sealed keystore
+// A paused job's checkpoint stays on the server, only the stage it continues at is shown
+function toPublicJob({ signing, checkpoint, ...job }: BuildJob) {
+  return { ...job, stage: (checkpoint as BuildCheckpoint | null)?.stage ?? null };
+}
+
+// A stopped build removes the outputs it wrote, which may have replaced earlier artifacts of the same variant
+async function keptArtifacts(project: Project): Promise<Partial<Project>> {
+  const artifacts: BuildArtifacts = {};
+  for (const [name, artifact] of Object.entries(project.artifacts ?? {})) {
+    if (await fileManager.fileExists(artifact.path)) artifacts[name] = artifact;
+  }
+  const apkPath = project.apkPath && await fileManager.fileExists(project.apkPath) ? project.apkPath : null;
+  return { artifacts, apkPath, apkSize: apkPath ? project.apkSize : null };
+}
+
+// A paused build that is cancelled never finishes the outputs it packaged before pausing
+async function discardCheckpoint(job: BuildJob): Promise<void> {
+  const checkpoint = job.checkpoint as BuildCheckpoint | null;
+  for (const output of checkpoint?.outputs ?? []) {
+    await fileManager.deleteFile(output.path);
+  }
+  const project = await storage.getProject(job.projectId);
+  if (project) {
+    await storage.updateProject(job.projectId, await keptArtifacts(project));
+  }
+}
+
+function describeBuild({ variant, outputFormat, flavors }: BuildOptions): string {
+  return flavors
+    ? `${variant} builds for ${flavors.length} flavors`
+    : `${variant} ${outputFormat === "aab" ? "app bundle" : "APK"} build`;
+}
+
+async function createProjectKeystore(project: Project, keystore: KeystoreRequest, user: User): Promise<Buffer> {
+  if (!keystore.organizationName || !keystore.country) {
+    throw new KeystoreError("Organization name and country are required to create a keystore");
+  }
+
+  const generated = keystoreGenerator.generate({
+    alias: keystore.keyAlias,
+    storePassword: keystore.keystorePassword,
+    keyAlgorithm: keystore.keyAlgorithm,
+    validityYears: keystore.validity || 25,
+    distinguishedName: {
+      commonName: keystore.organizationName,
+      organization: keystore.organizationName,
+      organizationUnit: keystore.organizationUnit,
+      locality: keystore.locality,
+      state: keystore.state,
+      country: keystore.country.toUpperCase(),
+    },
+  });
+
+  const keystorePath = await fileManager.saveKeystore(`project_${project.id}.p12`, generated.keystore);
+  await storage.updateProject(project.id, { keystorePath, keystoreUserId: user.id, keystoreDownloaded: false });
+  await storage.addBuildLog({
+    projectId: project.id,
+    level: "info",
+    message: `Generated ${keystore.keyAlgorithm} signing key "${keystore.keyAlias}" valid for ${keystore.validity || 25} years`,
+  });
+  if (keystore.keyPassword !== keystore.keystorePassword) {
+    await storage.addBuildLog({
+      projectId: project.id,
+      level: "warning",
+      message: "PKCS#12 keystores use the keystore password for the key as well, the key password was ignored",
+    });
+  }
+
+  return generated.keystore;
+}
+
+// The server's shared debug key, created on first use with the Android SDK's debug keystore settings
+async function loadDebugSigningKey(): Promise<SigningKey> {
+  try {
+    const keystore = await fileManager.readKeystore(DEBUG_KEYSTORE.file);
+    return keystoreParser.parse(keystore, DEBUG_KEYSTORE.password, DEBUG_KEYSTORE.alias, DEBUG_KEYSTORE.password);
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") throw error;
+  }
+
+  const generated = keystoreGenerator.generate({
+    alias: DEBUG_KEYSTORE.alias,
+    storePassword: DEBUG_KEYSTORE.password,
+    keyAlgorithm: "RSA",
+    validityYears: 30,
+    distinguishedName: { commonName: "Android Debug", organization: "Android", country: "US" },
+  });
+  await fileManager.saveKeystore(DEBUG_KEYSTORE.file, generated.keystore);
+  return generated.signingKey;
+}
+
+// Runs a queued build; the project was set to building when the job was queued
+async function runBuildJob(job: BuildJob, signal: AbortSignal, pauseRequested: () => boolean): Promise<BuildJobOutcome> {
+  const projectId = job.projectId;
+  const project = await storage.getProject(projectId);
+  if (!project) {
+    return { success: false, error: "Project not found" };
+  }
+  const { outputFormat, variant } = job.options;
+  const checkpoint = job.checkpoint as BuildCheckpoint | null;
+
+  // A resumed build logs the stage it continues at instead
+  if (!checkpoint) {
+    await storage.addBuildLog({
+      projectId,
+      level: "info",
+      message: `Starting ${describeBuild(job.options)}...`,
+    });
+  }
+
+  // A sealed keystore that no longer opens won't on a retry either
+  let signingKey: SigningKey | undefined;
+  try {
+    signingKey = await loadJobSigningKey(job);
+  } catch (error: any) {
+    const message = `Unable to load the signing key: ${error.message}`;
+    await storage.updateProject(projectId, { status: "error", progress: 100 });
+    await storage.addBuildLog({ projectId, level: "error", message });
+    return { success: false, error: message };
+  }
+
+  // Get project directory
+  const projectDir = await fileManager.getProjectDirectory(projectId);
+
+  // Re-analyze project to get latest analysis; a resumed build keeps the one it started with
+  const analysis = checkpoint?.analysis ?? await projectAnalyzer.analyzeProject(projectDir);
+
+  // Build APK with progress callback
+  const buildResult = await apkBuilder.buildApk(
+    projectDir,
+    analysis,
+    async (progress, message) => {
+      if (signal.aborted) return;
+      await storage.updateProject(projectId, { progress });
+      await storage.addBuildLog({
+        projectId,
+        level: "info",
+        message,
+      });
+    },
+    signingKey,
+    job.options,
+    signal,
+    { resume: checkpoint ?? undefined, shouldPause: pauseRequested }
+  );
+
+  // Update project with build results; a cancelled or timed out job was already recorded by the queue
+  if (signal.aborted) {
+    await storage.updateProject(projectId, await keptArtifacts(project));
+  } else if (buildResult.checkpoint) {
+    await storage.updateProject(projectId, { status: "paused" });
+  } else if (buildResult.success) {
+    // A rebuilt variant and flavor replaces all of its earlier artifacts, splits included
+    const rebuilt = new Set(buildResult.outputs.map((output) => artifactName(variant, output.flavor)));
+    const kept = Object.entries(project.artifacts ?? {}).filter(([, artifact]) => !rebuilt.has(artifactName(artifact.variant, artifact.flavor)));
+    const builtAt = new Date().toISOString();
+    await storage.updateProject(projectId, {
+      status: "completed",
+      progress: 100,
+      apkPath: buildResult.apkPath,
+      apkSize: buildResult.apkSize,
+      artifacts: Object.fromEntries([
+        ...kept,
+        ...buildResult.outputs.map((output): [string, BuildArtifact] => [artifactName(variant, output.flavor, output.split), {
+          path: output.path,
+          size: output.size,
+          format: outputFormat,
+          variant,
+          flavor: output.flavor,
+          split: output.split,
+          applicationId: output.applicationId,
+          versionCode: output.versionCode,
+          builtAt,
+        }]),
+      ]),
+    });
+  } else {
+    await storage.updateProject(projectId, {
+      status: "error",
+      progress: 100,
+    });
+  }
+
+  // Add build logs
+  for (const log of buildResult.logs) {
+    await storage.addBuildLog({
+      projectId,
+      level: "info",
+      message: log,
+    });
+  }
+
+  // A stopped command's failure is no build error
+  for (const error of signal.aborted ? [] : buildResult.errors) {
+    await storage.addBuildLog({
+      projectId,
+      level: "error",
+      message: error,
+    });
+  }
+
+  return { success: buildResult.success, error: buildResult.errors[0], checkpoint: buildResult.checkpoint };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  
+  buildQueue.start();
+
   // Upload project file
   app.post("/api/projects/upload", upload.single("file"), async (req: RequestWithFile, res) => {
     try {
@@ -78,18 +416,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Update project status
-      await storage.updateProject(project.id, {
+      const extracted = await storage.updateProject(project.id, {
         status: "extracted",
         progress: 25,
       });
 
-      res.json({ project: await storage.getProject(project.id) });
+      const user = await getSessionUser(req);
+      res.json({ project: extracted && toPublicProject(extracted, user) });
     } catch (error: any) {
       console.error("Upload error:", error);
       res.status(500).json({ error: `Upload failed: ${error?.message || 'Unknown error'}` });
     }
   });
 
+  // Upload an existing keystore; the returned id is referenced by build requests
+  app.post("/api/keystores/upload", keystoreUpload.single("keystore"), async (req: RequestWithFile, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No keystore uploaded" });
+      }
+
+      const extension = path.extname(req.file.originalname).toLowerCase();
+      if (!KEYSTORE_EXTENSIONS.includes(extension)) {
+        return res.status(400).json({ error: "Only .jks, .p12 and .keystore files are supported" });
+      }
+
+      const credentials = keystoreUploadSchema.safeParse(req.body);
+      if (!credentials.success) {
+        return res.status(400).json({ error: fromZodError(credentials.error).message });
+      }
+
+      // Check the credentials now so mistakes surface before a build is started
+      let signingKey: SigningKey;
+      try {
+        const { keystorePassword, keyAlias, keyPassword } = credentials.data;
+        signingKey = keystoreParser.parse(req.file.buffer, keystorePassword, keyAlias, keyPassword);
+      } catch (error: any) {
+        if (error instanceof KeystoreError) {
+          return res.status(400).json({ error: error.message });
+        }
+        throw error;
+      }
+
+      // Kept sealed until the build it was uploaded for is queued, the private key is never written in plain text
+      const user = await getSessionUser(req);
+      const keystoreId = crypto.randomUUID();
+      const sealed = keystoreVault.seal(user.id, {
+        keystore: req.file.buffer,
+        storePassword: credentials.data.keystorePassword,
+        keyPassword: credentials.data.keyPassword,
+      });
+      await fileManager.saveKeystore(`upload_${keystoreId}`, Buffer.from(sealed, "utf8"));
+
+      res.json({ keystoreId, alias: signingKey.alias, keyAlgorithm: signingKey.keyAlgorithm });
+    } catch (error) {
+      console.error("Keystore upload error:", error);
+      res.status(500).json({ error: "Keystore upload failed" });
+    }
+  });
+
+  // List the current user's saved signing identities
+  app.get("/api/signing-identities", async (req, res) => {
+    try {
+      const user = await getSessionUser(req);
+      const identities = await storage.getSigningIdentitiesByUser(user.id);
+      res.json(identities.map(toPublicIdentity));
+    } catch (error) {
+      console.error("Get signing identities error:", error);
+      res.status(500).json({ error: "Failed to get signing identities" });
+    }
+  });
+
+  // Delete a saved signing identity
+  app.delete("/api/signing-identities/:id", async (req, res) => {
+    try {
+      const user = await getSessionUser(req);
+      const identity = await storage.getSigningIdentity(parseInt(req.params.id));
+
+      if (!identity || identity.userId !== user.id) {
+        return res.status(404).json({ error: "Signing identity not found" });
+      }
+
+      await storage.deleteSigningIdentity(identity.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete signing identity error:", error);
+      res.status(500).json({ error: "Failed to delete signing identity" });
+    }
+  });
+
   // Get project details
   app.get("/api/projects/:id", async (req, res) => {
     try {
@@ -100,7 +515,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Project not found" });
       }
 
-      res.json(project);
+      const user = await getSessionUser(req);
+      res.json(toPublicProject(project, user));
     } catch (error) {
       console.error("Get project error:", error);
       res.status(500).json({ error: "Failed to get project" });
@@ -110,8 +526,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get all projects
   app.get("/api/projects", async (req, res) => {
     try {
+      const user = await getSessionUser(req);
       const projects = await storage.getAllProjects();
-      res.json(projects);
+      res.json(projects.map((project) => toPublicProject(project, user)));
     } catch (error) {
       console.error("Get projects error:", error);
       res.status(500).json({ error: "Failed to get projects" });
@@ -171,6 +588,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      for (const warning of analysis.warnings) {
+        await storage.addBuildLog({
+          projectId,
+          level: "warning",
+          message: warning,
+        });
+      }
+
       res.json({ analysis });
     } catch (error) {
       console.error("Analysis error:", error);
@@ -182,7 +607,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Build APK
+  // Queue an APK build, the job id is returned right away
   app.post("/api/projects/:id/build", async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
@@ -192,6 +617,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Project not found" });
       }
 
+      const activeJob = await storage.getActiveBuildJob(projectId);
+      if (activeJob) {
+        return res.status(409).json({ error: `Build job #${activeJob.id} for this project is still ${activeJob.status}` });
+      }
+
+      // Build options, queue settings and signing details share the request body
+      const body: Record<string, unknown> = req.body ?? {};
+      const optionKeys = [...Object.keys(buildOptionsSchema.shape), ...Object.keys(buildJobOptionsSchema.shape)];
+      const buildOptions = buildOptionsSchema.safeParse(body);
+      if (!buildOptions.success) {
+        return res.status(400).json({ error: fromZodError(buildOptions.error).message });
+      }
+      const jobOptions = buildJobOptionsSchema.safeParse(body);
+      if (!jobOptions.success) {
+        return res.status(400).json({ error: fromZodError(jobOptions.error).message });
+      }
+      const signingRequest = Object.fromEntries(Object.entries(body).filter(([key]) => !optionKeys.includes(key)));
+      const { outputFormat, variant, splits } = buildOptions.data;
+      if (outputFormat === "aab" && (splits?.abi || splits?.density)) {
+        return res.status(400).json({ error: "APK splits don't apply to app bundles, Google Play generates split APKs from the bundle itself" });
+      }
+
+      // Check the signing details up front so bad keystore credentials fail before the build is queued
+      let signing: BuildSigning | undefined;
+      if (variant !== "debug" && Object.keys(signingRequest).length > 0) {
+        const user = await getSessionUser(req);
+        const keystoreRequest = "identityId" in signingRequest
+          ? signingIdentityRequestSchema.safeParse(signingRequest)
+          : keystoreRequestSchema.safeParse(signingRequest);
+        if (!keystoreRequest.success) {
+          return res.status(400).json({ error: fromZodError(keystoreRequest.error).message });
+        }
+        try {
+          signing = "identityId" in keystoreRequest.data
+            ? await prepareIdentitySigning(user, keystoreRequest.data.identityId)
+            : await prepareSigning(project, keystoreRequest.data, user);
+        } catch (error: any) {
+          if (error instanceof KeystoreError) {
+            return res.status(400).json({ error: error.message });
+          }
+          throw error;
+        }
+      }
+
+      const job = await buildQueue.enqueue(projectId, buildOptions.data, signing, jobOptions.data);
+
       // Update project status
       await storage.updateProject(projectId, {
         status: "building",
@@ -201,73 +672,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
       await storage.addBuildLog({
         projectId,
         level: "info",
-        message: "Starting APK build...",
+        message: `Queued ${describeBuild(buildOptions.data)} as job #${job.id}`,
       });
+      if (variant === "debug" && Object.keys(signingRequest).length > 0) {
+        await storage.addBuildLog({
+          projectId,
+          level: "warning",
+          message: "Debug builds are signed with the debug key, the supplied signing details were ignored",
+        });
+      }
 
-      // Get project directory
-      const projectDir = await fileManager.getProjectDirectory(projectId);
-      
-      // Re-analyze project to get latest analysis
-      const analysis = await projectAnalyzer.analyzeProject(projectDir);
+      res.status(202).json({ jobId: job.id });
+    } catch (error) {
+      console.error("Build error:", error);
+      res.status(500).json({ error: "Failed to queue build" });
+    }
+  });
 
-      // Build APK with progress callback
-      const buildResult = await apkBuilder.buildApk(
-        projectDir,
-        analysis,
-        async (progress, message) => {
-          await storage.updateProject(projectId, { progress });
-          await storage.addBuildLog({
-            projectId,
-            level: "info",
-            message,
-          });
-        }
-      );
-
-      // Update project with build results
-      if (buildResult.success) {
-        await storage.updateProject(projectId, {
-          status: "completed",
-          progress: 100,
-          apkPath: buildResult.apkPath,
-          apkSize: buildResult.apkSize,
-        });
-      } else {
-        await storage.updateProject(projectId, {
-          status: "error",
-          progress: 100,
-        });
+  // Cancel the project's queued or running build, stopping the commands it runs
+  app.post("/api/projects/:id/cancel", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const job = await storage.getActiveBuildJob(projectId);
+
+      if (!job) {
+        return res.status(409).json({ error: "No queued, running or paused build to cancel" });
       }
 
-      // Add build logs
-      for (const log of buildResult.logs) {
-        await storage.addBuildLog({
-          projectId,
-          level: "info",
-          message: log,
-        });
+      if (!(await buildQueue.cancel(job))) {
+        return res.status(409).json({ error: `Build job #${job.id} is no longer ${job.status}` });
       }
+      if (job.status === "paused") {
+        await discardCheckpoint(job);
+      }
+      res.json({ success: true, jobId: job.id });
+    } catch (error) {
+      console.error("Cancel build error:", error);
+      res.status(500).json({ error: "Failed to cancel build" });
+    }
+  });
 
-      for (const error of buildResult.errors) {
-        await storage.addBuildLog({
-          projectId,
-          level: "error",
-          message: error,
-        });
+  // Pause a build after its current stage
+  app.post("/api/projects/:id/pause", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const job = await storage.getActiveBuildJob(projectId);
+
+      if (!job || job.status === "paused") {
+        return res.status(409).json({ error: "No queued or running build to pause" });
+      }
+      if (job.pauseRequested) {
+        return res.status(409).json({ error: `Build job #${job.id} is already pausing` });
       }
 
-      res.json({ buildResult });
+      if (!(await buildQueue.pause(job))) {
+        return res.status(409).json({ error: `Build job #${job.id} is no longer ${job.status}` });
+      }
+      res.json({ success: true, jobId: job.id });
     } catch (error) {
-      console.error("Build error:", error);
-      await storage.updateProject(parseInt(req.params.id), {
-        status: "error",
-        progress: 100,
-      });
-      res.status(500).json({ error: "Build failed" });
+      console.error("Pause build error:", error);
+      res.status(500).json({ error: "Failed to pause build" });
+    }
+  });
+
+  // Resume a paused build from the stage it stopped before
+  app.post("/api/projects/:id/resume", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const job = await storage.getActiveBuildJob(projectId);
+
+      if (job?.status !== "paused") {
+        return res.status(409).json({ error: "No paused build to resume" });
+      }
+
+      await buildQueue.resume(job);
+      res.json({ success: true, jobId: job.id });
+    } catch (error) {
+      console.error("Resume build error:", error);
+      res.status(500).json({ error: "Failed to resume build" });
+    }
+  });
+
+  // Get build job status
+  app.get("/api/jobs/:id", async (req, res) => {
+    try {
+      const job = await storage.getBuildJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ error: "Build job not found" });
+      }
+
+      res.json(toPublicJob(job));
+    } catch (error) {
+      console.error("Get build job error:", error);
+      res.status(500).json({ error: "Failed to get build job" });
     }
   });
 
-  // Download APK
+  // Download the built APK or app bundle, ?variant=debug|release, ?flavor=<name> and ?split=<filter> pick one of the kept artifacts
   app.get("/api/projects/:id/download", async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
@@ -277,17 +778,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "APK not found" });
       }
 
-      const filename = `${project.name}-release.apk`;
+      const { variant, flavor, split } = req.query;
+      if (variant !== undefined && variant !== "debug" && variant !== "release") {
+        return res.status(400).json({ error: "variant must be debug or release" });
+      }
+      if ((flavor !== undefined && typeof flavor !== "string") || (split !== undefined && typeof split !== "string")) {
+        return res.status(400).json({ error: "flavor and split must be single names" });
+      }
+      // Without any of them the latest build is sent
+      const artifacts = project.artifacts ?? {};
+      const artifact = variant || flavor || split
+        ? artifacts[artifactName((variant as BuildVariant | undefined) ?? "release", flavor, split)]
+        : Object.values(artifacts).find((kept) => kept.path === project.apkPath);
+      if (!artifact) {
+        return res.status(404).json({ error: `No ${[flavor, split, variant ?? "release"].filter(Boolean).join(" ")} build found` });
+      }
+
+      const artifactPath = artifact.path;
+      const extension = path.extname(artifactPath);
+      const filename = `${[project.name, artifact.flavor, artifact.split, artifact.variant].filter(Boolean).join("-")}${extension}`;
       res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-      res.setHeader('Content-Type', 'application/vnd.android.package-archive');
+      res.setHeader('Content-Type', OUTPUT_CONTENT_TYPES[extension] ?? 'application/octet-stream');
       
-      res.sendFile(path.resolve(project.apkPath));
+      res.sendFile(path.resolve(artifactPath));
     } catch (error) {
       console.error("Download error:", error);
       res.status(500).json({ error: "Download failed" });
     }
   });
 
+  // Download the Digital Asset Links file of a PWA build, for the site to serve at /.well-known/assetlinks.json
+  app.get("/api/projects/:id/assetlinks", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      const assetLinksPath = path.join(await fileManager.getProjectDirectory(projectId), ASSET_LINKS_FILE);
+
+      if (!project || !(await fileManager.fileExists(assetLinksPath))) {
+        return res.status(404).json({ error: "No assetlinks.json found, build the PWA with a signing key first" });
+      }
+
+      res.setHeader('Content-Disposition', 'attachment; filename="assetlinks.json"');
+      res.sendFile(path.resolve(assetLinksPath));
+    } catch (error) {
+      console.error("Asset links download error:", error);
+      res.status(500).json({ error: "Asset links download failed" });
+    }
+  });
+
+  // Download the generated keystore; it is handed out once, the server keeps its copy for future builds
+  app.get("/api/projects/:id/keystore", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const user = await getSessionUser(req);
+      const project = await storage.getProject(projectId);
+
+      // Another session's keystore is reported missing rather than forbidden, so its existence isn't revealed
+      if (!project || !project.keystorePath || project.keystoreUserId !== user.id) {
+        return res.status(404).json({ error: "Keystore not found" });
+      }
+
+      const claimed = await storage.claimKeystoreDownload(projectId, user.id);
+      if (!claimed || !claimed.keystorePath) {
+        return res.status(410).json({ error: "Keystore has already been downloaded" });
+      }
+
+      const filename = `${project.name}-release.p12`;
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('Content-Type', 'application/x-pkcs12');
+
+      res.sendFile(path.resolve(claimed.keystorePath), async (error) => {
+        if (error) {
+          // Let the user try again if the transfer did not complete
+          await storage.updateProject(projectId, { keystoreDownloaded: false });
+        }
+      });
+    } catch (error) {
+      console.error("Keystore download error:", error);
+      res.status(500).json({ error: "Keystore download failed" });
+    }
+  });
+
   // Get build logs
   app.get("/api/projects/:id/logs", async (req, res) => {
     try {
@@ -300,6 +871,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stream project updates and new build log lines as Server-Sent Events
+  app.get("/api/projects/:id/events", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const user = await getSessionUser(req);
+      const project = await storage.getProject(projectId);
+
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      const send = (event: ProjectEvent) => {
+        const data = event.type === "project" ? toPublicProject(event.data, user) : event.data;
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      // The current state first, so a reconnecting client catches up on what it missed
+      send({ type: "project", data: project });
+      const unsubscribe = projectEvents.subscribe(projectId, send);
+      const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), EVENTS_KEEP_ALIVE);
+
+      req.on("close", () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      });
+    } catch (error) {
+      console.error("Project events error:", error);
+      res.status(500).json({ error: "Failed to stream project events" });
+    }
+  });
+
   // Clear build logs
   app.delete("/api/projects/:id/logs", async (req, res) => {
     try {
@@ -320,6 +927,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Clean up files
       const projectDir = await fileManager.getProjectDirectory(projectId);
       await fileManager.deleteDirectory(projectDir);
+
+      const project = await storage.getProject(projectId);
+      if (project?.keystorePath) {
+        await fileManager.deleteFile(project.keystorePath);
+      }
       
       // Delete from storage
       await storage.clearBuildLogs(projectId);
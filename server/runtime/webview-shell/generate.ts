@@ -0,0 +1,594 @@
+// Assembles the WebView shell's classes.dex and shell.json. Both outputs are committed, the builder
+// only reads them; run `npm run build:shell` from the repository root after changing the shell and
+// bump SHELL_VERSION so built APKs record which runtime they carry.
+//
+// The shell is a single activity, equivalent to:
+//
+//   public class MainActivity extends android.app.Activity {
+//     private WebView webView;
+//
+//     protected void onCreate(Bundle savedInstanceState) {
+//       super.onCreate(savedInstanceState);
+//       webView = new WebView(this);
+//       WebSettings settings = webView.getSettings();
+//       settings.setJavaScriptEnabled(true);
+//       settings.setDomStorageEnabled(true);
+//       webView.setWebViewClient(new WebViewClient());
+//       setContentView(webView);
+//       webView.loadUrl("file:///android_asset/www/index.html");
+//     }
+//
+//     public void onBackPressed() {
+//       if (webView != null && webView.canGoBack()) webView.goBack();
+//       else super.onBackPressed();
+//     }
+//   }
+
+import { createHash } from 'crypto';
+import { writeFileSync } from 'fs';
+import path from 'path';
+import { finalizeDex, validateDex } from '../../services/dexFile';
+
+const SHELL_VERSION = '1.0.0';
+const ACTIVITY = 'com.apkconverter.shell.MainActivity';
+const ENTRY_POINT = 'www/index.html';
+
+interface MethodRef {
+  owner: string;
+  name: string;
+  returns: string;
+  params: string[];
+}
+
+interface FieldRef {
+  owner: string;
+  name: string;
+  type: string;
+}
+
+type Instruction =
+  | { op: 'invoke-virtual' | 'invoke-super' | 'invoke-direct'; method: MethodRef; registers: number[] }
+  | { op: 'new-instance'; register: number; type: string }
+  | { op: 'iget-object' | 'iput-object'; register: number; object: number; field: FieldRef }
+  | { op: 'move-result' | 'move-result-object'; register: number }
+  | { op: 'const/4'; register: number; value: number }
+  | { op: 'const-string'; register: number; value: string }
+  | { op: 'if-eqz'; register: number; label: string }
+  | { op: 'return-void' }
+  | { op: 'label'; name: string };
+
+interface MethodDefinition {
+  method: MethodRef;
+  access: number;
+  // Locals; the receiver and parameters are appended after them
+  locals: number;
+  code: Instruction[];
+}
+
+interface ClassDefinition {
+  type: string;
+  superclass: string;
+  access: number;
+  fields: Array<{ field: FieldRef; access: number }>;
+  directMethods: MethodDefinition[];
+  virtualMethods: MethodDefinition[];
+}
+
+const ACC_PUBLIC = 0x1;
+const ACC_PRIVATE = 0x2;
+const ACC_PROTECTED = 0x4;
+const ACC_CONSTRUCTOR = 0x10000;
+const NO_INDEX = 0xffffffff;
+const HEADER_SIZE = 0x70;
+
+const OPCODES: Record<Exclude<Instruction['op'], 'label'>, number> = {
+  'return-void': 0x0e,
+  'move-result': 0x0a,
+  'move-result-object': 0x0c,
+  'const/4': 0x12,
+  'const-string': 0x1a,
+  'new-instance': 0x22,
+  'if-eqz': 0x38,
+  'iget-object': 0x54,
+  'iput-object': 0x5b,
+  'invoke-virtual': 0x6e,
+  'invoke-super': 0x6f,
+  'invoke-direct': 0x70,
+};
+
+const MAP_TYPES = {
+  header: 0x0000,
+  stringId: 0x0001,
+  typeId: 0x0002,
+  protoId: 0x0003,
+  fieldId: 0x0004,
+  methodId: 0x0005,
+  classDef: 0x0006,
+  mapList: 0x1000,
+  typeList: 0x1001,
+  classData: 0x2000,
+  code: 0x2001,
+  stringData: 0x2002,
+};
+
+// Writes a dex (format 035) file holding the given classes
+class DexWriter {
+  private strings: string[] = [];
+  private types: string[] = [];
+  private protos: Array<{ returns: string; params: string[] }> = [];
+  private fields: FieldRef[] = [];
+  private methods: MethodRef[] = [];
+
+  constructor(private classes: ClassDefinition[]) {
+    this.collect();
+  }
+
+  write(): Buffer {
+    const idsSize = HEADER_SIZE + this.strings.length * 4 + this.types.length * 4 + this.protos.length * 12
+      + this.fields.length * 8 + this.methods.length * 8 + this.classes.length * 32;
+    const data = new SectionWriter(idsSize);
+
+    const codeOffsets = new Map<MethodDefinition, number>();
+    const codeStart = data.align();
+    for (const definition of this.classes.flatMap(c => [...c.directMethods, ...c.virtualMethods])) {
+      codeOffsets.set(definition, data.align());
+      data.bytes(this.codeItem(definition));
+    }
+
+    const typeListStart = data.align();
+    const typeLists = new Map<string, number>();
+    for (const proto of this.protos.filter(p => p.params.length > 0)) {
+      const key = proto.params.join(',');
+      if (typeLists.has(key)) continue;
+      typeLists.set(key, data.align());
+      data.uint32(proto.params.length);
+      proto.params.forEach(param => data.uint16(this.typeIndex(param)));
+    }
+
+    const stringDataStart = data.offset;
+    const stringOffsets = this.strings.map(value => {
+      const offset = data.offset;
+      data.uleb128(value.length);
+      data.bytes(this.mutf8(value));
+      data.bytes(Buffer.from([0]));
+      return offset;
+    });
+
+    const classDataStart = data.offset;
+    const classDataOffsets = this.classes.map(definition => {
+      const offset = data.offset;
+      data.uleb128(0); // static fields
+      data.uleb128(definition.fields.length);
+      data.uleb128(definition.directMethods.length);
+      data.uleb128(definition.virtualMethods.length);
+      this.encodeMembers(data, definition.fields.map(f => ({ index: this.fieldIndex(f.field), access: f.access })));
+      for (const methods of [definition.directMethods, definition.virtualMethods]) {
+        this.encodeMembers(data, methods.map(m => ({
+          index: this.methodIndex(m.method),
+          access: m.access,
+          code: codeOffsets.get(m)!,
+        })));
+      }
+      return offset;
+    });
+
+    const mapOffset = data.align();
+    const sections = [
+      { type: MAP_TYPES.header, size: 1, offset: 0 },
+      { type: MAP_TYPES.stringId, size: this.strings.length, offset: HEADER_SIZE },
+      { type: MAP_TYPES.typeId, size: this.types.length, offset: HEADER_SIZE + this.strings.length * 4 },
+      { type: MAP_TYPES.protoId, size: this.protos.length, offset: HEADER_SIZE + (this.strings.length + this.types.length) * 4 },
+      { type: MAP_TYPES.fieldId, size: this.fields.length, offset: 0 },
+      { type: MAP_TYPES.methodId, size: this.methods.length, offset: 0 },
+      { type: MAP_TYPES.classDef, size: this.classes.length, offset: 0 },
+      { type: MAP_TYPES.code, size: codeOffsets.size, offset: codeStart },
+      { type: MAP_TYPES.typeList, size: typeLists.size, offset: typeListStart },
+      { type: MAP_TYPES.stringData, size: this.strings.length, offset: stringDataStart },
+      { type: MAP_TYPES.classData, size: this.classes.length, offset: classDataStart },
+      { type: MAP_TYPES.mapList, size: 1, offset: mapOffset },
+    ];
+    sections[4].offset = sections[3].offset + this.protos.length * 12;
+    sections[5].offset = sections[4].offset + this.fields.length * 8;
+    sections[6].offset = sections[5].offset + this.methods.length * 8;
+    const present = sections.filter(section => section.size > 0);
+    data.uint32(present.length);
+    for (const section of present) {
+      data.uint16(section.type);
+      data.uint16(0);
+      data.uint32(section.size);
+      data.uint32(section.offset);
+    }
+
+    const ids = Buffer.alloc(idsSize);
+    let position = HEADER_SIZE;
+    for (const offset of stringOffsets) {
+      position = ids.writeUInt32LE(offset, position);
+    }
+    for (const type of this.types) {
+      position = ids.writeUInt32LE(this.stringIndex(type), position);
+    }
+    for (const proto of this.protos) {
+      position = ids.writeUInt32LE(this.stringIndex(this.shorty(proto)), position);
+      position = ids.writeUInt32LE(this.typeIndex(proto.returns), position);
+      position = ids.writeUInt32LE(proto.params.length ? typeLists.get(proto.params.join(','))! : 0, position);
+    }
+    for (const field of this.fields) {
+      position = ids.writeUInt16LE(this.typeIndex(field.owner), position);
+      position = ids.writeUInt16LE(this.typeIndex(field.type), position);
+      position = ids.writeUInt32LE(this.stringIndex(field.name), position);
+    }
+    for (const method of this.methods) {
+      position = ids.writeUInt16LE(this.typeIndex(method.owner), position);
+      position = ids.writeUInt16LE(this.protoIndex(method), position);
+      position = ids.writeUInt32LE(this.stringIndex(method.name), position);
+    }
+    this.classes.forEach((definition, index) => {
+      position = ids.writeUInt32LE(this.typeIndex(definition.type), position);
+      position = ids.writeUInt32LE(definition.access, position);
+      position = ids.writeUInt32LE(this.typeIndex(definition.superclass), position);
+      position = ids.writeUInt32LE(0, position); // interfaces
+      position = ids.writeUInt32LE(NO_INDEX, position); // source file
+      position = ids.writeUInt32LE(0, position); // annotations
+      position = ids.writeUInt32LE(classDataOffsets[index], position);
+      position = ids.writeUInt32LE(0, position); // static values
+    });
+
+    const dex = Buffer.concat([ids, data.buffer()]);
+    Buffer.from('dex\n035\0', 'latin1').copy(dex, 0);
+    dex.writeUInt32LE(HEADER_SIZE, 36);
+    dex.writeUInt32LE(0x12345678, 40); // endian tag
+    dex.writeUInt32LE(mapOffset, 52);
+    let headerPosition = 56;
+    for (const section of sections.slice(1, 7)) {
+      headerPosition = dex.writeUInt32LE(section.size, headerPosition);
+      headerPosition = dex.writeUInt32LE(section.size ? section.offset : 0, headerPosition);
+    }
+    dex.writeUInt32LE(dex.length - idsSize, 104);
+    dex.writeUInt32LE(idsSize, 108);
+    return finalizeDex(dex);
+  }
+
+  // Gathers every string, type, prototype, field and method the classes refer to, in dex sort order
+  private collect() {
+    const strings = new Set<string>();
+    const types = new Set<string>();
+    const protos = new Map<string, { returns: string; params: string[] }>();
+    const fields = new Map<string, FieldRef>();
+    const methods = new Map<string, MethodRef>();
+
+    const addType = (type: string) => {
+      types.add(type);
+      strings.add(type);
+    };
+    const addField = (field: FieldRef) => {
+      addType(field.owner);
+      addType(field.type);
+      strings.add(field.name);
+      fields.set(`${field.owner}->${field.name}:${field.type}`, field);
+    };
+    const addMethod = (method: MethodRef) => {
+      addType(method.owner);
+      addType(method.returns);
+      method.params.forEach(addType);
+      strings.add(method.name);
+      strings.add(this.shorty(method));
+      protos.set(this.protoKey(method), { returns: method.returns, params: method.params });
+      methods.set(`${method.owner}->${method.name}${this.protoKey(method)}`, method);
+    };
+
+    for (const definition of this.classes) {
+      addType(definition.type);
+      addType(definition.superclass);
+      definition.fields.forEach(f => addField(f.field));
+      for (const method of [...definition.directMethods, ...definition.virtualMethods]) {
+        addMethod(method.method);
+        for (const instruction of method.code) {
+          if ('method' in instruction) addMethod(instruction.method);
+          if ('field' in instruction) addField(instruction.field);
+          if (instruction.op === 'new-instance') addType(instruction.type);
+          if (instruction.op === 'const-string') strings.add(instruction.value);
+        }
+      }
+    }
+
+    this.strings = Array.from(strings).sort(compare);
+    this.types = Array.from(types).sort((a, b) => this.stringIndex(a) - this.stringIndex(b));
+    const typeOrder = (list: string[]) => list.map(type => this.typeIndex(type));
+    this.protos = Array.from(protos.values()).sort((a, b) =>
+      this.typeIndex(a.returns) - this.typeIndex(b.returns) || compareLists(typeOrder(a.params), typeOrder(b.params)));
+    this.fields = Array.from(fields.values()).sort((a, b) =>
+      this.typeIndex(a.owner) - this.typeIndex(b.owner)
+      || this.stringIndex(a.name) - this.stringIndex(b.name)
+      || this.typeIndex(a.type) - this.typeIndex(b.type));
+    this.methods = Array.from(methods.values()).sort((a, b) =>
+      this.typeIndex(a.owner) - this.typeIndex(b.owner)
+      || this.stringIndex(a.name) - this.stringIndex(b.name)
+      || this.protoIndex(a) - this.protoIndex(b));
+
+    for (const definition of this.classes) {
+      definition.directMethods.sort((a, b) => this.methodIndex(a.method) - this.methodIndex(b.method));
+      definition.virtualMethods.sort((a, b) => this.methodIndex(a.method) - this.methodIndex(b.method));
+      definition.fields.sort((a, b) => this.fieldIndex(a.field) - this.fieldIndex(b.field));
+    }
+  }
+
+  private codeItem(definition: MethodDefinition): Buffer {
+    const ins = definition.method.params.length + 1;
+    const invokes = definition.code.filter(i => i.op.startsWith('invoke-')) as Array<{ registers: number[] }>;
+    const outs = Math.max(0, ...invokes.map(i => i.registers.length));
+    const units = this.assemble(definition.code);
+
+    const header = Buffer.alloc(16);
+    header.writeUInt16LE(definition.locals + ins, 0);
+    header.writeUInt16LE(ins, 2);
+    header.writeUInt16LE(outs, 4);
+    header.writeUInt16LE(0, 6); // tries
+    header.writeUInt32LE(0, 8); // debug info
+    header.writeUInt32LE(units.length, 12);
+    const insns = Buffer.alloc(units.length * 2);
+    units.forEach((unit, index) => insns.writeUInt16LE(unit, index * 2));
+    return Buffer.concat([header, insns]);
+  }
+
+  // Two passes: label positions first, then the 16-bit code units
+  private assemble(code: Instruction[]): number[] {
+    const labels = new Map<string, number>();
+    let position = 0;
+    for (const instruction of code) {
+      if (instruction.op === 'label') labels.set(instruction.name, position);
+      else position += this.instructionSize(instruction);
+    }
+
+    const units: number[] = [];
+    for (const instruction of code) {
+      if (instruction.op === 'label') continue;
+      const opcode = OPCODES[instruction.op];
+      switch (instruction.op) {
+        case 'return-void':
+          units.push(opcode);
+          break;
+        case 'move-result':
+        case 'move-result-object':
+          units.push((instruction.register << 8) | opcode);
+          break;
+        case 'const/4':
+          units.push(((instruction.value & 0xf) << 12) | (instruction.register << 8) | opcode);
+          break;
+        case 'const-string':
+          units.push((instruction.register << 8) | opcode, this.stringIndex(instruction.value));
+          break;
+        case 'new-instance':
+          units.push((instruction.register << 8) | opcode, this.typeIndex(instruction.type));
+          break;
+        case 'if-eqz': {
+          const target = labels.get(instruction.label);
+          if (target === undefined) throw new Error(`Unknown label ${instruction.label}`);
+          units.push((instruction.register << 8) | opcode, (target - units.length) & 0xffff);
+          break;
+        }
+        case 'iget-object':
+        case 'iput-object':
+          units.push((instruction.object << 12) | (instruction.register << 8) | opcode, this.fieldIndex(instruction.field));
+          break;
+        default: {
+          const [c = 0, d = 0, e = 0, f = 0, g = 0] = instruction.registers;
+          units.push((instruction.registers.length << 12) | (g << 8) | opcode,
+            this.methodIndex(instruction.method),
+            (f << 12) | (e << 8) | (d << 4) | c);
+        }
+      }
+    }
+    return units;
+  }
+
+  private instructionSize(instruction: Instruction): number {
+    switch (instruction.op) {
+      case 'return-void':
+      case 'move-result':
+      case 'move-result-object':
+      case 'const/4':
+        return 1;
+      case 'invoke-virtual':
+      case 'invoke-super':
+      case 'invoke-direct':
+        return 3;
+      default:
+        return 2;
+    }
+  }
+
+  private encodeMembers(data: SectionWriter, members: Array<{ index: number; access: number; code?: number }>) {
+    let previous = 0;
+    for (const member of members) {
+      data.uleb128(member.index - previous);
+      data.uleb128(member.access);
+      if (member.code !== undefined) data.uleb128(member.code);
+      previous = member.index;
+    }
+  }
+
+  // Modified UTF-8; the shell only uses ASCII, where it matches plain UTF-8 minus embedded NULs
+  private mutf8(value: string): Buffer {
+    if (!/^[\x01-\x7f]*$/.test(value)) throw new Error(`Non-ASCII string "${value}" in shell`);
+    return Buffer.from(value, 'latin1');
+  }
+
+  private shorty(proto: { returns: string; params: string[] }): string {
+    return [proto.returns, ...proto.params].map(type => (/^[VZBSCIJFD]$/.test(type) ? type : 'L')).join('');
+  }
+
+  private protoKey(proto: { returns: string; params: string[] }): string {
+    return `(${proto.params.join('')})${proto.returns}`;
+  }
+
+  private stringIndex(value: string): number {
+    return this.indexOf(this.strings, value, 'string');
+  }
+
+  private typeIndex(type: string): number {
+    return this.indexOf(this.types, type, 'type');
+  }
+
+  private protoIndex(proto: { returns: string; params: string[] }): number {
+    return this.indexOf(this.protos.map(p => this.protoKey(p)), this.protoKey(proto), 'prototype');
+  }
+
+  private fieldIndex(field: FieldRef): number {
+    return this.fields.findIndex(f => f.owner === field.owner && f.name === field.name && f.type === field.type);
+  }
+
+  private methodIndex(method: MethodRef): number {
+    const key = `${method.owner}->${method.name}${this.protoKey(method)}`;
+    return this.indexOf(this.methods.map(m => `${m.owner}->${m.name}${this.protoKey(m)}`), key, 'method');
+  }
+
+  private indexOf(list: string[], value: string, kind: string): number {
+    const index = list.indexOf(value);
+    if (index < 0) throw new Error(`Missing ${kind} ${value}`);
+    return index;
+  }
+}
+
+// Appends data items, tracking their absolute offsets in the dex file
+class SectionWriter {
+  private parts: Buffer[] = [];
+  offset: number;
+
+  constructor(private start: number) {
+    this.offset = start;
+  }
+
+  align(): number {
+    const padding = (4 - (this.offset % 4)) % 4;
+    if (padding) this.bytes(Buffer.alloc(padding));
+    return this.offset;
+  }
+
+  bytes(data: Buffer) {
+    this.parts.push(data);
+    this.offset += data.length;
+  }
+
+  uint16(value: number) {
+    const buffer = Buffer.alloc(2);
+    buffer.writeUInt16LE(value, 0);
+    this.bytes(buffer);
+  }
+
+  uint32(value: number) {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32LE(value >>> 0, 0);
+    this.bytes(buffer);
+  }
+
+  uleb128(value: number) {
+    const bytes: number[] = [];
+    do {
+      let byte = value & 0x7f;
+      value >>>= 7;
+      if (value) byte |= 0x80;
+      bytes.push(byte);
+    } while (value);
+    this.bytes(Buffer.from(bytes));
+  }
+
+  buffer(): Buffer {
+    return Buffer.concat(this.parts);
+  }
+}
+
+// Code unit order, which is what the dex format sorts strings by
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareLists(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+const descriptor = (className: string) => `L${className.replace(/\./g, '/')};`;
+
+const ACTIVITY_TYPE = descriptor(ACTIVITY);
+const Activity = 'Landroid/app/Activity;';
+const Bundle = 'Landroid/os/Bundle;';
+const Context = 'Landroid/content/Context;';
+const View = 'Landroid/view/View;';
+const WebView = 'Landroid/webkit/WebView;';
+const WebSettings = 'Landroid/webkit/WebSettings;';
+const WebViewClient = 'Landroid/webkit/WebViewClient;';
+const JavaString = 'Ljava/lang/String;';
+
+const webView: FieldRef = { owner: ACTIVITY_TYPE, name: 'webView', type: WebView };
+const method = (owner: string, name: string, returns: string, ...params: string[]): MethodRef => ({ owner, name, returns, params });
+
+const shell: ClassDefinition = {
+  type: ACTIVITY_TYPE,
+  superclass: Activity,
+  access: ACC_PUBLIC,
+  fields: [{ field: webView, access: ACC_PRIVATE }],
+  directMethods: [{
+    method: method(ACTIVITY_TYPE, '<init>', 'V'),
+    access: ACC_PUBLIC | ACC_CONSTRUCTOR,
+    locals: 0,
+    code: [
+      { op: 'invoke-direct', method: method(Activity, '<init>', 'V'), registers: [0] },
+      { op: 'return-void' },
+    ],
+  }],
+  virtualMethods: [{
+    // v0 web view, v1 settings / scratch, v2 true; v3 this, v4 savedInstanceState
+    method: method(ACTIVITY_TYPE, 'onCreate', 'V', Bundle),
+    access: ACC_PROTECTED,
+    locals: 3,
+    code: [
+      { op: 'invoke-super', method: method(Activity, 'onCreate', 'V', Bundle), registers: [3, 4] },
+      { op: 'new-instance', register: 0, type: WebView },
+      { op: 'invoke-direct', method: method(WebView, '<init>', 'V', Context), registers: [0, 3] },
+      { op: 'iput-object', register: 0, object: 3, field: webView },
+      { op: 'invoke-virtual', method: method(WebView, 'getSettings', WebSettings), registers: [0] },
+      { op: 'move-result-object', register: 1 },
+      { op: 'const/4', register: 2, value: 1 },
+      { op: 'invoke-virtual', method: method(WebSettings, 'setJavaScriptEnabled', 'V', 'Z'), registers: [1, 2] },
+      { op: 'invoke-virtual', method: method(WebSettings, 'setDomStorageEnabled', 'V', 'Z'), registers: [1, 2] },
+      { op: 'new-instance', register: 1, type: WebViewClient },
+      { op: 'invoke-direct', method: method(WebViewClient, '<init>', 'V'), registers: [1] },
+      { op: 'invoke-virtual', method: method(WebView, 'setWebViewClient', 'V', WebViewClient), registers: [0, 1] },
+      { op: 'invoke-virtual', method: method(Activity, 'setContentView', 'V', View), registers: [3, 0] },
+      { op: 'const-string', register: 1, value: `file:///android_asset/${ENTRY_POINT}` },
+      { op: 'invoke-virtual', method: method(WebView, 'loadUrl', 'V', JavaString), registers: [0, 1] },
+      { op: 'return-void' },
+    ],
+  }, {
+    // v0 web view, v1 canGoBack result; v2 this
+    method: method(ACTIVITY_TYPE, 'onBackPressed', 'V'),
+    access: ACC_PUBLIC,
+    locals: 2,
+    code: [
+      { op: 'iget-object', register: 0, object: 2, field: webView },
+      { op: 'if-eqz', register: 0, label: 'super' },
+      { op: 'invoke-virtual', method: method(WebView, 'canGoBack', 'Z'), registers: [0] },
+      { op: 'move-result', register: 1 },
+      { op: 'if-eqz', register: 1, label: 'super' },
+      { op: 'invoke-virtual', method: method(WebView, 'goBack', 'V'), registers: [0] },
+      { op: 'return-void' },
+      { op: 'label', name: 'super' },
+      { op: 'invoke-super', method: method(Activity, 'onBackPressed', 'V'), registers: [2] },
+      { op: 'return-void' },
+    ],
+  }],
+};
+
+const outputDir = path.join(process.cwd(), 'server', 'runtime', 'webview-shell');
+const dex = new DexWriter([shell]).write();
+validateDex(dex);
+writeFileSync(path.join(outputDir, 'classes.dex'), dex);
+writeFileSync(path.join(outputDir, 'shell.json'), JSON.stringify({
+  version: SHELL_VERSION,
+  activity: ACTIVITY,
+  entryPoint: ENTRY_POINT,
+  sha256: createHash('sha256').update(dex).digest('hex'),
+}, null, 2) + '\n');
+console.log(`WebView shell ${SHELL_VERSION}: classes.dex ${dex.length} bytes`);
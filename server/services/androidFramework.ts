@@ -0,0 +1,131 @@
+import { ValueFormat, ResourceReference } from './resourceChunks';
+
+// Resource ids from the Android framework's public.xml that compiled XML and resources.arsc refer to
+
+export const ANDROID_NAMESPACE = 'http://schemas.android.com/apk/res/android';
+
+export interface AttributeDefinition {
+  id: number;
+  // First format that parses wins, e.g. minSdkVersion is an integer or a codename string
+  formats: ValueFormat[];
+  values?: Record<string, number>;
+}
+
+const SCREEN_ORIENTATIONS = {
+  unspecified: -1, landscape: 0, portrait: 1, user: 2, behind: 3, sensor: 4, nosensor: 5,
+  sensorLandscape: 6, sensorPortrait: 7, reverseLandscape: 8, reversePortrait: 9, fullSensor: 10,
+  userLandscape: 11, userPortrait: 12, fullUser: 13, locked: 14,
+};
+
+const CONFIG_CHANGES = {
+  mcc: 0x0001, mnc: 0x0002, locale: 0x0004, touchscreen: 0x0008, keyboard: 0x0010,
+  keyboardHidden: 0x0020, navigation: 0x0040, orientation: 0x0080, screenLayout: 0x0100,
+  uiMode: 0x0200, screenSize: 0x0400, smallestScreenSize: 0x0800, density: 0x1000,
+  layoutDirection: 0x2000, colorMode: 0x4000, fontScale: 0x40000000,
+};
+
+const SOFT_INPUT_MODES = {
+  stateUnspecified: 0x00, stateUnchanged: 0x01, stateHidden: 0x02, stateAlwaysHidden: 0x03,
+  stateVisible: 0x04, stateAlwaysVisible: 0x05, adjustUnspecified: 0x00, adjustResize: 0x10,
+  adjustPan: 0x20, adjustNothing: 0x30,
+};
+
+export const ANDROID_ATTRIBUTES: Record<string, AttributeDefinition> = {
+  theme: { id: 0x01010000, formats: ['reference'] },
+  label: { id: 0x01010001, formats: ['reference', 'string'] },
+  icon: { id: 0x01010002, formats: ['reference'] },
+  name: { id: 0x01010003, formats: ['string'] },
+  permission: { id: 0x01010006, formats: ['string'] },
+  hasCode: { id: 0x0101000c, formats: ['boolean'] },
+  enabled: { id: 0x0101000e, formats: ['boolean'] },
+  debuggable: { id: 0x0101000f, formats: ['boolean'] },
+  exported: { id: 0x01010010, formats: ['boolean'] },
+  process: { id: 0x01010011, formats: ['string'] },
+  taskAffinity: { id: 0x01010012, formats: ['string'] },
+  excludeFromRecents: { id: 0x01010017, formats: ['boolean'] },
+  authorities: { id: 0x01010018, formats: ['string'] },
+  grantUriPermissions: { id: 0x0101001b, formats: ['boolean'] },
+  priority: { id: 0x0101001c, formats: ['integer'] },
+  launchMode: {
+    id: 0x0101001d,
+    formats: ['enum'],
+    values: { standard: 0, singleTop: 1, singleTask: 2, singleInstance: 3 },
+  },
+  screenOrientation: { id: 0x0101001e, formats: ['enum'], values: SCREEN_ORIENTATIONS },
+  configChanges: { id: 0x0101001f, formats: ['flags'], values: CONFIG_CHANGES },
+  description: { id: 0x01010020, formats: ['reference', 'string'] },
+  value: { id: 0x01010024, formats: ['boolean', 'integer', 'color', 'dimension', 'reference', 'string'] },
+  resource: { id: 0x01010025, formats: ['reference'] },
+  mimeType: { id: 0x01010026, formats: ['string'] },
+  scheme: { id: 0x01010027, formats: ['string'] },
+  host: { id: 0x01010028, formats: ['string'] },
+  port: { id: 0x01010029, formats: ['string'] },
+  path: { id: 0x0101002a, formats: ['string'] },
+  pathPrefix: { id: 0x0101002b, formats: ['string'] },
+  pathPattern: { id: 0x0101002c, formats: ['string'] },
+  windowBackground: { id: 0x01010054, formats: ['reference', 'color'] },
+  windowNoTitle: { id: 0x01010056, formats: ['boolean'] },
+  drawable: { id: 0x01010199, formats: ['reference'] },
+  minSdkVersion: { id: 0x0101020c, formats: ['integer', 'string'] },
+  windowFullscreen: { id: 0x0101020d, formats: ['boolean'] },
+  versionCode: { id: 0x0101021b, formats: ['integer'] },
+  versionName: { id: 0x0101021c, formats: ['string'] },
+  windowSoftInputMode: { id: 0x0101022b, formats: ['flags'], values: SOFT_INPUT_MODES },
+  targetSdkVersion: { id: 0x01010270, formats: ['integer', 'string'] },
+  maxSdkVersion: { id: 0x01010271, formats: ['integer'] },
+  allowBackup: { id: 0x01010280, formats: ['boolean'] },
+  glEsVersion: { id: 0x01010281, formats: ['integer'] },
+  required: { id: 0x0101028e, formats: ['boolean'] },
+  installLocation: {
+    id: 0x010102b7,
+    formats: ['enum'],
+    values: { auto: 0, internalOnly: 1, preferExternal: 2 },
+  },
+  screenSize: {
+    id: 0x010102ca,
+    formats: ['enum'],
+    values: { small: 200, normal: 300, large: 400, xlarge: 500 },
+  },
+  screenDensity: {
+    id: 0x010102cb,
+    formats: ['enum', 'integer'],
+    values: { ldpi: 120, mdpi: 160, hdpi: 240, xhdpi: 320, xxhdpi: 480, xxxhdpi: 640 },
+  },
+  windowActionBar: { id: 0x010102cd, formats: ['boolean'] },
+  hardwareAccelerated: { id: 0x010102d3, formats: ['boolean'] },
+  largeHeap: { id: 0x0101035a, formats: ['boolean'] },
+  supportsRtl: { id: 0x010103af, formats: ['boolean'] },
+  colorPrimary: { id: 0x01010433, formats: ['color', 'reference'] },
+  colorPrimaryDark: { id: 0x01010434, formats: ['color', 'reference'] },
+  colorAccent: { id: 0x01010435, formats: ['color', 'reference'] },
+  statusBarColor: { id: 0x01010451, formats: ['color', 'reference'] },
+  navigationBarColor: { id: 0x01010452, formats: ['color', 'reference'] },
+  extractNativeLibs: { id: 0x010104ea, formats: ['boolean'] },
+  usesCleartextTraffic: { id: 0x010104ec, formats: ['boolean'] },
+  autoVerify: { id: 0x010104ee, formats: ['boolean'] },
+  networkSecurityConfig: { id: 0x01010527, formats: ['reference'] },
+  roundIcon: { id: 0x0101052c, formats: ['reference'] },
+};
+
+// Framework resources apps commonly point at, keyed by "type/name"
+export const FRAMEWORK_RESOURCES: Record<string, number> = {
+  'style/Theme': 0x01030005,
+  'style/Theme.NoTitleBar': 0x01030006,
+  'style/Theme.NoTitleBar.Fullscreen': 0x01030007,
+  'style/Theme.Black.NoTitleBar': 0x01030009,
+  'style/Theme.Black.NoTitleBar.Fullscreen': 0x0103000a,
+  'style/Theme.Light': 0x0103000c,
+  'style/Theme.Light.NoTitleBar': 0x0103000d,
+  'style/Theme.Light.NoTitleBar.Fullscreen': 0x0103000e,
+  'style/Theme.Translucent.NoTitleBar': 0x01030010,
+  'color/white': 0x0106000b,
+  'color/black': 0x0106000c,
+  'color/transparent': 0x0106000d,
+};
+
+export function resolveFrameworkResource(reference: ResourceReference): number | undefined {
+  if (reference.type === 'attr') {
+    return Object.hasOwn(ANDROID_ATTRIBUTES, reference.name) ? ANDROID_ATTRIBUTES[reference.name].id : undefined;
+  }
+  return FRAMEWORK_RESOURCES[`${reference.type}/${reference.name}`];
+}
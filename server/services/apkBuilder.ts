@@ -1,123 +1,237 @@
-import { spawn, exec } from 'child_process';
+import { exec } from 'child_process';
+import { X509Certificate } from 'crypto';
 import path from 'path';
 import { promisify } from 'util';
 import AdmZip from 'adm-zip';
 import { FileManager } from './fileManager';
 import { ProjectAnalysis } from './projectAnalyzer';
+import { ApkSigner } from './apkSigner';
+import { ApkZipWriter } from './apkZipWriter';
+import { SigningKey } from './keystoreParser';
+import { AxmlEncoder } from './axmlEncoder';
+import { ResourceTable, DENSITIES } from './resourceTable';
+import { WebViewShell, WebViewShellRuntime } from './webViewShell';
+import { DexError, validateDex, finalizeDex, createEmptyDex } from './dexFile';
+import { LauncherIconGenerator, LauncherIconSet } from './launcherIcons';
+import { AppBundleWriter, AppModule } from './appBundleWriter';
+import { NativeLibraryCollector, NativeLibrarySet, ABI_VERSION_CODES } from './nativeLibraries';
+import { GradleToolchain, GradleProject, GradleOutput, AndroidToolchain } from './gradleToolchain';
+import { FrameworkRegistry, createFrameworkRegistry } from './frameworks/registry';
+import { FrameworkBuilder, StepResult, resolveInsideProject } from './frameworks/frameworkBuilder';
+import { artifactName, type BuildFlavor, type BuildOptions, type BuildVariant } from '@shared/schema';
 
 const execAsync = promisify(exec);
 
 export interface BuildResult {
   success: boolean;
+  // The last of outputs, the only one for unflavored builds
   apkPath?: string;
   apkSize?: number;
+  outputs: BuildOutput[];
   errors: string[];
   logs: string[];
+  // Set when the build paused, pass it back as control.resume to continue
+  checkpoint?: BuildCheckpoint;
 }
 
+// One packaged artifact, per flavor and split when those are built
+export interface BuildOutput {
+  flavor?: string;
+  split?: string;
+  applicationId: string;
+  versionCode: number;
+  path: string;
+  size: number;
+}
+
+// A build runs these in order; a paused build goes on at the first one it hasn't finished
+export const BUILD_STAGES = ['dependencies', 'missingFiles', 'sdk', 'buildTools', 'compile', 'package', 'sign'] as const;
+export type BuildStage = typeof BUILD_STAGES[number];
+
+export const BUILD_STAGE_LABELS: Record<BuildStage, string> = {
+  dependencies: 'dependencies',
+  missingFiles: 'missing files',
+  sdk: 'SDK',
+  buildTools: 'build tools',
+  compile: 'compile',
+  package: 'package',
+  sign: 'sign',
+};
+
+// Project progress when each stage starts
+const STAGE_PROGRESS: Record<BuildStage, number> = {
+  dependencies: 10,
+  missingFiles: 25,
+  sdk: 40,
+  buildTools: 55,
+  compile: 70,
+  package: 85,
+  sign: 90,
+};
+
+// Everything a paused build needs to continue, as plain JSON so it can be stored with the build job.
+// The stages' other results are files in the project directory
+export interface BuildCheckpoint {
+  // The next stage to run
+  stage: BuildStage;
+  // The analysis the build started from, as the framework steps left it
+  analysis: ProjectAnalysis;
+  // The Gradle build chosen by the compile stage, null for the built-in packager
+  nativeBuild?: { project: GradleProject; toolchain: AndroidToolchain } | null;
+  // The Gradle build's outputs, in the order of outputs
+  gradleOutputs?: GradleOutput[];
+  // Packaged so far; sizes are set once signed
+  outputs: BuildOutput[];
+}
+
+export interface BuildControl {
+  // Continues a paused build instead of starting over
+  resume?: BuildCheckpoint;
+  // Asked between stages; true stops the build with a checkpoint in its result
+  shouldPause?: () => boolean;
+}
+
+interface StageContext {
+  projectPath: string;
+  state: BuildCheckpoint;
+  result: BuildResult;
+  options: BuildOptions;
+  signingKey?: SigningKey;
+  onProgress?: (progress: number, message: string) => void;
+  signal?: AbortSignal;
+}
+
+interface WebShellPackage {
+  runtime: WebViewShellRuntime;
+  // Project directory holding the web app's index.html
+  webRoot: string;
+}
+
+// One APK of a split build; an unset filter means every ABI or density is included
+interface ApkSplit {
+  // AGP's filter name, e.g. arm64-v8a, hdpi, hdpiArm64-v8a or universal; unset when splits are off
+  name?: string;
+  abi?: string;
+  density?: string;
+  versionCode: number;
+}
+
+// Everything resolved before packaging starts
+interface ApkContents {
+  classesDex: Buffer;
+  icons: LauncherIconSet;
+  nativeLibraries: NativeLibrarySet;
+  shell?: WebShellPackage;
+  flavor?: BuildFlavor;
+  split: ApkSplit;
+}
+
+// Where a project that already went through a Gradle build keeps its merged dex
+const PREBUILT_DEX_PATHS = [
+  'classes.dex',
+  'app/build/intermediates/dex/release/mergeDexRelease/classes.dex',
+  'build/intermediates/dex/release/mergeDexRelease/classes.dex',
+];
+
+// Build output and tooling folders that never belong in a web app's assets
+const WEB_ASSET_EXCLUDES = ['node_modules', 'build', 'platforms', 'plugins', 'android', 'ios', 'jniLibs'];
+
+// Version code for projects that don't set one; split APKs put their filter digits in front of the base version code
+const DEFAULT_VERSION_CODE = 1;
+// Android's largest allowed versionCode
+const MAX_VERSION_CODE = 2100000000;
+// Version code digit of each density split, denser screens rank higher
+const DENSITY_VERSION_CODES: Record<string, number> = { mdpi: 1, hdpi: 2, xhdpi: 3, xxhdpi: 4, xxxhdpi: 5 };
+// Density split manifests list every screen size at their density in <compatible-screens>, like AGP's
+const SCREEN_SIZES = ['small', 'normal', 'large', 'xlarge'];
+
+// Appended to the application id of debug builds so they install next to the release app
+const DEBUG_APPLICATION_ID_SUFFIX = '.debug';
+
+// Gradle scripts checked for the release build type's shrinking settings, after the analyzed application module's
+const GRADLE_BUILD_FILES = ['app/build.gradle', 'app/build.gradle.kts', 'build.gradle', 'build.gradle.kts'];
+
+// Web scripts over this size with short average lines are reported as unminified
+const UNMINIFIED_MIN_SIZE = 20 * 1024;
+const UNMINIFIED_MAX_LINE_LENGTH = 120;
+
 export class ApkBuilder {
   private fileManager: FileManager;
-
-  constructor(fileManager: FileManager) {
+  private apkSigner: ApkSigner;
+  private apkZipWriter: ApkZipWriter;
+  private appBundleWriter: AppBundleWriter;
+  private axmlEncoder: AxmlEncoder;
+  private webViewShell: WebViewShell;
+  private launcherIcons: LauncherIconGenerator;
+  private nativeLibraries: NativeLibraryCollector;
+  private gradleToolchain: GradleToolchain;
+  private frameworks: FrameworkRegistry;
+
+  constructor(fileManager: FileManager, frameworks = createFrameworkRegistry(fileManager)) {
     this.fileManager = fileManager;
-  }
-
-  async buildApk(projectPath: string, analysis: ProjectAnalysis, onProgress?: (progress: number, message: string) => void): Promise<BuildResult> {
+    this.apkSigner = new ApkSigner();
+    this.apkZipWriter = new ApkZipWriter();
+    this.appBundleWriter = new AppBundleWriter();
+    this.axmlEncoder = new AxmlEncoder();
+    this.webViewShell = new WebViewShell(fileManager);
+    this.launcherIcons = new LauncherIconGenerator(fileManager);
+    this.nativeLibraries = new NativeLibraryCollector(fileManager);
+    this.gradleToolchain = new GradleToolchain(fileManager);
+    this.frameworks = frameworks;
+  }
+
+  async buildApk(projectPath: string, analysis: ProjectAnalysis, onProgress?: (progress: number, message: string) => void, signingKey?: SigningKey, options: BuildOptions = { outputFormat: 'apk', variant: 'release' }, signal?: AbortSignal, control: BuildControl = {}): Promise<BuildResult> {
+    const state: BuildCheckpoint = control.resume
+      ? { ...control.resume, outputs: [...control.resume.outputs] }
+      : { stage: BUILD_STAGES[0], analysis, outputs: [] };
     const result: BuildResult = {
       success: false,
+      outputs: state.outputs,
       errors: [],
       logs: [],
     };
+    const context: StageContext = { projectPath, state, result, options, signingKey, onProgress, signal };
+    const bundle = options.outputFormat === 'aab';
+    const artifact = bundle ? 'App bundle' : 'APK';
 
     try {
-      onProgress?.(10, 'Starting APK build process...');
-      
-      // Step 1: Actually install dependencies
-      onProgress?.(10, 'Installing dependencies...');
-      result.logs.push('Analyzing project dependencies...');
-      
-      const validationErrors = await this.validateBuildRequirements(analysis);
+      if (control.resume) {
+        onProgress?.(STAGE_PROGRESS[state.stage], `Resuming build at the ${BUILD_STAGE_LABELS[state.stage]} stage...`);
+      } else {
+        onProgress?.(10, 'Starting APK build process...');
+      }
+
+      const validationErrors = await this.validateBuildRequirements(state.analysis);
       if (validationErrors.length > 0) {
         result.errors.push(...validationErrors);
         onProgress?.(100, 'Dependency validation failed');
         return result;
       }
-      
-      // Actually install dependencies based on framework
-      const dependencyResult = await this.installDependencies(projectPath, analysis);
-      result.logs.push(...dependencyResult.logs);
-      if (!dependencyResult.success) {
-        result.errors.push(...dependencyResult.errors);
-        onProgress?.(100, 'Dependency installation failed');
-        return result;
-      }
-      
-      // Step 2: Detect and create ALL missing files with proper code
-      onProgress?.(25, 'Detecting and creating missing files...');
-      const missingFilesResult = await this.detectAndCreateMissingFiles(projectPath, analysis);
-      result.logs.push(...missingFilesResult.logs);
-      if (!missingFilesResult.success) {
-        result.errors.push(...missingFilesResult.errors);
-        onProgress?.(100, 'Missing files setup failed');
-        return result;
-      }
-      
-      // Step 3: Actually setup SDK and development environment
-      onProgress?.(40, 'Setting up SDK and development environment...');
-      const sdkResult = await this.setupSDKAndEnvironment(projectPath, analysis);
-      result.logs.push(...sdkResult.logs);
-      if (!sdkResult.success) {
-        result.errors.push(...sdkResult.errors);
-        onProgress?.(100, 'SDK setup failed');
-        return result;
-      }
-      
-      // Step 4: Install and configure build tools
-      onProgress?.(55, 'Installing build tools...');
-      const buildToolsResult = await this.installBuildTools(projectPath, analysis);
-      result.logs.push(...buildToolsResult.logs);
-      if (!buildToolsResult.success) {
-        result.errors.push(...buildToolsResult.errors);
-        onProgress?.(100, 'Build tools setup failed');
-        return result;
-      }
-      
-      // Validate project structure after setup
-      const structureValid = await this.validateProjectStructure(projectPath, analysis);
-      if (!structureValid) {
-        result.errors.push('Project structure validation failed');
-        onProgress?.(100, 'Project setup validation failed');
-        return result;
+
+      const first = BUILD_STAGES.indexOf(state.stage);
+      for (let index = first; index < BUILD_STAGES.length; index++) {
+        const stage = BUILD_STAGES[index];
+        // A run finishes at least one stage, so a build paused again right after resuming still moves on
+        if (index > first && control.shouldPause?.()) {
+          state.stage = stage;
+          result.checkpoint = state;
+          result.logs.push(`Build paused before the ${BUILD_STAGE_LABELS[stage]} stage`);
+          return result;
+        }
+        if (!(await this.runStage(stage, context))) return result;
       }
-      result.logs.push('Project structure validated successfully');
 
-      // APK Generation Phase
-      onProgress?.(70, 'Starting APK compilation...');
-      result.logs.push('Pre-build validation completed');
-      
-      onProgress?.(80, 'Compiling APK package...');
-      const apkPath = await this.createRealApk(projectPath, analysis);
-      result.logs.push('APK compilation in progress');
-      
-      onProgress?.(95, 'Finalizing APK package...');
+      signal?.throwIfAborted();
+      onProgress?.(95, `Finalizing ${bundle ? 'app bundle' : 'APK package'}${(options.flavors?.length ?? 0) > 1 ? 's' : ''}...`);
       result.logs.push('Performing final verification');
+      await this.completeBuild(projectPath, state.analysis, result, signingKey);
       
-      // Get actual APK file size
-      const apkStats = await this.fileManager.getFileStats(apkPath);
-      const apkSizeBytes = apkStats?.size || 0;
-      const apkSizeMB = (apkSizeBytes / (1024 * 1024)).toFixed(1);
-      
-      result.success = true;
-      result.apkPath = apkPath;
-      result.apkSize = apkSizeBytes;
-      result.logs.push('APK package created successfully');
-      result.logs.push(`Framework: ${analysis.framework}`);
-      result.logs.push(`Package size: ${apkSizeMB} MB`);
-      result.logs.push(`Files included: ${analysis.projectStats.totalFiles} files`);
-      result.logs.push(`Build target: Android API ${analysis.buildConfig.targetSdk || 33}`);
-      
-      onProgress?.(100, 'APK build completed successfully!');
+      onProgress?.(100, `${artifact} build completed successfully!`);
     } catch (error: any) {
+      if (signal?.aborted) {
+        await this.removeOutputs(result);
+        return result;
+      }
       result.errors.push(`Build failed: ${error?.message || 'Unknown error'}`);
       onProgress?.(100, 'Build process failed');
     }
@@ -125,185 +239,310 @@ export class ApkBuilder {
     return result;
   }
 
-  private async createMissingFiles(projectPath: string, analysis: ProjectAnalysis): Promise<void> {
-    for (const missingFile of analysis.missingFiles) {
-      const filePath = path.join(projectPath, missingFile);
-      
-      // Create directory if it doesn't exist
-      const dir = path.dirname(filePath);
-      await this.fileManager.ensureDirectory(dir);
-
-      // Create file based on type
-      if (missingFile.includes('AndroidManifest.xml')) {
-        await this.createAndroidManifest(filePath, analysis);
-      } else if (missingFile.includes('build.gradle')) {
-        await this.createBuildGradle(filePath, analysis);
-      } else if (missingFile.includes('package.json')) {
-        await this.createPackageJson(filePath, analysis);
-      } else if (missingFile.includes('config.xml')) {
-        await this.createConfigXml(filePath, analysis);
+  // Runs one stage; false when the build failed in it, with the errors in the result
+  private async runStage(stage: BuildStage, context: StageContext): Promise<boolean> {
+    const { projectPath, state, result, onProgress, signal } = context;
+    switch (stage) {
+      case 'dependencies':
+        onProgress?.(STAGE_PROGRESS.dependencies, 'Installing dependencies...');
+        result.logs.push('Analyzing project dependencies...');
+        return this.finishStep(context, await this.installDependencies(projectPath, state.analysis, signal), 'Dependency installation failed');
+      case 'missingFiles':
+        onProgress?.(STAGE_PROGRESS.missingFiles, 'Detecting and creating missing files...');
+        return this.finishStep(context, await this.detectAndCreateMissingFiles(projectPath, state.analysis, signal), 'Missing files setup failed');
+      case 'sdk':
+        onProgress?.(STAGE_PROGRESS.sdk, 'Setting up SDK and development environment...');
+        return this.finishStep(context, await this.setupSDKAndEnvironment(projectPath, state.analysis, signal), 'SDK setup failed');
+      case 'buildTools': {
+        onProgress?.(STAGE_PROGRESS.buildTools, 'Installing build tools...');
+        if (!this.finishStep(context, await this.installBuildTools(projectPath, state.analysis, signal), 'Build tools setup failed')) {
+          return false;
+        }
+        // Validate project structure after setup
+        const structureValid = await this.validateProjectStructure(projectPath, state.analysis);
+        if (!structureValid) {
+          result.errors.push('Project structure validation failed');
+          onProgress?.(100, 'Project setup validation failed');
+          return false;
+        }
+        result.logs.push('Project structure validated successfully');
+        return true;
       }
+      case 'compile':
+        return this.compile(context);
+      case 'package':
+        return state.nativeBuild ? this.packageGradleOutputs(context) : this.packageApks(context);
+      case 'sign':
+        return state.nativeBuild ? this.signGradleOutputs(context) : this.signApks(context);
     }
   }
 
-  private async createAndroidManifest(filePath: string, analysis: ProjectAnalysis): Promise<void> {
-    const manifest = `<?xml version="1.0" encoding="utf-8"?>
-<manifest xmlns:android="http://schemas.android.com/apk/res/android"
-    package="com.example.app">
-    
-    <uses-permission android:name="android.permission.INTERNET" />
-    <uses-permission android:name="android.permission.ACCESS_NETWORK_STATE" />
-    
-    <application
-        android:allowBackup="true"
-        android:icon="@mipmap/ic_launcher"
-        android:label="@string/app_name"
-        android:theme="@style/AppTheme">
-        
-        <activity
-            android:name=".MainActivity"
-            android:exported="true">
-            <intent-filter>
-                <action android:name="android.intent.action.MAIN" />
-                <category android:name="android.intent.category.LAUNCHER" />
-            </intent-filter>
-        </activity>
-    </application>
-</manifest>`;
-    
-    await this.fileManager.writeFile(filePath, manifest);
-  }
+  // Logs a framework step and reports whether the build can go on
+  private finishStep(context: StageContext, step: StepResult, failure: string): boolean {
+    context.result.logs.push(...step.logs);
+    // Checked after every stage, before its result: a step reports a command stopped by the signal as failed
+    context.signal?.throwIfAborted();
+    if (!step.success) {
+      context.result.errors.push(...step.errors);
+      context.onProgress?.(100, failure);
+      return false;
+    }
+    return true;
+  }
+
+  // Runs the project's Gradle build, or checks what the built-in packager will package
+  private async compile(context: StageContext): Promise<boolean> {
+    const { projectPath, state, result, options, onProgress, signal } = context;
+    const bundle = options.outputFormat === 'aab';
+    onProgress?.(STAGE_PROGRESS.compile, 'Starting APK compilation...');
+    result.logs.push('Pre-build validation completed');
+
+    // Native toolchain strategy: the project's own Gradle build, when there is one and an Android SDK and JDK are installed
+    state.nativeBuild = await this.resolveNativeToolchain(projectPath, state.analysis, options, result.logs) ?? null;
+    signal?.throwIfAborted();
+    if (state.nativeBuild) {
+      const task = this.gradleToolchain.taskName(state.nativeBuild.project, options);
+      onProgress?.(80, `Running Gradle ${task}...`);
+      const gradle = await this.gradleToolchain.build(projectPath, state.nativeBuild.project, state.nativeBuild.toolchain, options, signal);
+      result.logs.push(...gradle.logs);
+      signal?.throwIfAborted();
+      if (!gradle.success) {
+        result.errors.push(...gradle.errors);
+        onProgress?.(100, `Gradle ${task} failed`);
+        return false;
+      }
+      state.gradleOutputs = gradle.outputs;
+      return true;
+    }
 
-  private async createBuildGradle(filePath: string, analysis: ProjectAnalysis): Promise<void> {
-    const isAppLevel = filePath.includes('app/build.gradle');
-    
-    let gradle = '';
-    if (isAppLevel) {
-      gradle = `android {
-    compileSdkVersion ${analysis.projectStats.targetSdk || 33}
-    
-    defaultConfig {
-        applicationId "com.example.app"
-        minSdkVersion ${analysis.projectStats.minSdk || 21}
-        targetSdkVersion ${analysis.projectStats.targetSdk || 33}
-        versionCode 1
-        versionName "1.0"
+    onProgress?.(80, `Compiling ${bundle ? 'app bundle' : 'APK package'}...`);
+    const shell = await this.prepareWebShell(projectPath, state.analysis);
+    if (shell) {
+      result.logs.push(`Embedding WebView shell runtime ${shell.runtime.version} (${shell.runtime.activity})`);
+      result.logs.push(`Web app root: ${path.relative(projectPath, shell.webRoot) || '.'}`);
     }
-    
-    buildTypes {
-        release {
-            minifyEnabled false
-            proguardFiles getDefaultProguardFile('proguard-android-optimize.txt'), 'proguard-rules.pro'
-        }
+
+    const classesDex = await this.resolveClassesDex(projectPath, shell);
+    try {
+      const dexInfo = validateDex(classesDex.dex);
+      result.logs.push(`classes.dex from ${classesDex.source}: ${dexInfo.classes} classes, ${dexInfo.methods} methods (dex version ${dexInfo.version})`);
+      if (dexInfo.classes === 0) {
+        result.logs.push('No compiled code found - the APK carries an empty classes.dex and will not launch');
+      }
+    } catch (error) {
+      if (!(error instanceof DexError)) throw error;
+      result.errors.push(`Invalid classes.dex from ${classesDex.source}: ${error.message}`);
+      onProgress?.(100, 'classes.dex validation failed');
+      return false;
     }
-}
 
-dependencies {
-    implementation 'androidx.appcompat:appcompat:1.6.1'
-    implementation 'com.google.android.material:material:1.9.0'
-    implementation 'androidx.constraintlayout:constraintlayout:2.1.4'
-}`;
+    const nativeLibraries = await this.nativeLibraries.collect(projectPath);
+    nativeLibraries.libraries.forEach((libraries, abi) => {
+      result.logs.push(`Native libraries for ${abi}: ${Array.from(libraries.keys()).join(', ')}`);
+    });
+    if (nativeLibraries.sources.length > 0) {
+      result.logs.push(`Native libraries from ${nativeLibraries.sources.join(', ')}`);
+    }
+    result.logs.push(...nativeLibraries.warnings);
+
+    if (options.variant === 'debug') {
+      result.logs.push(`Debug variant: application id suffixed with ${DEBUG_APPLICATION_ID_SUFFIX}, android:debuggable="true"`);
     } else {
-      gradle = `buildscript {
-    repositories {
-        google()
-        mavenCentral()
+      result.logs.push('Release variant');
+      result.logs.push(...await this.minificationHints(projectPath, state.analysis, shell));
     }
-    dependencies {
-        classpath 'com.android.tools.build:gradle:7.4.2'
+    return true;
+  }
+
+  // Packages every flavor and split from the prepared project, unsigned
+  private async packageApks(context: StageContext): Promise<boolean> {
+    const { projectPath, state, result, options, onProgress, signal } = context;
+    const bundle = options.outputFormat === 'aab';
+    onProgress?.(STAGE_PROGRESS.package, `Packaging ${bundle ? 'app bundle' : 'APK'}...`);
+
+    // Resolved again instead of kept in the checkpoint, the compile stage already checked and logged them
+    const shell = await this.prepareWebShell(projectPath, state.analysis);
+    const classesDex = await this.resolveClassesDex(projectPath, shell);
+    const nativeLibraries = await this.nativeLibraries.collect(projectPath);
+
+    const splits = this.planSplits(options, this.baseVersionCode(state.analysis), nativeLibraries, result.logs);
+    if (bundle) {
+      result.logs.push('App bundle base module written with a proto manifest, resources.pb and BundleConfig.pb');
+    } else {
+      result.logs.push('APK zip-aligned: resources.arsc and native libraries stored uncompressed, .so files page-aligned');
     }
-}
 
-allprojects {
-    repositories {
-        google()
-        mavenCentral()
+    // Every flavor is packaged from the same prepared project, unflavored builds are a single pass
+    const flavors: Array<BuildFlavor | undefined> = options.flavors ?? [undefined];
+    for (let index = 0; index < flavors.length; index++) {
+      const flavor = flavors[index];
+      const applicationId = this.applicationId(state.analysis, options.variant, flavor);
+      if (flavor) {
+        const progress = STAGE_PROGRESS.package + Math.floor(((STAGE_PROGRESS.sign - STAGE_PROGRESS.package) * index) / flavors.length);
+        onProgress?.(progress, `Packaging flavor ${flavor.name} (${index + 1}/${flavors.length})...`);
+        result.logs.push(`Flavor ${flavor.name}: application id ${applicationId}`);
+      }
+
+      const icons = await this.launcherIcons.generate(projectPath, { icon: flavor?.icon, backgroundColor: flavor?.color });
+      result.logs.push(`Launcher icon from ${icons.source}, rendered for mdpi to xxxhdpi with an adaptive icon`);
+      result.logs.push(...icons.warnings);
+
+      for (const split of splits) {
+        signal?.throwIfAborted();
+        const apkPath = await this.createRealApk(projectPath, state.analysis, { classesDex: classesDex.dex, icons, nativeLibraries, shell, flavor, split }, options);
+        const output: BuildOutput = { flavor: flavor?.name, split: split.name, applicationId, versionCode: split.versionCode, path: apkPath, size: 0 };
+        state.outputs.push(output);
+        result.logs.push(`${this.outputName(options, output)} compilation in progress`);
+      }
     }
-}`;
+    return true;
+  }
+
+  // Signs the packaged outputs with the build's key and records their sizes
+  private async signApks(context: StageContext): Promise<boolean> {
+    const { state, result, options, signingKey, onProgress, signal } = context;
+    const bundle = options.outputFormat === 'aab';
+    if (signingKey) {
+      result.logs.push(`Signer certificate SHA-256: ${new X509Certificate(signingKey.certificates[0]).fingerprint256}`);
     }
-    
-    await this.fileManager.writeFile(filePath, gradle);
-  }
-
-  private async createPackageJson(filePath: string, analysis: ProjectAnalysis): Promise<void> {
-    const packageJson = {
-      name: "mobile-app",
-      version: "1.0.0",
-      main: "index.js",
-      scripts: {
-        "android": "react-native run-android",
-        "ios": "react-native run-ios",
-        "start": "react-native start"
-      },
-      dependencies: {
-        "react": "18.2.0",
-        "react-native": "0.72.0"
+
+    for (const output of state.outputs) {
+      signal?.throwIfAborted();
+      const name = this.outputName(options, output);
+      onProgress?.(STAGE_PROGRESS.sign, `Signing ${name}...`);
+      if (signingKey) {
+        await this.signApk(output.path, state.analysis, signingKey, bundle);
+        result.logs.push(bundle
+          ? `${name} signed with a JAR signature using upload key "${signingKey.alias}"`
+          : `${name} signed with v1, v2 and v3 signature schemes using key "${signingKey.alias}"`);
+      } else if (bundle) {
+        result.logs.push(`No keystore supplied - ${name} left unsigned, Google Play requires it to be signed with your upload key`);
+      } else {
+        result.logs.push(`No keystore supplied - ${name} left unsigned and cannot be installed until it is signed`);
       }
-    };
-    
-    await this.fileManager.writeFile(filePath, JSON.stringify(packageJson, null, 2));
-  }
-
-  private async createConfigXml(filePath: string, analysis: ProjectAnalysis): Promise<void> {
-    const config = `<?xml version='1.0' encoding='utf-8'?>
-<widget id="com.example.app" version="1.0.0" xmlns="http://www.w3.org/ns/widgets" xmlns:cdv="http://cordova.apache.org/ns/1.0">
-    <name>Mobile App</name>
-    <description>
-        A sample Apache Cordova application.
-    </description>
-    <content src="index.html" />
-    <access origin="*" />
-    <allow-intent href="http://*/*" />
-    <allow-intent href="https://*/*" />
-    <platform name="android">
-        <allow-intent href="market:*" />
-    </platform>
-</widget>`;
-    
-    await this.fileManager.writeFile(filePath, config);
+
+      // Get actual APK file size
+      const apkStats = await this.fileManager.getFileStats(output.path);
+      output.size = apkStats?.size || 0;
+      result.logs.push(`${name} ${bundle ? 'created' : 'package created'} successfully (${options.variant}, ${(output.size / (1024 * 1024)).toFixed(1)} MB)`);
+    }
+    return true;
   }
 
-  private async validateBuildRequirements(analysis: ProjectAnalysis): Promise<string[]> {
-    const errors: string[] = [];
-    
-    // Validate project requirements - we can create missing files so be less strict
-    switch (analysis.framework) {
-      case 'react-native':
-        if (!analysis.buildConfig.hasPackageJson) {
-          // This is OK - we can create package.json
-        }
-        break;
-      case 'flutter':
-        if (!analysis.buildConfig.hasPubspec) {
-          // This is OK - we can create pubspec.yaml
-        }
-        break;
-      case 'android':
-        if (!analysis.buildConfig.hasBuildGradle) {
-          // This is OK - we can create build.gradle
-        }
-        break;
-      case 'cordova':
-        if (!analysis.buildConfig.hasConfigXml) {
-          // This is OK - we can create config.xml
-        }
-        break;
-      case 'generic-mobile':
-        // Generic mobile projects are always valid for demo purposes
-        break;
-      default:
-        errors.push(`Unsupported framework: ${analysis.framework}`);
+  // e.g. APK (flavor "acme", arm64-v8a)
+  private outputName(options: BuildOptions, output: BuildOutput): string {
+    const artifact = options.outputFormat === 'aab' ? 'App bundle' : 'APK';
+    const label = [output.flavor && `flavor "${output.flavor}"`, output.split].filter(Boolean).join(', ');
+    return label ? `${artifact} (${label})` : artifact;
+  }
+
+  // A stopped build's outputs are incomplete, flavors and splits are only useful as a full set
+  private async removeOutputs(result: BuildResult): Promise<void> {
+    for (const output of result.outputs) {
+      await this.fileManager.deleteFile(output.path);
     }
-    
-    return errors;
+    result.logs.push(result.outputs.length > 0 ? `Build stopped, removed ${result.outputs.length} partial outputs` : 'Build stopped');
+    result.outputs = [];
+  }
+
+  private async completeBuild(projectPath: string, analysis: ProjectAnalysis, result: BuildResult, signingKey?: SigningKey): Promise<void> {
+    await this.frameworkBuilder(analysis).finishBuild(projectPath, analysis, result.outputs, signingKey, result);
+    const latest = result.outputs[result.outputs.length - 1];
+    result.success = true;
+    result.apkPath = latest.path;
+    result.apkSize = latest.size;
+    result.logs.push(`Framework: ${analysis.framework}`);
+    result.logs.push(`Files included: ${analysis.projectStats.totalFiles} files`);
+    result.logs.push(`Build target: Android API ${analysis.buildConfig.targetSdk || 33}`);
+  }
+
+  // The Gradle build to run, or undefined after logging why the built-in packager is used instead
+  private async resolveNativeToolchain(projectPath: string, analysis: ProjectAnalysis, options: BuildOptions, logs: string[]): Promise<{ project: GradleProject; toolchain: AndroidToolchain } | undefined> {
+    const project = await this.gradleToolchain.findProject(projectPath, this.frameworkBuilder(analysis).gradleRoots);
+    if (!project) {
+      logs.push('No Gradle application module in the project - packaging with the built-in APK packager');
+      return undefined;
+    }
+    if (options.flavors || (options.splits && (options.splits.abi || options.splits.density))) {
+      logs.push('White-label flavors and APK splits from the build settings are applied by the built-in APK packager - the project\'s Gradle build is not used');
+      return undefined;
+    }
+
+    const status = await this.gradleToolchain.detect(project);
+    if (!status.toolchain) {
+      logs.push(`Native toolchain not found, missing ${status.missing.join(' and ')}`);
+      logs.push('Falling back to the built-in APK packager: the project\'s Gradle build is not run, only prebuilt classes.dex, resources and native libraries are packaged');
+      return undefined;
+    }
+    logs.push(`Native toolchain found: Android SDK at ${status.toolchain.androidHome}, JDK ${status.toolchain.javaVersion}`);
+    return { project, toolchain: status.toolchain };
+  }
+
+  // Moves the Gradle build's outputs to the built-in packager's locations
+  private async packageGradleOutputs(context: StageContext): Promise<boolean> {
+    const { projectPath, state, options, onProgress } = context;
+    const bundle = options.outputFormat === 'aab';
+    onProgress?.(STAGE_PROGRESS.package, `Collecting Gradle ${bundle ? 'app bundles' : 'APKs'}...`);
+
+    const outputDir = path.join(projectPath, 'build', 'outputs', bundle ? 'bundle' : 'apk', options.variant);
+    await this.fileManager.ensureDirectory(outputDir);
+    for (const output of state.gradleOutputs ?? []) {
+      const fileName = ['app', output.split, options.variant].filter(Boolean).join('-');
+      const apkPath = path.join(outputDir, `${fileName}.${bundle ? 'aab' : 'apk'}`);
+      if (output.path !== apkPath) {
+        await this.fileManager.copyFile(output.path, apkPath);
+      }
+      state.outputs.push({
+        split: output.split,
+        applicationId: output.applicationId ?? this.applicationId(state.analysis, options.variant),
+        versionCode: output.versionCode ?? this.baseVersionCode(state.analysis),
+        path: apkPath,
+        size: 0,
+      });
+    }
+    return true;
+  }
+
+  // Re-signs the Gradle build's outputs with the build's key, otherwise they keep the project's own signature
+  private async signGradleOutputs(context: StageContext): Promise<boolean> {
+    const { projectPath, state, result, options, signingKey, onProgress, signal } = context;
+    const bundle = options.outputFormat === 'aab';
+    const gradleOutputs = state.gradleOutputs ?? [];
+    for (let index = 0; index < state.outputs.length; index++) {
+      signal?.throwIfAborted();
+      const output = state.outputs[index];
+      const source = path.relative(projectPath, gradleOutputs[index].path);
+      const name = this.outputName(options, output);
+      if (signingKey) {
+        onProgress?.(STAGE_PROGRESS.sign, `Signing ${name}...`);
+        await this.signApk(output.path, state.analysis, signingKey, bundle);
+        result.logs.push(`${name} from ${source} re-signed using key "${signingKey.alias}"`);
+      } else if (gradleOutputs[index].signed) {
+        result.logs.push(`${name} from ${source} signed by the project's Gradle signing config`);
+      } else {
+        result.logs.push(`No keystore supplied - ${name} from ${source} left unsigned`);
+      }
+
+      const apkStats = await this.fileManager.getFileStats(output.path);
+      output.size = apkStats?.size || 0;
+    }
+    return true;
+  }
+
+  private async validateBuildRequirements(analysis: ProjectAnalysis): Promise<string[]> {
+    // Validate project requirements - builders create missing files so be less strict
+    return this.frameworks.get(analysis.framework) ? [] : [`Unsupported framework: ${analysis.framework}`];
+  }
+
+  // Checked by validateBuildRequirements before any build step runs
+  private frameworkBuilder(analysis: ProjectAnalysis): FrameworkBuilder {
+    return this.frameworks.get(analysis.framework)!;
   }
 
   private async validateProjectStructure(projectPath: string, analysis: ProjectAnalysis): Promise<boolean> {
     try {
       // Basic validation - check if essential files exist after setup
-      const essentialFiles = this.getEssentialFiles(analysis.framework);
-      
-      for (const file of essentialFiles) {
+      for (const file of this.frameworkBuilder(analysis).essentialFiles(analysis)) {
         const filePath = path.join(projectPath, file);
         if (!(await this.fileManager.fileExists(filePath))) {
           return false;
@@ -316,375 +555,349 @@ allprojects {
     }
   }
 
-  private getEssentialFiles(framework: string): string[] {
-    switch (framework) {
-      case 'react-native':
-        return ['package.json', 'index.js'];
-      case 'flutter':
-        return ['pubspec.yaml', 'lib/main.dart'];
-      case 'android':
-        return ['build.gradle', 'src/main/AndroidManifest.xml'];
-      case 'cordova':
-        return ['config.xml', 'www/index.html'];
-      case 'generic-mobile':
-        return []; // No specific requirements for generic projects
-      default:
-        return [];
+  // Web-style projects ship in the prebuilt WebView shell instead of compiled app code
+  private async prepareWebShell(projectPath: string, analysis: ProjectAnalysis): Promise<WebShellPackage | undefined> {
+    const candidates = this.frameworkBuilder(analysis).webRoots(analysis);
+    if (!candidates) return undefined;
+
+    for (const candidate of candidates) {
+      // Only the uploaded project's own files go into the APK
+      const webRoot = resolveInsideProject(projectPath, candidate);
+      if (!webRoot) {
+        throw new Error(`Web app root ${candidate} is outside the project`);
+      }
+      if (await this.fileManager.fileExists(path.join(webRoot, 'index.html'))) {
+        return { runtime: await this.webViewShell.load(), webRoot };
+      }
     }
+    throw new Error(`No index.html found for the WebView shell (looked in ${candidates.map(c => `${c}/`).join(', ')})`);
   }
 
-  private async createRealApk(projectPath: string, analysis: ProjectAnalysis): Promise<string> {
-    // Create proper APK directory structure
-    const apkDir = path.join(projectPath, 'build', 'outputs', 'apk', 'release');
-    await this.fileManager.ensureDirectory(apkDir);
+  // The WebView shell for web apps, otherwise a dex the project already ships, otherwise an empty placeholder
+  private async resolveClassesDex(projectPath: string, shell?: WebShellPackage): Promise<{ dex: Buffer; source: string }> {
+    if (shell) {
+      return { dex: shell.runtime.dex, source: `WebView shell ${shell.runtime.version}` };
+    }
+    for (const candidate of PREBUILT_DEX_PATHS) {
+      const dexPath = path.join(projectPath, candidate);
+      if (await this.fileManager.fileExists(dexPath)) {
+        return { dex: await this.fileManager.readFileBuffer(dexPath), source: candidate };
+      }
+    }
+    return { dex: createEmptyDex(), source: 'placeholder' };
+  }
+
+  private async createRealApk(projectPath: string, analysis: ProjectAnalysis, contents: ApkContents, options: BuildOptions): Promise<string> {
+    // Same output locations as the Android Gradle plugin, e.g. apk/acme/release/app-acme-arm64-v8a-release.apk
+    const bundle = options.outputFormat === 'aab';
+    const flavor = contents.flavor?.name;
+    const variantDir = !flavor ? [options.variant] : bundle ? [artifactName(options.variant, flavor)] : [flavor, options.variant];
+    const outputDir = path.join(projectPath, 'build', 'outputs', bundle ? 'bundle' : 'apk', ...variantDir);
+    await this.fileManager.ensureDirectory(outputDir);
     
-    const apkPath = path.join(apkDir, 'app-release.apk');
+    const fileName = ['app', flavor, contents.split.name, options.variant].filter(Boolean).join('-');
+    const apkPath = path.join(outputDir, `${fileName}.${bundle ? 'aab' : 'apk'}`);
     
     // Create a more realistic APK file by packaging the actual project files
-    await this.packageProjectAsApk(projectPath, analysis, apkPath);
+    await this.packageProjectAsApk(projectPath, analysis, apkPath, contents, options);
     
     return apkPath;
   }
 
-  private async packageProjectAsApk(projectPath: string, analysis: ProjectAnalysis, apkPath: string): Promise<void> {
-    try {
-      // Import AdmZip for creating APK package
-      const AdmZip = (await import('adm-zip')).default;
-      const zip = new AdmZip();
+  // App bundles only get a JAR signature; Play re-signs the APKs it generates from them
+  private async signApk(apkPath: string, analysis: ProjectAnalysis, signingKey: SigningKey, bundle = false): Promise<void> {
+    const zip = new AdmZip(apkPath);
+    const signedApk = this.apkSigner.sign(zip, signingKey, {
+      minSdk: analysis.buildConfig?.minSdk || 21,
+      v2: !bundle,
+      v3: !bundle,
+    });
+    await this.fileManager.writeFile(apkPath, signedApk);
+  }
 
-      // Add AndroidManifest.xml
-      const manifestContent = await this.generateAndroidManifest(analysis);
-      zip.addFile('AndroidManifest.xml', Buffer.from(manifestContent));
+  private async packageProjectAsApk(projectPath: string, analysis: ProjectAnalysis, apkPath: string, contents: ApkContents, options: BuildOptions): Promise<void> {
+    const { classesDex, icons, nativeLibraries, shell, flavor, split } = contents;
+    // Encoder errors fail the build, an APK missing its manifest or resources would not install
+    const zip = new AdmZip();
 
-      // Add classes.dex (simulated)
-      const classesDex = await this.generateClassesDex(projectPath, analysis);
-      zip.addFile('classes.dex', classesDex);
+    // Collect resources first so the manifest can refer to their ids
+    const resources = this.createResourceTable(analysis, flavor);
+    // Density splits only carry their own density's bitmaps
+    const splitIcons = split.density ? { ...icons, files: icons.files.filter(icon => icon.density === split.density) } : icons;
+    const xmlResources = this.addLauncherIcons(zip, resources, splitIcons);
+    const manifest = await this.generateAndroidManifest(analysis, shell?.runtime.activity, options.variant, flavor, split);
 
-      // Add resources.arsc (simulated)
-      const resourcesArsc = await this.generateResourcesArsc(analysis);
-      zip.addFile('resources.arsc', resourcesArsc);
+    // Add classes.dex with its header checksum, signature and size brought up to date
+    zip.addFile('classes.dex', finalizeDex(classesDex));
 
-      // Add META-INF directory with certificates
-      const metaInfContent = await this.generateMetaInf();
-      zip.addFile('META-INF/MANIFEST.MF', Buffer.from(metaInfContent.manifest));
-      zip.addFile('META-INF/CERT.SF', Buffer.from(metaInfContent.cert));
-      zip.addFile('META-INF/CERT.RSA', metaInfContent.rsa);
+    nativeLibraries.libraries.forEach((libraries, abi) => {
+      if (split.abi && abi !== split.abi) return;
+      libraries.forEach((data, library) => zip.addFile(`lib/${abi}/${library}`, data));
+    });
 
-      // Add application assets based on framework
+    // Add application assets based on framework
+    if (shell) {
+      const assetDir = path.posix.dirname(shell.runtime.entryPoint);
+      await this.addWebAssets(zip, shell.webRoot, assetDir);
+      // Web apps can't read manifest meta-data, they fetch the flavor settings next to index.html
+      if (flavor) {
+        const settings = { flavor: flavor.name, applicationId: this.applicationId(analysis, options.variant, flavor), env: flavor.env };
+        zip.addFile(`assets/${assetDir}/flavor.json`, Buffer.from(JSON.stringify(settings, null, 2)));
+      }
+    } else {
       await this.addFrameworkAssets(zip, projectPath, analysis);
+    }
+
+    const module: AppModule = { manifest, resources, xmlResources, files: zip };
+    const output = options.outputFormat === 'aab' ? this.appBundleWriter.write(module) : this.writeApk(module);
+    await this.fileManager.writeFile(apkPath, output);
+  }
+
+  // The project's versionCode from its Gradle defaultConfig, Expo android.versionCode or Flutter build number
+  private baseVersionCode(analysis: ProjectAnalysis): number {
+    const versionCode = Number(analysis.buildConfig?.versionCode);
+    return Number.isInteger(versionCode) && versionCode > 0 && versionCode <= MAX_VERSION_CODE ? versionCode : DEFAULT_VERSION_CODE;
+  }
 
-      // Add application icon
-      const iconData = await this.generateAppIcon();
-      zip.addFile('res/mipmap-mdpi/ic_launcher.png', iconData);
-      zip.addFile('res/mipmap-hdpi/ic_launcher.png', iconData);
-      zip.addFile('res/mipmap-xhdpi/ic_launcher.png', iconData);
+  // The APKs each flavor is packaged into: one APK, or per-ABI and per-density splits plus an optional universal APK.
+  // Split version codes follow AGP's documented scheme: filter digits in front of the base version code.
+  private planSplits(options: BuildOptions, baseVersionCode: number, nativeLibraries: NativeLibrarySet, logs: string[]): ApkSplit[] {
+    const splits = options.splits;
+    const single: ApkSplit[] = [{ versionCode: baseVersionCode }];
+    if (!splits || (!splits.abi && !splits.density) || options.outputFormat === 'aab') return single;
 
-      // Write the APK file
-      zip.writeZip(apkPath);
-    } catch (error) {
-      console.error('Error packaging APK:', error);
-      // Fallback to a basic ZIP with project files
-      await this.createBasicApkFallback(projectPath, apkPath);
+    const abis = splits.abi ? Object.keys(ABI_VERSION_CODES).filter(abi => nativeLibraries.libraries.has(abi)) : [];
+    if (splits.abi && abis.length === 0) {
+      logs.push('No native libraries found, ABI splits skipped');
     }
+    const densities = splits.density ? Object.keys(DENSITY_VERSION_CODES) : [];
+
+    const planned: ApkSplit[] = [];
+    for (const density of densities.length > 0 ? densities : [undefined]) {
+      for (const abi of abis.length > 0 ? abis : [undefined]) {
+        if (!density && !abi) continue;
+        const name = density && abi ? `${density}${abi[0].toUpperCase()}${abi.slice(1)}` : (density ?? abi)!;
+        const filterCode = (abi ? ABI_VERSION_CODES[abi] : 0) * 10 + (density ? DENSITY_VERSION_CODES[density] : 0);
+        planned.push({ name, abi, density, versionCode: filterCode * 1000 + baseVersionCode });
+      }
+    }
+    if (planned.length === 0) return single;
+    if (baseVersionCode >= 1000) {
+      logs.push(`versionCode ${baseVersionCode} is 1000 or more, split version codes can overlap between filters`);
+    }
+    if (splits.universal) {
+      planned.push({ name: 'universal', versionCode: baseVersionCode });
+    }
+    logs.push(`APK splits: ${planned.map(split => `${split.name} (versionCode ${split.versionCode})`).join(', ')}`);
+    return planned;
   }
 
-  private async generateAndroidManifest(analysis: ProjectAnalysis): Promise<string> {
+  // The flavor's id or the project's package, with the debug suffix for debug builds
+  private applicationId(analysis: ProjectAnalysis, variant: BuildVariant, flavor?: BuildFlavor): string {
+    const applicationId = flavor?.applicationId || analysis.buildConfig?.packageName || `com.${analysis.framework}.app`;
+    return variant === 'debug' ? `${applicationId}${DEBUG_APPLICATION_ID_SUFFIX}` : applicationId;
+  }
+
+  private async generateAndroidManifest(analysis: ProjectAnalysis, activity = '.MainActivity', variant: BuildVariant = 'release', flavor?: BuildFlavor, split?: ApkSplit): Promise<string> {
     const packageName = analysis.buildConfig?.packageName || `com.${analysis.framework}.app`;
-    const appName = analysis.buildConfig?.appName || 'Mobile App';
     const versionName = analysis.buildConfig?.version || '1.0.0';
+    const debug = variant === 'debug';
+    // Names and versions come from the uploaded project's config, so every attribute value is escaped
+    const attr = (value: string | number) => this.escapeXml(String(value));
+    // Flavors and the debug suffix only change the application id; classes stay in the original package
+    const applicationId = this.applicationId(analysis, variant, flavor);
+    const activityName = activity.startsWith('.') ? `${packageName}${activity}` : activity;
+    const metaData = Object.entries(flavor?.env ?? {})
+      .map(([name, value]) => `\n        <meta-data android:name="${attr(name)}" android:value="${attr(value)}" />`)
+      .join('');
+    // Set from the project's config, e.g. Expo's orientation
+    const orientation = analysis.buildConfig?.orientation ? `\n            android:screenOrientation="${attr(analysis.buildConfig.orientation)}"` : '';
+    // Verified https links into the app for a project with its own site, e.g. a PWA; the site confirms them with assetlinks.json
+    const webHost = analysis.buildConfig?.webOrigin ? new URL(analysis.buildConfig.webOrigin).host : undefined;
+    const appLinks = webHost ? `
+            <intent-filter android:autoVerify="true">
+                <action android:name="android.intent.action.VIEW" />
+                <category android:name="android.intent.category.DEFAULT" />
+                <category android:name="android.intent.category.BROWSABLE" />
+                <data android:scheme="https" android:host="${attr(webHost)}" />
+            </intent-filter>` : '';
+    const assetStatements = webHost ? '\n        <meta-data android:name="asset_statements" android:resource="@string/asset_statements" />' : '';
+    const density = split?.density;
+    const compatibleScreens = density
+      ? `\n    <compatible-screens>${SCREEN_SIZES.map(size => `\n        <screen android:screenSize="${attr(size)}" android:screenDensity="${attr(density)}" />`).join('')}\n    </compatible-screens>`
+      : '';
     
     return `<?xml version="1.0" encoding="utf-8"?>
 <manifest xmlns:android="http://schemas.android.com/apk/res/android"
-    package="${packageName}"
-    android:versionCode="1"
-    android:versionName="${versionName}">
+    package="${attr(applicationId)}"
+    android:versionCode="${attr(split?.versionCode ?? this.baseVersionCode(analysis))}"
+    android:versionName="${attr(versionName)}">
     
-    <uses-sdk android:minSdkVersion="${analysis.buildConfig?.minSdk || 21}"
-              android:targetSdkVersion="${analysis.buildConfig?.targetSdk || 33}" />
+    <uses-sdk android:minSdkVersion="${attr(analysis.buildConfig?.minSdk || 21)}"
+              android:targetSdkVersion="${attr(analysis.buildConfig?.targetSdk || 33)}" />
     
     <uses-permission android:name="android.permission.INTERNET" />
     <uses-permission android:name="android.permission.ACCESS_NETWORK_STATE" />
-    <uses-permission android:name="android.permission.WRITE_EXTERNAL_STORAGE" />
+    <uses-permission android:name="android.permission.WRITE_EXTERNAL_STORAGE" />${compatibleScreens}
     
     <application
         android:allowBackup="true"
         android:icon="@mipmap/ic_launcher"
-        android:label="${appName}"
-        android:theme="@style/AppTheme">
+        android:roundIcon="@mipmap/ic_launcher_round"
+        android:label="@string/app_name"
+        android:theme="@style/AppTheme"${debug ? '\n        android:debuggable="true"' : ''}>
         
         <activity
-            android:name=".MainActivity"
+            android:name="${attr(activityName)}"
+            android:configChanges="orientation|screenSize|keyboardHidden"
             android:exported="true"
-            android:launchMode="singleTop"
+            android:launchMode="singleTop"${orientation}
             android:theme="@style/LaunchTheme">
             <intent-filter>
                 <action android:name="android.intent.action.MAIN" />
                 <category android:name="android.intent.category.LAUNCHER" />
-            </intent-filter>
-        </activity>
+            </intent-filter>${appLinks}
+        </activity>${assetStatements}${metaData}
     </application>
 </manifest>`;
   }
 
-  private async generateClassesDex(projectPath: string, analysis: ProjectAnalysis): Promise<Buffer> {
-    // Create a simulated DEX file with proper structure
-    // DEX files start with "dex\n" followed by version and data
-    const dexHeader = Buffer.from([
-      0x64, 0x65, 0x78, 0x0A, // "dex\n"
-      0x30, 0x33, 0x35, 0x00, // version "035\0"
-    ]);
-    
-    // Add some realistic DEX data (this is simplified but structurally valid)
-    const dexData = Buffer.alloc(8192); // 8KB of data
-    dexData.fill(0);
-    
-    // Write DEX header
-    dexHeader.copy(dexData, 0);
-    
-    // Add checksum and signature placeholders
-    dexData.writeUInt32LE(0x12345678, 8); // checksum
-    
-    return dexData;
-  }
-
-  private async generateResourcesArsc(analysis: ProjectAnalysis): Promise<Buffer> {
-    // Create a basic resources.arsc file structure
-    const arscData = Buffer.alloc(4096); // 4KB
-    arscData.fill(0);
-    
-    // Write ARSC magic number and header
-    arscData.writeUInt32LE(0x080C0003, 0); // Resource table type
-    arscData.writeUInt32LE(4096, 4); // Size
-    
-    return arscData;
+  private escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
   }
 
-  private async generateMetaInf(): Promise<{ manifest: string; cert: string; rsa: Buffer }> {
-    const manifest = `Manifest-Version: 1.0
-Created-By: Mobile APK Converter
-Built-Date: ${new Date().toISOString()}
-
-Name: AndroidManifest.xml
-SHA1-Digest: abcdef1234567890abcdef1234567890abcdef12
-
-Name: classes.dex  
-SHA1-Digest: 1234567890abcdef1234567890abcdef12345678
-
-Name: resources.arsc
-SHA1-Digest: 567890abcdef1234567890abcdef1234567890ab
-`;
-
-    const cert = `Signature-Version: 1.0
-Created-By: Mobile APK Converter
-SHA1-Digest-Manifest: fedcba0987654321fedcba0987654321fedcba09
-SHA1-Digest-Manifest-Main-Attributes: 0987654321fedcba0987654321fedcba09876543
-`;
+  // Strings, colors and themes referenced by the generated manifest; icons are added by the caller.
+  // A flavor's name and brand color replace the project's.
+  private createResourceTable(analysis: ProjectAnalysis, flavor?: BuildFlavor): ResourceTable {
+    const packageName = analysis.buildConfig?.packageName || `com.${analysis.framework}.app`;
+    const resources = new ResourceTable(packageName);
+
+    resources.addString('app_name', flavor?.appName || analysis.buildConfig?.appName || 'Mobile App');
+    if (analysis.buildConfig?.webOrigin) {
+      resources.addString('asset_statements', JSON.stringify([{
+        relation: ['delegate_permission/common.handle_all_urls'],
+        target: { namespace: 'web', site: analysis.buildConfig.webOrigin },
+      }]));
+    }
+    resources.addColor('launch_background', flavor?.color || analysis.buildConfig?.splashBackgroundColor || '#FFFFFF');
+    const themeColors: Record<string, string> = {};
+    const primaryColor = flavor?.color || analysis.buildConfig?.themeColor;
+    if (primaryColor) {
+      resources.addColor('color_primary', primaryColor);
+      themeColors['android:colorPrimary'] = '@color/color_primary';
+      themeColors['android:statusBarColor'] = '@color/color_primary';
+    }
+    resources.addStyle('AppTheme', '@android:style/Theme.Light.NoTitleBar', {
+      'android:windowNoTitle': 'true',
+      ...themeColors,
+    });
+    resources.addStyle('LaunchTheme', '@style/AppTheme', {
+      'android:windowBackground': '@color/launch_background',
+    });
 
-    // Generate a simple RSA signature placeholder
-    const rsa = Buffer.alloc(256);
-    rsa.fill(0x30); // ASN.1 sequence tag
-    
-    return { manifest, cert, rsa };
+    return resources;
   }
 
   private async addFrameworkAssets(zip: any, projectPath: string, analysis: ProjectAnalysis): Promise<void> {
     try {
-      switch (analysis.framework) {
-        case 'flutter':
-          await this.addFlutterAssets(zip, projectPath);
-          break;
-        case 'react-native':
-          await this.addReactNativeAssets(zip, projectPath);
-          break;
-        case 'cordova':
-          await this.addCordovaAssets(zip, projectPath);
-          break;
-        default:
-          await this.addGenericAssets(zip, projectPath);
-      }
+      await this.frameworkBuilder(analysis).addAssets(zip, projectPath);
     } catch (error) {
       console.log('Error adding framework assets:', error);
       // Continue without assets if there's an error
     }
   }
 
-  private async addFlutterAssets(zip: any, projectPath: string): Promise<void> {
-    // Add Flutter-specific assets
-    const assetsDir = path.join(projectPath, 'assets');
-    if (await this.fileManager.fileExists(assetsDir)) {
-      // Get all subdirectories in assets
-      const assetDirs = await this.fileManager.listDirectories(assetsDir);
-      
-      for (const subDir of assetDirs) {
-        try {
-          const subDirPath = path.join(assetsDir, subDir);
-          const assetFiles = await this.fileManager.listFiles(subDirPath);
-          
-          for (const assetFile of assetFiles.slice(0, 5)) { // Limit files per directory
-            try {
-              const assetPath = path.join(subDirPath, assetFile);
-              const assetStats = await this.fileManager.getFileStats(assetPath);
-              
-              // Only add files smaller than 1MB
-              if (assetStats && !assetStats.isDirectory && assetStats.size < 1024 * 1024) {
-                const assetContent = await this.fileManager.readFile(assetPath);
-                zip.addFile(`assets/flutter_assets/${subDir}/${assetFile}`, Buffer.from(assetContent));
-              }
-            } catch (error) {
-              // Skip files that can't be read
-            }
-          }
-        } catch (error) {
-          // Skip directories that can't be read
-        }
-      }
-    }
-    
-    // Also add pubspec.yaml and main.dart for reference
-    try {
-      const pubspecPath = path.join(projectPath, 'pubspec.yaml');
-      if (await this.fileManager.fileExists(pubspecPath)) {
-        const pubspecContent = await this.fileManager.readFile(pubspecPath);
-        zip.addFile('flutter_project/pubspec.yaml', Buffer.from(pubspecContent));
-      }
-      
-      const mainDartPath = path.join(projectPath, 'lib', 'main.dart');
-      if (await this.fileManager.fileExists(mainDartPath)) {
-        const mainDartContent = await this.fileManager.readFile(mainDartPath);
-        zip.addFile('flutter_project/lib/main.dart', Buffer.from(mainDartContent));
-      }
-    } catch (error) {
-      // Continue without these files if they can't be added
+  // Copies the whole web app into assets/<assetDir>, where the WebView shell loads it from
+  private async addWebAssets(zip: AdmZip, webRoot: string, assetDir: string): Promise<void> {
+    for (const file of await this.listWebFiles(webRoot)) {
+      // Native libraries are packaged under lib/ for their ABI, see NativeLibraryCollector
+      if (file.endsWith('.so')) continue;
+      zip.addFile(`assets/${assetDir}/${file}`, await this.fileManager.readFileBuffer(path.join(webRoot, file)));
     }
   }
 
-  private async addReactNativeAssets(zip: any, projectPath: string): Promise<void> {
-    // Add React Native bundle
-    const indexJs = path.join(projectPath, 'index.js');
-    if (await this.fileManager.fileExists(indexJs)) {
-      const content = await this.fileManager.readFile(indexJs);
-      zip.addFile('assets/index.android.bundle', Buffer.from(content));
+  // The web app's files relative to its root, skipping dotfiles and tooling folders
+  private async listWebFiles(webRoot: string, relative = ''): Promise<string[]> {
+    const directory = path.join(webRoot, relative);
+    const files = (await this.fileManager.listFiles(directory))
+      .filter(file => !file.startsWith('.'))
+      .map(file => path.posix.join(relative, file));
+    for (const subDir of await this.fileManager.listDirectories(directory)) {
+      if (subDir.startsWith('.') || WEB_ASSET_EXCLUDES.includes(subDir)) continue;
+      files.push(...await this.listWebFiles(webRoot, path.posix.join(relative, subDir)));
     }
-  }
-
-  private async addCordovaAssets(zip: any, projectPath: string): Promise<void> {
-    // Add Cordova www files
-    const wwwDir = path.join(projectPath, 'www');
-    if (await this.fileManager.fileExists(wwwDir)) {
-      try {
-        const indexHtml = await this.fileManager.readFile(path.join(wwwDir, 'index.html'));
-        zip.addFile('assets/www/index.html', Buffer.from(indexHtml));
-      } catch (error) {
-        console.log('Could not add Cordova assets');
+    return files;
+  }
+
+  // Release builds point out code that ships unshrunk: a Gradle release type without R8, unminified web scripts
+  private async minificationHints(projectPath: string, analysis: ProjectAnalysis, shell?: WebShellPackage): Promise<string[]> {
+    const hints: string[] = [];
+    const buildScripts = [analysis.buildConfig?.buildScript, ...GRADLE_BUILD_FILES].filter(Boolean) as string[];
+    for (const candidate of buildScripts) {
+      const gradlePath = path.join(projectPath, candidate);
+      if (!(await this.fileManager.fileExists(gradlePath))) continue;
+      // release { ... } in Groovy, getByName("release") { ... } in Kotlin DSL
+      const release = /\brelease['"]?\)?\s*\{([^{}]*)\}/.exec(await this.fileManager.readFile(gradlePath))?.[1] ?? '';
+      if (!/\b(minifyEnabled\s+true|isMinifyEnabled\s*=\s*true)/.test(release)) {
+        hints.push(`${candidate}: the release build type does not enable R8, set minifyEnabled true (isMinifyEnabled = true in Kotlin DSL) to shrink and obfuscate the code`);
+      } else if (!/\b(shrinkResources\s+true|isShrinkResources\s*=\s*true)/.test(release)) {
+        hints.push(`${candidate}: enable shrinkResources alongside minifyEnabled to drop unused resources`);
       }
+      break;
     }
-  }
 
-  private async addGenericAssets(zip: any, projectPath: string): Promise<void> {
-    // Add any available assets from the project
-    const possibleAssets = ['index.html', 'app.js', 'main.js', 'package.json'];
-    for (const asset of possibleAssets) {
-      try {
-        const assetPath = path.join(projectPath, asset);
-        if (await this.fileManager.fileExists(assetPath)) {
-          const content = await this.fileManager.readFile(assetPath);
-          zip.addFile(`assets/${asset}`, Buffer.from(content));
-        }
-      } catch (error) {
-        // Continue if asset cannot be read
+    if (shell) {
+      const unminified: string[] = [];
+      for (const file of await this.listWebFiles(shell.webRoot)) {
+        if (!/\.(js|css)$/.test(file) || /\.min\.(js|css)$/.test(file)) continue;
+        const content = await this.fileManager.readFile(path.join(shell.webRoot, file));
+        if (content.length < UNMINIFIED_MIN_SIZE) continue;
+        if (content.length / content.split('\n').length < UNMINIFIED_MAX_LINE_LENGTH) unminified.push(file);
+      }
+      if (unminified.length > 0) {
+        const listed = unminified.slice(0, 5).join(', ') + (unminified.length > 5 ? ', ...' : '');
+        hints.push(`Unminified web scripts, minify them for smaller release builds: ${listed}`);
       }
     }
+    return hints;
   }
 
-  private async generateAppIcon(): Promise<Buffer> {
-    // Create a simple PNG icon (48x48 pixels, minimal PNG structure)
-    const pngSignature = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
-    const ihdrChunk = Buffer.from([
-      0x00, 0x00, 0x00, 0x0D, // Chunk length (13 bytes)
-      0x49, 0x48, 0x44, 0x52, // "IHDR"
-      0x00, 0x00, 0x00, 0x30, // Width: 48
-      0x00, 0x00, 0x00, 0x30, // Height: 48
-      0x08, 0x02, 0x00, 0x00, 0x00, // Bit depth, color type, compression, filter, interlace
-      0x91, 0x5D, 0x53, 0x8E  // CRC
-    ]);
-    
-    const idatChunk = Buffer.from([
-      0x00, 0x00, 0x00, 0x0B, // Chunk length
-      0x49, 0x44, 0x41, 0x54, // "IDAT"
-      0x78, 0x9C, 0x63, 0x00, 0x01, 0x00, 0x00, 0x05, 0x00, 0x01, // Compressed data
-      0x0D, 0x0A, 0x2D, 0xB4  // CRC
-    ]);
-    
-    const iendChunk = Buffer.from([
-      0x00, 0x00, 0x00, 0x00, // Chunk length (0)
-      0x49, 0x45, 0x4E, 0x44, // "IEND"
-      0xAE, 0x42, 0x60, 0x82  // CRC
-    ]);
-    
-    return Buffer.concat([pngSignature, ihdrChunk, idatChunk, iendChunk]);
+  // Writes the module as an APK: binary XML manifest and res/ XML next to resources.arsc,
+  // stored and aligned the way zipalign would leave it
+  private writeApk(module: AppModule): Buffer {
+    const zip = new AdmZip();
+    zip.addFile('AndroidManifest.xml', this.axmlEncoder.encode(module.manifest, module.resources.resolve));
+    for (const entry of module.files.getEntries()) {
+      if (!entry.isDirectory) zip.addFile(entry.entryName, entry.getData());
+    }
+    zip.addFile('resources.arsc', module.resources.compile());
+    // Compiled last, once every resource they refer to has an id
+    for (const [xmlPath, xml] of module.xmlResources) {
+      zip.addFile(xmlPath, this.axmlEncoder.encode(xml, module.resources.resolve));
+    }
+    return this.apkZipWriter.write(zip);
   }
 
-  private async createBasicApkFallback(projectPath: string, apkPath: string): Promise<void> {
-    // Fallback: create a ZIP with the main project files
-    const AdmZip = (await import('adm-zip')).default;
-    const zip = new AdmZip();
-    
-    const mainFiles = ['package.json', 'index.html', 'app.js', 'main.dart', 'pubspec.yaml'];
-    for (const file of mainFiles) {
-      try {
-        const filePath = path.join(projectPath, file);
-        if (await this.fileManager.fileExists(filePath)) {
-          const content = await this.fileManager.readFile(filePath);
-          zip.addFile(file, Buffer.from(content));
-        }
-      } catch (error) {
-        // Continue if file cannot be read
-      }
+  // Adds the launcher icon images and registers them, returning the adaptive icon XML files to compile
+  private addLauncherIcons(zip: AdmZip, resources: ResourceTable, icons: LauncherIconSet): Array<[string, string]> {
+    resources.addColor('ic_launcher_background', icons.backgroundColor);
+    for (const icon of icons.files) {
+      resources.addFile('mipmap', icon.name, icon.path, { density: DENSITIES[icon.density] });
+      zip.addFile(icon.path, icon.data);
     }
-    
-    zip.writeZip(apkPath);
+    return ['ic_launcher', 'ic_launcher_round'].map(name => {
+      const xmlPath = `res/mipmap-anydpi-v26/${name}.xml`;
+      resources.addFile('mipmap', name, xmlPath, { density: DENSITIES.anydpi, sdkVersion: 26 });
+      return [xmlPath, icons.adaptiveIconXml];
+    });
   }
 
   // Real dependency installation
-  private async installDependencies(projectPath: string, analysis: ProjectAnalysis): Promise<{success: boolean, logs: string[], errors: string[]}> {
-    const result = { success: true, logs: [], errors: [] };
+  private async installDependencies(projectPath: string, analysis: ProjectAnalysis, signal?: AbortSignal): Promise<StepResult> {
+    const result: StepResult = { success: true, logs: [], errors: [] };
     
     try {
-      switch (analysis.framework) {
-        case 'flutter':
-          result.logs.push('Running flutter pub get...');
-          try {
-            const flutterResult = await execAsync('flutter pub get', { cwd: projectPath, timeout: 60000 });
-            result.logs.push('Flutter dependencies installed successfully');
-            if (flutterResult.stderr) result.logs.push(`Flutter output: ${flutterResult.stderr}`);
-          } catch (error: any) {
-            result.logs.push(`Flutter pub get completed with status: ${error.message}`);
-          }
-          break;
-          
-        case 'react-native':
-          result.logs.push('Running npm install...');
-          try {
-            const npmResult = await execAsync('npm install', { cwd: projectPath, timeout: 120000 });
-            result.logs.push('NPM dependencies installed successfully');
-          } catch (error: any) {
-            result.logs.push(`NPM install completed: ${error.message}`);
-          }
-          break;
-          
-        case 'android':
-          result.logs.push('Running gradle dependency resolution...');
-          try {
-            const gradleResult = await execAsync('./gradlew dependencies', { cwd: projectPath, timeout: 180000 });
-            result.logs.push('Gradle dependencies resolved successfully');
-          } catch (error: any) {
-            result.logs.push(`Gradle dependency resolution: ${error.message}`);
-          }
-          break;
-          
-        default:
-          result.logs.push(`Framework ${analysis.framework} detected - dependencies analyzed`);
-      }
+      await this.frameworkBuilder(analysis).installDependencies(projectPath, analysis, result, signal);
     } catch (error: any) {
       result.logs.push(`Dependency analysis completed: ${error.message}`);
     }
@@ -693,27 +906,12 @@ SHA1-Digest-Manifest-Main-Attributes: 0987654321fedcba0987654321fedcba09876543
   }
 
   // Real missing file detection and creation
-  private async detectAndCreateMissingFiles(projectPath: string, analysis: ProjectAnalysis): Promise<{success: boolean, logs: string[], errors: string[]}> {
-    const result = { success: true, logs: [], errors: [] };
+  private async detectAndCreateMissingFiles(projectPath: string, analysis: ProjectAnalysis, signal?: AbortSignal): Promise<StepResult> {
+    const result: StepResult = { success: true, logs: [], errors: [] };
     
     try {
       result.logs.push('Scanning project for missing essential files...');
-      
-      switch (analysis.framework) {
-        case 'flutter':
-          await this.createFlutterMissingFiles(projectPath, analysis, result);
-          break;
-        case 'react-native':
-          await this.createReactNativeMissingFiles(projectPath, analysis, result);
-          break;
-        case 'android':
-          await this.createAndroidMissingFiles(projectPath, analysis, result);
-          break;
-        case 'cordova':
-          await this.createCordovaMissingFiles(projectPath, analysis, result);
-          break;
-      }
-      
+      await this.frameworkBuilder(analysis).createMissingFiles(projectPath, analysis, result, signal);
       result.logs.push(`Missing files analysis completed - ${analysis.missingFiles.length} files checked`);
     } catch (error: any) {
       result.errors.push(`Missing files creation failed: ${error.message}`);
@@ -723,38 +921,21 @@ SHA1-Digest-Manifest-Main-Attributes: 0987654321fedcba0987654321fedcba09876543
   }
 
   // Real SDK and environment setup
-  private async setupSDKAndEnvironment(projectPath: string, analysis: ProjectAnalysis): Promise<{success: boolean, logs: string[], errors: string[]}> {
-    const result = { success: true, logs: [], errors: [] };
+  private async setupSDKAndEnvironment(projectPath: string, analysis: ProjectAnalysis, signal?: AbortSignal): Promise<StepResult> {
+    const result: StepResult = { success: true, logs: [], errors: [] };
     
     try {
       // Check Java installation
       result.logs.push('Checking Java installation...');
       try {
-        const javaResult = await execAsync('java -version', { timeout: 10000 });
+        await execAsync('java -version', { timeout: 10000 });
         result.logs.push('Java runtime detected and available');
       } catch {
         result.logs.push('Java environment setup required for Android builds');
       }
       
-      // Check Node.js for React Native
-      if (analysis.framework === 'react-native') {
-        try {
-          const nodeResult = await execAsync('node --version', { timeout: 5000 });
-          result.logs.push(`Node.js environment ready: ${nodeResult.stdout.trim()}`);
-        } catch {
-          result.logs.push('Node.js environment required for React Native builds');
-        }
-      }
-      
-      // Check Flutter SDK
-      if (analysis.framework === 'flutter') {
-        try {
-          const flutterResult = await execAsync('flutter --version', { timeout: 10000 });
-          result.logs.push('Flutter SDK detected and available');
-        } catch {
-          result.logs.push('Flutter SDK environment required for Flutter builds');
-        }
-      }
+      // Framework SDKs, e.g. Node.js for React Native or the Flutter SDK
+      await this.frameworkBuilder(analysis).setupEnvironment(projectPath, analysis, result, signal);
       
       result.logs.push(`Target SDK configured: Android API ${analysis.buildConfig.targetSdk || 33}`);
       result.logs.push(`Minimum SDK configured: Android API ${analysis.buildConfig.minSdk || 21}`);
@@ -767,47 +948,11 @@ SHA1-Digest-Manifest-Main-Attributes: 0987654321fedcba0987654321fedcba09876543
   }
 
   // Real build tools installation
-  private async installBuildTools(projectPath: string, analysis: ProjectAnalysis): Promise<{success: boolean, logs: string[], errors: string[]}> {
-    const result = { success: true, logs: [], errors: [] };
+  private async installBuildTools(projectPath: string, analysis: ProjectAnalysis, signal?: AbortSignal): Promise<StepResult> {
+    const result: StepResult = { success: true, logs: [], errors: [] };
     
     try {
-      switch (analysis.framework) {
-        case 'flutter':
-          result.logs.push('Configuring Flutter build environment...');
-          try {
-            await execAsync('flutter doctor --machine', { timeout: 30000 });
-            result.logs.push('Flutter build environment validated');
-          } catch (error: any) {
-            result.logs.push('Flutter environment configured for build process');
-          }
-          break;
-          
-        case 'react-native':
-          result.logs.push('Configuring React Native build environment...');
-          // Check for Android build files
-          if (await this.fileManager.fileExists(path.join(projectPath, 'android', 'gradlew'))) {
-            result.logs.push('Android build configuration detected');
-          } else {
-            result.logs.push('Creating Android build configuration...');
-          }
-          break;
-          
-        case 'android':
-          result.logs.push('Configuring Android build tools...');
-          // Check for Gradle wrapper
-          if (!await this.fileManager.fileExists(path.join(projectPath, 'gradlew'))) {
-            try {
-              await execAsync('gradle wrapper', { cwd: projectPath, timeout: 30000 });
-              result.logs.push('Gradle wrapper created successfully');
-            } catch (error: any) {
-              result.logs.push('Gradle build environment configured');
-            }
-          } else {
-            result.logs.push('Gradle wrapper already available');
-          }
-          break;
-      }
-      
+      await this.frameworkBuilder(analysis).installBuildTools(projectPath, analysis, result, signal);
       result.logs.push('Build tools configuration completed successfully');
     } catch (error: any) {
       result.errors.push(`Build tools setup failed: ${error.message}`);
@@ -815,146 +960,4 @@ SHA1-Digest-Manifest-Main-Attributes: 0987654321fedcba0987654321fedcba09876543
     
     return result;
   }
-
-  // Framework-specific missing file creators
-  private async createFlutterMissingFiles(projectPath: string, analysis: ProjectAnalysis, result: any): Promise<void> {
-    // Create pubspec.yaml if missing
-    if (!await this.fileManager.fileExists(path.join(projectPath, 'pubspec.yaml'))) {
-      const pubspec = `name: mobile_app
-description: A Flutter mobile application
-version: 1.0.0+1
-
-environment:
-  sdk: '>=2.19.0 <4.0.0'
-  flutter: ">=1.17.0"
-
-dependencies:
-  flutter:
-    sdk: flutter
-  cupertino_icons: ^1.0.2
-
-dev_dependencies:
-  flutter_test:
-    sdk: flutter
-  flutter_lints: ^2.0.0
-
-flutter:
-  uses-material-design: true`;
-      
-      await this.fileManager.writeFile(path.join(projectPath, 'pubspec.yaml'), pubspec);
-      result.logs.push('Created complete pubspec.yaml configuration');
-    }
-    
-    // Create main.dart if missing
-    const mainDartPath = path.join(projectPath, 'lib', 'main.dart');
-    if (!await this.fileManager.fileExists(mainDartPath)) {
-      await this.fileManager.ensureDirectory(path.join(projectPath, 'lib'));
-      const mainDart = `import 'package:flutter/material.dart';
-
-void main() {
-  runApp(MyApp());
-}
-
-class MyApp extends StatelessWidget {
-  @override
-  Widget build(BuildContext context) {
-    return MaterialApp(
-      title: 'Mobile App',
-      theme: ThemeData(
-        primarySwatch: Colors.blue,
-      ),
-      home: MyHomePage(title: 'Mobile App'),
-    );
-  }
-}
-
-class MyHomePage extends StatefulWidget {
-  MyHomePage({Key? key, required this.title}) : super(key: key);
-  final String title;
-
-  @override
-  _MyHomePageState createState() => _MyHomePageState();
-}
-
-class _MyHomePageState extends State<MyHomePage> {
-  int _counter = 0;
-
-  void _incrementCounter() {
-    setState(() {
-      _counter++;
-    });
-  }
-
-  @override
-  Widget build(BuildContext context) {
-    return Scaffold(
-      appBar: AppBar(
-        title: Text(widget.title),
-      ),
-      body: Center(
-        child: Column(
-          mainAxisAlignment: MainAxisAlignment.center,
-          children: <Widget>[
-            Text('You have pushed the button this many times:'),
-            Text('\$_counter', style: Theme.of(context).textTheme.headline4),
-          ],
-        ),
-      ),
-      floatingActionButton: FloatingActionButton(
-        onPressed: _incrementCounter,
-        tooltip: 'Increment',
-        child: Icon(Icons.add),
-      ),
-    );
-  }
-}`;
-      
-      await this.fileManager.writeFile(mainDartPath, mainDart);
-      result.logs.push('Created complete Flutter main.dart application');
-    }
-  }
-
-  private async createReactNativeMissingFiles(projectPath: string, analysis: ProjectAnalysis, result: any): Promise<void> {
-    // Create package.json if missing
-    if (!await this.fileManager.fileExists(path.join(projectPath, 'package.json'))) {
-      await this.createPackageJson(path.join(projectPath, 'package.json'), analysis);
-      result.logs.push('Created complete React Native package.json');
-    }
-    
-    // Create index.js if missing
-    if (!await this.fileManager.fileExists(path.join(projectPath, 'index.js'))) {
-      const indexJs = `import {AppRegistry} from 'react-native';
-import App from './App';
-import {name as appName} from './app.json';
-
-AppRegistry.registerComponent(appName, () => App);`;
-      
-      await this.fileManager.writeFile(path.join(projectPath, 'index.js'), indexJs);
-      result.logs.push('Created React Native entry point');
-    }
-  }
-
-  private async createAndroidMissingFiles(projectPath: string, analysis: ProjectAnalysis, result: any): Promise<void> {
-    // Create build.gradle if missing
-    if (!await this.fileManager.fileExists(path.join(projectPath, 'build.gradle'))) {
-      await this.createBuildGradle(path.join(projectPath, 'build.gradle'), analysis);
-      result.logs.push('Created Android build.gradle configuration');
-    }
-    
-    // Create AndroidManifest.xml if missing
-    const manifestPath = path.join(projectPath, 'app', 'src', 'main', 'AndroidManifest.xml');
-    if (!await this.fileManager.fileExists(manifestPath)) {
-      await this.fileManager.ensureDirectory(path.dirname(manifestPath));
-      await this.createAndroidManifest(manifestPath, analysis);
-      result.logs.push('Created Android application manifest');
-    }
-  }
-
-  private async createCordovaMissingFiles(projectPath: string, analysis: ProjectAnalysis, result: any): Promise<void> {
-    // Create config.xml if missing
-    if (!await this.fileManager.fileExists(path.join(projectPath, 'config.xml'))) {
-      await this.createConfigXml(path.join(projectPath, 'config.xml'), analysis);
-      result.logs.push('Created Cordova configuration file');
-    }
-  }
 }
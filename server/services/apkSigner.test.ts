@@ -0,0 +1,230 @@
+import crypto from 'crypto';
+import AdmZip from 'adm-zip';
+import forge from 'node-forge';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { ApkSigner } from './apkSigner';
+import { KeystoreGenerator } from './keystoreGenerator';
+import type { SigningKey } from './keystoreParser';
+
+const V2_BLOCK_ID = 0x7109871a;
+const V3_BLOCK_ID = 0xf05368c0;
+const STRIPPING_PROTECTION_ATTR_ID = 0xbeeff00d;
+
+// Reads the little-endian, uint32 length-prefixed values the signing block is made of
+class BlockReader {
+  private offset = 0;
+
+  constructor(private data: Buffer) {}
+
+  uint32(): number {
+    const value = this.data.readUInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  lengthPrefixed(): BlockReader {
+    return new BlockReader(this.bytes());
+  }
+
+  bytes(): Buffer {
+    const length = this.uint32();
+    const value = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  get remaining(): number {
+    return this.data.length - this.offset;
+  }
+}
+
+// The APK Signing Block right before the central directory, by block id
+function readSigningBlock(apk: Buffer): { start: number; pairs: Map<number, Buffer> } {
+  const eocd = apk.length - 22;
+  const centralDirOffset = apk.readUInt32LE(eocd + 16);
+  expect(apk.toString('ascii', centralDirOffset - 16, centralDirOffset)).toBe('APK Sig Block 42');
+
+  const size = Number(apk.readBigUInt64LE(centralDirOffset - 24));
+  const start = centralDirOffset - size - 8;
+  expect(Number(apk.readBigUInt64LE(start))).toBe(size);
+
+  const pairs = new Map<number, Buffer>();
+  for (let at = start + 8; at < centralDirOffset - 24;) {
+    const length = Number(apk.readBigUInt64LE(at));
+    pairs.set(apk.readUInt32LE(at + 8), apk.subarray(at + 12, at + 8 + length));
+    at += 8 + length;
+  }
+  return { start, pairs };
+}
+
+// Chunked digest over everything but the signing block, with the EOCD pointing where the block starts
+function contentDigest(apk: Buffer, blockStart: number): Buffer {
+  const eocdOffset = apk.length - 22;
+  const eocd = Buffer.from(apk.subarray(eocdOffset));
+  eocd.writeUInt32LE(blockStart, 16);
+  const sections = [apk.subarray(0, blockStart), apk.subarray(apk.readUInt32LE(eocdOffset + 16), eocdOffset), eocd];
+
+  const uint32 = (value: number) => {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32LE(value, 0);
+    return buffer;
+  };
+  const chunks: Buffer[] = [];
+  for (const section of sections) {
+    for (let offset = 0; offset < section.length; offset += 1024 * 1024) {
+      const chunk = section.subarray(offset, offset + 1024 * 1024);
+      chunks.push(crypto.createHash('sha256').update(Buffer.from([0xa5])).update(uint32(chunk.length)).update(chunk).digest());
+    }
+  }
+  return crypto.createHash('sha256').update(Buffer.from([0x5a])).update(uint32(chunks.length)).update(Buffer.concat(chunks)).digest();
+}
+
+interface VerifiedSigner {
+  algorithm: number;
+  digest: Buffer;
+  certificates: Buffer[];
+  sdkRange?: [number, number];
+  attributes: Map<number, Buffer>;
+}
+
+// Parses a v2/v3 signer and checks its signature over signed data with the embedded public key
+function verifySigner(value: Buffer, v3: boolean): VerifiedSigner {
+  const signers = new BlockReader(value).lengthPrefixed();
+  const signer = signers.lengthPrefixed();
+  expect(signers.remaining).toBe(0);
+
+  const signedDataBytes = signer.bytes();
+  const signerSdkRange = v3 ? [signer.uint32(), signer.uint32()] : undefined;
+  const signature = signer.lengthPrefixed().lengthPrefixed();
+  const publicKey = signer.bytes();
+
+  const algorithm = signature.uint32();
+  const verified = crypto.verify('sha256', signedDataBytes,
+    crypto.createPublicKey({ key: publicKey, format: 'der', type: 'spki' }), signature.bytes());
+  expect(verified).toBe(true);
+
+  const signedData = new BlockReader(signedDataBytes);
+  const digest = signedData.lengthPrefixed().lengthPrefixed();
+  expect(digest.uint32()).toBe(algorithm);
+  const digestBytes = digest.bytes();
+
+  const certificateList = signedData.lengthPrefixed();
+  const certificates: Buffer[] = [];
+  while (certificateList.remaining > 0) certificates.push(certificateList.bytes());
+
+  const sdkRange: [number, number] | undefined = v3 ? [signedData.uint32(), signedData.uint32()] : undefined;
+  expect(sdkRange).toEqual(signerSdkRange);
+
+  const attributeList = signedData.lengthPrefixed();
+  const attributes = new Map<number, Buffer>();
+  while (attributeList.remaining > 0) {
+    const attribute = attributeList.bytes();
+    attributes.set(attribute.readUInt32LE(0), attribute.subarray(4));
+  }
+  return { algorithm, digest: digestBytes, certificates, sdkRange, attributes };
+}
+
+// Manifest sections as written, each ending in its blank line, with continuation lines joined
+function readManifest(data: Buffer): Array<{ raw: Buffer; attributes: Record<string, string> }> {
+  return data.toString('utf8').split('\r\n\r\n').filter(Boolean).map(section => ({
+    raw: Buffer.from(`${section}\r\n\r\n`, 'utf8'),
+    attributes: Object.fromEntries(section.replace(/\r\n /g, '').split('\r\n').map(line => {
+      const colon = line.indexOf(': ');
+      return [line.substring(0, colon), line.substring(colon + 2)];
+    })),
+  }));
+}
+
+const sha256 = (data: Buffer) => crypto.createHash('sha256').update(data).digest('base64');
+
+describe('ApkSigner', () => {
+  const signer = new ApkSigner();
+  const keys: Record<'RSA' | 'EC', SigningKey> = {} as Record<'RSA' | 'EC', SigningKey>;
+  // Over a megabyte, so the content digest spans several chunks
+  const image = crypto.randomBytes(1536 * 1024);
+
+  beforeAll(() => {
+    const generator = new KeystoreGenerator();
+    for (const keyAlgorithm of ['RSA', 'EC'] as const) {
+      keys[keyAlgorithm] = generator.generate({
+        alias: 'release',
+        storePassword: 'secret',
+        keyAlgorithm,
+        distinguishedName: { commonName: 'Acme Apps', country: 'US' },
+        validityYears: 25,
+      }).signingKey;
+    }
+  });
+
+  const createZip = () => {
+    const zip = new AdmZip();
+    zip.addFile('AndroidManifest.xml', Buffer.from('<manifest/>'));
+    zip.addFile('classes.dex', Buffer.from('dex\n035\0'));
+    zip.addFile('res/drawable/a-file-with-a-name-long-enough-to-wrap-its-manifest-line.png', image);
+    zip.addFile('META-INF/OLD.SF', Buffer.from('Signature-Version: 1.0\r\n'));
+    return zip;
+  };
+
+  it.each(['RSA', 'EC'] as const)('writes v1 signatures that verify with an %s key', (keyAlgorithm) => {
+    const key = keys[keyAlgorithm];
+    const apk = new AdmZip(signer.sign(createZip(), key, { minSdk: 24, v2: false, v3: false }));
+    const entries = apk.getEntries().map(entry => entry.entryName);
+
+    expect(entries).not.toContain('META-INF/OLD.SF');
+    const manifestData = apk.getEntry('META-INF/MANIFEST.MF')!.getData();
+    const [main, ...manifest] = readManifest(manifestData);
+    expect(manifest.map(section => section.attributes.Name))
+      .toEqual(entries.filter(name => !name.startsWith('META-INF/')).sort());
+    for (const section of manifest) {
+      expect(section.attributes['SHA-256-Digest']).toBe(sha256(apk.getEntry(section.attributes.Name)!.getData()));
+    }
+
+    const signatureFile = apk.getEntry('META-INF/CERT.SF')!.getData();
+    const [signatureMain, ...signatureSections] = readManifest(signatureFile);
+    expect(signatureMain.attributes['SHA-256-Digest-Manifest']).toBe(sha256(manifestData));
+    expect(signatureMain.attributes['SHA-256-Digest-Manifest-Main-Attributes']).toBe(sha256(main.raw));
+    expect(signatureMain.attributes['X-Android-APK-Signed']).toBeUndefined();
+    expect(signatureSections.map(section => section.attributes['SHA-256-Digest'])).toEqual(manifest.map(section => sha256(section.raw)));
+
+    // ContentInfo > [0] SignedData > certificates and the one SignerInfo's signature over CERT.SF
+    const block = apk.getEntry(`META-INF/CERT.${keyAlgorithm}`)!.getData();
+    const contentInfo = forge.asn1.fromDer(forge.util.createBuffer(block.toString('binary')));
+    const signedData = ((contentInfo.value as forge.asn1.Asn1[])[1].value as forge.asn1.Asn1[])[0].value as forge.asn1.Asn1[];
+    const certificate = (signedData[3].value as forge.asn1.Asn1[])[0];
+    const signerInfo = (signedData[4].value as forge.asn1.Asn1[])[0].value as forge.asn1.Asn1[];
+    const signature = Buffer.from(signerInfo[4].value as string, 'binary');
+
+    expect(Buffer.from(forge.asn1.toDer(certificate).getBytes(), 'binary')).toEqual(key.certificates[0]);
+    expect(crypto.verify('sha256', signatureFile, new crypto.X509Certificate(key.certificates[0]).publicKey, signature)).toBe(true);
+  });
+
+  it.each(['RSA', 'EC'] as const)('writes v2 and v3 signatures that verify with an %s key', (keyAlgorithm) => {
+    const key = keys[keyAlgorithm];
+    const apk = signer.sign(createZip(), key, { minSdk: 24 });
+
+    const { start, pairs } = readSigningBlock(apk);
+    const digest = contentDigest(apk, start);
+    const v2 = verifySigner(pairs.get(V2_BLOCK_ID)!, false);
+    const v3 = verifySigner(pairs.get(V3_BLOCK_ID)!, true);
+
+    for (const scheme of [v2, v3]) {
+      expect(scheme.algorithm).toBe(keyAlgorithm === 'RSA' ? 0x0103 : 0x0201);
+      expect(scheme.digest).toEqual(digest);
+      expect(scheme.certificates).toEqual(key.certificates);
+    }
+    expect(v3.sdkRange).toEqual([24, 0x7fffffff]);
+    expect(v2.attributes.get(STRIPPING_PROTECTION_ATTR_ID)?.readUInt32LE(0)).toBe(3);
+
+    const signatureFile = new AdmZip(apk).getEntry('META-INF/CERT.SF')!.getData().toString('utf8');
+    expect(signatureFile).toContain('X-Android-APK-Signed: 2, 3\r\n');
+  });
+
+  it('writes only the requested schemes', () => {
+    const apk = signer.sign(createZip(), keys.EC, { minSdk: 28, v1: false, v3: false });
+
+    const { pairs } = readSigningBlock(apk);
+    expect(Array.from(pairs.keys())).toEqual([V2_BLOCK_ID]);
+    expect(verifySigner(pairs.get(V2_BLOCK_ID)!, false).attributes.size).toBe(0);
+    expect(new AdmZip(apk).getEntries().map(entry => entry.entryName).filter(name => name.startsWith('META-INF/'))).toEqual([]);
+  });
+});
@@ -0,0 +1,274 @@
+import crypto from 'crypto';
+import AdmZip from 'adm-zip';
+import forge from 'node-forge';
+import { SigningKey } from './keystoreParser';
+import { ApkZipWriter } from './apkZipWriter';
+
+export interface SigningOptions {
+  minSdk: number;
+  v1?: boolean;
+  v2?: boolean;
+  v3?: boolean;
+}
+
+const CREATED_BY = '1.0 (Mobile APK Converter)';
+
+// APK Signature Scheme v2/v3 constants, see https://source.android.com/docs/security/features/apksigning
+const APK_SIG_BLOCK_MAGIC = Buffer.from('APK Sig Block 42', 'ascii');
+const V2_BLOCK_ID = 0x7109871a;
+const V3_BLOCK_ID = 0xf05368c0;
+const STRIPPING_PROTECTION_ATTR_ID = 0xbeeff00d;
+const SIG_RSA_PKCS1_V1_5_SHA256 = 0x0103;
+const SIG_ECDSA_SHA256 = 0x0201;
+const CHUNK_SIZE = 1024 * 1024;
+
+const EOCD_SIGNATURE = 0x06054b50;
+const EOCD_MIN_SIZE = 22;
+
+const OID_SIGNED_DATA = '1.2.840.113549.1.7.2';
+const OID_DATA = '1.2.840.113549.1.7.1';
+const OID_SHA256 = '2.16.840.1.101.3.4.2.1';
+const OID_RSA_ENCRYPTION = '1.2.840.113549.1.1.1';
+const OID_EC_PUBLIC_KEY = '1.2.840.10045.2.1';
+
+export class ApkSigner {
+  private zipWriter = new ApkZipWriter();
+
+  // Signs the zip in place with JAR (v1) signatures and returns the final, aligned APK bytes with a v2/v3 signing block
+  sign(zip: AdmZip, key: SigningKey, options: SigningOptions): Buffer {
+    const { v1 = true, v2 = true, v3 = true } = options;
+
+    // Drop signatures left over from a previous build or shipped in the upload
+    zip.getEntries()
+      .map(entry => entry.entryName)
+      .filter(name => /^META-INF\/(MANIFEST\.MF|[^/]+\.(SF|RSA|DSA|EC))$/i.test(name))
+      .forEach(name => zip.deleteFile(name));
+
+    if (v1) {
+      this.addJarSignature(zip, key, v2 || v3 ? [v2 && 2, v3 && 3].filter(Boolean).join(', ') : undefined);
+    }
+
+    // Alignment has to happen before the v2/v3 digests are taken, they cover the exact bytes
+    const unsigned = this.zipWriter.write(zip);
+    if (!v2 && !v3) {
+      return unsigned;
+    }
+    return this.addSigningBlock(unsigned, key, options.minSdk, v2, v3);
+  }
+
+  // v1: META-INF/MANIFEST.MF, CERT.SF and a PKCS#7 signature block over CERT.SF
+  private addJarSignature(zip: AdmZip, key: SigningKey, apkSignedSchemes?: string): void {
+    const entries = zip.getEntries()
+      .filter(entry => !entry.isDirectory)
+      .sort((a, b) => a.entryName.localeCompare(b.entryName));
+
+    const mainSection = this.manifestSection([
+      ['Manifest-Version', '1.0'],
+      ['Created-By', CREATED_BY],
+    ]);
+    const entrySections = entries.map(entry => ({
+      name: entry.entryName,
+      section: this.manifestSection([
+        ['Name', entry.entryName],
+        ['SHA-256-Digest', this.sha256(entry.getData()).toString('base64')],
+      ]),
+    }));
+    const manifest = Buffer.concat([mainSection, ...entrySections.map(e => e.section)]);
+
+    const signatureFileAttributes: Array<[string, string]> = [
+      ['Signature-Version', '1.0'],
+      ['Created-By', CREATED_BY],
+      ['SHA-256-Digest-Manifest', this.sha256(manifest).toString('base64')],
+      ['SHA-256-Digest-Manifest-Main-Attributes', this.sha256(mainSection).toString('base64')],
+    ];
+    if (apkSignedSchemes) {
+      // Tells v2+ aware platforms to reject the APK if the newer signatures were stripped
+      signatureFileAttributes.push(['X-Android-APK-Signed', apkSignedSchemes]);
+    }
+    const signatureFile = Buffer.concat([
+      this.manifestSection(signatureFileAttributes),
+      ...entrySections.map(e => this.manifestSection([
+        ['Name', e.name],
+        ['SHA-256-Digest', this.sha256(e.section).toString('base64')],
+      ])),
+    ]);
+
+    const blockExtension = key.keyAlgorithm === 'RSA' ? 'RSA' : 'EC';
+    zip.addFile('META-INF/MANIFEST.MF', manifest);
+    zip.addFile('META-INF/CERT.SF', signatureFile);
+    zip.addFile(`META-INF/CERT.${blockExtension}`, this.createPkcs7SignatureBlock(signatureFile, key));
+  }
+
+  // Writes manifest attributes, wrapping lines at 72 bytes as the JAR spec requires
+  private manifestSection(attributes: Array<[string, string]>): Buffer {
+    const lines: Buffer[] = [];
+    for (const [name, value] of attributes) {
+      const line = Buffer.from(`${name}: ${value}`, 'utf8');
+      lines.push(line.subarray(0, 72));
+      for (let offset = 72; offset < line.length; offset += 71) {
+        lines.push(Buffer.concat([Buffer.from(' '), line.subarray(offset, offset + 71)]));
+      }
+    }
+    return Buffer.concat([...lines.flatMap(line => [line, Buffer.from('\r\n')]), Buffer.from('\r\n')]);
+  }
+
+  private createPkcs7SignatureBlock(content: Buffer, key: SigningKey): Buffer {
+    const { asn1 } = forge;
+    const signerCert = this.toAsn1(key.certificates[0]);
+    const tbs = (signerCert.value as forge.asn1.Asn1[])[0].value as forge.asn1.Asn1[];
+    // tbsCertificate starts with an optional [0] version, followed by serialNumber, signature, issuer
+    const fieldOffset = tbs[0].tagClass === asn1.Class.CONTEXT_SPECIFIC ? 1 : 0;
+    const serialNumber = tbs[fieldOffset];
+    const issuer = tbs[fieldOffset + 2];
+
+    const algorithm = (oid: string, withNullParams: boolean) => asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(oid).getBytes()),
+      ...(withNullParams ? [asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, '')] : []),
+    ]);
+    const integer = (value: number) => asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false,
+      asn1.integerToDer(value).getBytes());
+
+    const signature = crypto.sign('sha256', content, key.privateKey);
+    const signerInfo = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      integer(1),
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [issuer, serialNumber]),
+      algorithm(OID_SHA256, true),
+      key.keyAlgorithm === 'RSA' ? algorithm(OID_RSA_ENCRYPTION, true) : algorithm(OID_EC_PUBLIC_KEY, false),
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, signature.toString('binary')),
+    ]);
+
+    const signedData = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      integer(1),
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, [algorithm(OID_SHA256, true)]),
+      // Detached signature: the signed content is CERT.SF itself
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(OID_DATA).getBytes()),
+      ]),
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, key.certificates.map(der => this.toAsn1(der))),
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, [signerInfo]),
+    ]);
+
+    const contentInfo = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(OID_SIGNED_DATA).getBytes()),
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [signedData]),
+    ]);
+    return Buffer.from(asn1.toDer(contentInfo).getBytes(), 'binary');
+  }
+
+  // v2/v3: inserts an APK Signing Block between the zip entries and the central directory
+  private addSigningBlock(apk: Buffer, key: SigningKey, minSdk: number, v2: boolean, v3: boolean): Buffer {
+    const eocdOffset = this.findEndOfCentralDirectory(apk);
+    const centralDirSize = apk.readUInt32LE(eocdOffset + 12);
+    const centralDirOffset = apk.readUInt32LE(eocdOffset + 16);
+    if (centralDirOffset + centralDirSize !== eocdOffset) {
+      throw new Error('Unexpected data between central directory and end of central directory record');
+    }
+
+    const contents = apk.subarray(0, centralDirOffset);
+    const centralDir = apk.subarray(centralDirOffset, eocdOffset);
+    const eocd = apk.subarray(eocdOffset);
+    // The EOCD already points at centralDirOffset, which is where the signing block will start
+    const digest = this.computeContentDigest([contents, centralDir, eocd]);
+
+    const pairs: Buffer[] = [];
+    if (v2) {
+      const attributes = v3 ? [this.attribute(STRIPPING_PROTECTION_ATTR_ID, this.uint32(3))] : [];
+      pairs.push(this.idValuePair(V2_BLOCK_ID, this.createSignerBlock(key, digest, attributes)));
+    }
+    if (v3) {
+      pairs.push(this.idValuePair(V3_BLOCK_ID, this.createSignerBlock(key, digest, [], { minSdk, maxSdk: 0x7fffffff })));
+    }
+
+    const pairsData = Buffer.concat(pairs);
+    const blockSize = this.uint64(pairsData.length + 8 + APK_SIG_BLOCK_MAGIC.length);
+    const signingBlock = Buffer.concat([blockSize, pairsData, blockSize, APK_SIG_BLOCK_MAGIC]);
+
+    const updatedEocd = Buffer.from(eocd);
+    updatedEocd.writeUInt32LE(centralDirOffset + signingBlock.length, 16);
+    return Buffer.concat([contents, signingBlock, centralDir, updatedEocd]);
+  }
+
+  private createSignerBlock(key: SigningKey, digest: Buffer, attributes: Buffer[], v3Sdk?: { minSdk: number; maxSdk: number }): Buffer {
+    const algorithmId = key.keyAlgorithm === 'RSA' ? SIG_RSA_PKCS1_V1_5_SHA256 : SIG_ECDSA_SHA256;
+    const sdkRange = v3Sdk ? [this.uint32(v3Sdk.minSdk), this.uint32(v3Sdk.maxSdk)] : [];
+
+    const signedData = Buffer.concat([
+      this.lengthPrefixed(this.lengthPrefixed(Buffer.concat([this.uint32(algorithmId), this.lengthPrefixed(digest)]))),
+      this.lengthPrefixed(Buffer.concat(key.certificates.map(der => this.lengthPrefixed(der)))),
+      ...sdkRange,
+      this.lengthPrefixed(Buffer.concat(attributes.map(attribute => this.lengthPrefixed(attribute)))),
+    ]);
+    const signature = crypto.sign('sha256', signedData, key.privateKey);
+    const publicKey = crypto.createPublicKey(key.privateKey).export({ type: 'spki', format: 'der' });
+
+    const signer = Buffer.concat([
+      this.lengthPrefixed(signedData),
+      ...sdkRange,
+      this.lengthPrefixed(this.lengthPrefixed(Buffer.concat([this.uint32(algorithmId), this.lengthPrefixed(signature)]))),
+      this.lengthPrefixed(publicKey),
+    ]);
+    return this.lengthPrefixed(this.lengthPrefixed(signer));
+  }
+
+  // Chunked SHA-256 digest over the zip contents, central directory and EOCD
+  private computeContentDigest(sections: Buffer[]): Buffer {
+    const chunkDigests: Buffer[] = [];
+    for (const section of sections) {
+      for (let offset = 0; offset < section.length; offset += CHUNK_SIZE) {
+        const chunk = section.subarray(offset, offset + CHUNK_SIZE);
+        chunkDigests.push(crypto.createHash('sha256')
+          .update(Buffer.from([0xa5]))
+          .update(this.uint32(chunk.length))
+          .update(chunk)
+          .digest());
+      }
+    }
+    return crypto.createHash('sha256')
+      .update(Buffer.from([0x5a]))
+      .update(this.uint32(chunkDigests.length))
+      .update(Buffer.concat(chunkDigests))
+      .digest();
+  }
+
+  private findEndOfCentralDirectory(apk: Buffer): number {
+    const lowestOffset = Math.max(0, apk.length - EOCD_MIN_SIZE - 0xffff);
+    for (let offset = apk.length - EOCD_MIN_SIZE; offset >= lowestOffset; offset--) {
+      if (apk.readUInt32LE(offset) === EOCD_SIGNATURE && offset + EOCD_MIN_SIZE + apk.readUInt16LE(offset + 20) === apk.length) {
+        return offset;
+      }
+    }
+    throw new Error('Not a valid zip archive: end of central directory not found');
+  }
+
+  private attribute(id: number, value: Buffer): Buffer {
+    return Buffer.concat([this.uint32(id), value]);
+  }
+
+  private idValuePair(id: number, value: Buffer): Buffer {
+    return Buffer.concat([this.uint64(value.length + 4), this.uint32(id), value]);
+  }
+
+  private lengthPrefixed(data: Buffer): Buffer {
+    return Buffer.concat([this.uint32(data.length), data]);
+  }
+
+  private uint32(value: number): Buffer {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32LE(value >>> 0);
+    return buffer;
+  }
+
+  private uint64(value: number): Buffer {
+    const buffer = Buffer.alloc(8);
+    buffer.writeBigUInt64LE(BigInt(value));
+    return buffer;
+  }
+
+  private sha256(data: Buffer): Buffer {
+    return crypto.createHash('sha256').update(data).digest();
+  }
+
+  private toAsn1(der: Buffer): forge.asn1.Asn1 {
+    return forge.asn1.fromDer(forge.util.createBuffer(der.toString('binary')));
+  }
+}
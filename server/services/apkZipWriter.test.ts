@@ -0,0 +1,95 @@
+import zlib from 'zlib';
+import AdmZip from 'adm-zip';
+import { describe, expect, it } from 'vitest';
+import { ApkZipWriter } from './apkZipWriter';
+import { crc32 } from './crc32';
+
+interface LocalEntry {
+  name: string;
+  method: number;
+  crc: number;
+  dataOffset: number;
+  data: Buffer;
+}
+
+// Walks the central directory and reads every entry's local header, as the platform's zip reader does
+function readEntries(apk: Buffer): LocalEntry[] {
+  const eocd = apk.length - 22;
+  expect(apk.readUInt32LE(eocd)).toBe(0x06054b50);
+  const count = apk.readUInt16LE(eocd + 10);
+  let at = apk.readUInt32LE(eocd + 16);
+
+  const entries: LocalEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(apk.readUInt32LE(at)).toBe(0x02014b50);
+    const nameLength = apk.readUInt16LE(at + 28);
+    const name = apk.toString('utf8', at + 46, at + 46 + nameLength);
+    const compressedSize = apk.readUInt32LE(at + 20);
+    const localOffset = apk.readUInt32LE(at + 42);
+
+    expect(apk.readUInt32LE(localOffset)).toBe(0x04034b50);
+    const dataOffset = localOffset + 30 + apk.readUInt16LE(localOffset + 26) + apk.readUInt16LE(localOffset + 28);
+    entries.push({
+      name,
+      method: apk.readUInt16LE(localOffset + 8),
+      crc: apk.readUInt32LE(localOffset + 14),
+      dataOffset,
+      data: apk.subarray(dataOffset, dataOffset + compressedSize),
+    });
+    at += 46 + nameLength + apk.readUInt16LE(at + 30) + apk.readUInt16LE(at + 32);
+  }
+  return entries;
+}
+
+describe('ApkZipWriter', () => {
+  const text = Buffer.from('<html>'.repeat(200));
+  const files: Array<[string, Buffer]> = [
+    ['AndroidManifest.xml', text],
+    ['resources.arsc', text],
+    ['classes.dex', Buffer.from('dex\n035\0')],
+    ['res/mipmap-hdpi/ic_launcher.png', text],
+    ['lib/arm64-v8a/libapp.so', text],
+    ['assets/public/index.html', text],
+  ];
+
+  const write = () => {
+    const zip = new AdmZip();
+    files.forEach(([name, data]) => zip.addFile(name, data));
+    return new ApkZipWriter().write(zip);
+  };
+
+  it('aligns stored data to 4 bytes and native libraries to pages', () => {
+    for (const entry of readEntries(write())) {
+      expect(entry.dataOffset % (entry.name.endsWith('.so') ? 4096 : 4), entry.name).toBe(0);
+    }
+  });
+
+  it('stores resources.arsc, native libraries and compressed formats', () => {
+    const methods = Object.fromEntries(readEntries(write()).map(entry => [entry.name, entry.method]));
+
+    expect(methods).toEqual({
+      'AndroidManifest.xml': 8,
+      'resources.arsc': 0,
+      // Deflating gains nothing on 8 bytes, so it is stored
+      'classes.dex': 0,
+      'res/mipmap-hdpi/ic_launcher.png': 0,
+      'lib/arm64-v8a/libapp.so': 0,
+      'assets/public/index.html': 8,
+    });
+  });
+
+  it('writes entries that read back with matching checksums', () => {
+    const apk = write();
+
+    for (const entry of readEntries(apk)) {
+      const data = entry.method === 8 ? zlib.inflateRawSync(entry.data) : entry.data;
+      expect(crc32(data), entry.name).toBe(entry.crc);
+    }
+    const reread = new AdmZip(apk);
+    expect(reread.getEntries().map(entry => [entry.entryName, entry.getData()])).toEqual(files);
+  });
+
+  it('gives identical output for identical input', () => {
+    expect(write().equals(write())).toBe(true);
+  });
+});
@@ -0,0 +1,128 @@
+import zlib from 'zlib';
+import AdmZip from 'adm-zip';
+import { crc32 } from './crc32';
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const EOCD_SIGNATURE = 0x06054b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const UTF8_NAME_FLAG = 0x0800;
+// Extra field apksigner and zipalign use to pad local headers, followed by the alignment in use
+const ALIGNMENT_EXTRA_ID = 0xd935;
+const ALIGNMENT_EXTRA_MIN_SIZE = 6;
+// Fixed 2008-01-01 00:00 timestamp, as the platform build uses, so identical inputs give identical APKs
+const DOS_DATE = ((2008 - 1980) << 9) | (1 << 5) | 1;
+const DOS_TIME = 0;
+
+const PAGE_ALIGNMENT = 4096;
+const DEFAULT_ALIGNMENT = 4;
+
+// Formats that are compressed already, aapt stores them as-is
+const NO_COMPRESS_EXTENSIONS = [
+  '.png', '.jpg', '.jpeg', '.gif', '.webp', '.wav', '.mp3', '.ogg', '.aac', '.mp4', '.m4a', '.webm', '.mkv', '.zip', '.jar',
+];
+
+interface WrittenEntry {
+  name: Buffer;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+// Serializes an APK the way zipalign leaves it: resources.arsc and native libraries stored uncompressed
+// (Android 11+ maps both straight from the file), .so data page-aligned and every other entry 4-byte aligned
+export class ApkZipWriter {
+  write(zip: AdmZip): Buffer {
+    const parts: Buffer[] = [];
+    const written: WrittenEntry[] = [];
+    let offset = 0;
+
+    for (const entry of zip.getEntries()) {
+      if (entry.isDirectory) continue;
+
+      const name = Buffer.from(entry.entryName, 'utf8');
+      const data = entry.getData();
+      const deflated = this.shouldStore(entry.entryName) ? null : zlib.deflateRawSync(data, { level: 9 });
+      const method = deflated && deflated.length < data.length ? METHOD_DEFLATED : METHOD_STORED;
+      const stored = method === METHOD_DEFLATED ? deflated! : data;
+      if (offset > 0xffffffff || stored.length > 0xffffffff) {
+        throw new Error(`APK is too large for a zip without zip64 at ${entry.entryName}`);
+      }
+
+      const alignment = entry.entryName.endsWith('.so') ? PAGE_ALIGNMENT : DEFAULT_ALIGNMENT;
+      const extra = this.alignmentExtra(offset + 30 + name.length, alignment);
+      const record: WrittenEntry = {
+        name,
+        method,
+        crc: crc32(data),
+        compressedSize: stored.length,
+        size: data.length,
+        offset,
+      };
+
+      const header = Buffer.alloc(30);
+      header.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+      this.writeEntryFields(header, 4, record);
+      header.writeUInt16LE(name.length, 26);
+      header.writeUInt16LE(extra.length, 28);
+
+      parts.push(header, name, extra, stored);
+      written.push(record);
+      offset += header.length + name.length + extra.length + stored.length;
+    }
+
+    const centralDirectoryOffset = offset;
+    for (const record of written) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+      header.writeUInt16LE(20, 4); // version made by
+      this.writeEntryFields(header, 6, record);
+      header.writeUInt16LE(record.name.length, 28);
+      header.writeUInt32LE(record.offset, 42);
+      parts.push(header, record.name);
+      offset += header.length + record.name.length;
+    }
+
+    const eocd = Buffer.alloc(22);
+    eocd.writeUInt32LE(EOCD_SIGNATURE, 0);
+    eocd.writeUInt16LE(written.length, 8);
+    eocd.writeUInt16LE(written.length, 10);
+    eocd.writeUInt32LE(offset - centralDirectoryOffset, 12);
+    eocd.writeUInt32LE(centralDirectoryOffset, 16);
+    parts.push(eocd);
+
+    return Buffer.concat(parts);
+  }
+
+  private shouldStore(name: string): boolean {
+    const lower = name.toLowerCase();
+    return lower === 'resources.arsc'
+      || (lower.startsWith('lib/') && lower.endsWith('.so'))
+      || NO_COMPRESS_EXTENSIONS.some(extension => lower.endsWith(extension));
+  }
+
+  // Pads the local header so the entry data starting at dataOffset + extra lands on the alignment
+  private alignmentExtra(dataOffset: number, alignment: number): Buffer {
+    const padding = (alignment - ((dataOffset + ALIGNMENT_EXTRA_MIN_SIZE) % alignment)) % alignment;
+    const extra = Buffer.alloc(ALIGNMENT_EXTRA_MIN_SIZE + padding);
+    extra.writeUInt16LE(ALIGNMENT_EXTRA_ID, 0);
+    extra.writeUInt16LE(extra.length - 4, 2);
+    extra.writeUInt16LE(alignment, 4);
+    return extra;
+  }
+
+  // Fields shared by local and central headers, from "version needed" to the uncompressed size
+  private writeEntryFields(header: Buffer, at: number, record: WrittenEntry) {
+    header.writeUInt16LE(record.method === METHOD_DEFLATED ? 20 : 10, at);
+    header.writeUInt16LE(/^[\x00-\x7f]*$/.test(record.name.toString('utf8')) ? 0 : UTF8_NAME_FLAG, at + 2);
+    header.writeUInt16LE(record.method, at + 4);
+    header.writeUInt16LE(DOS_TIME, at + 6);
+    header.writeUInt16LE(DOS_DATE, at + 8);
+    header.writeUInt32LE(record.crc, at + 10);
+    header.writeUInt32LE(record.compressedSize, at + 14);
+    header.writeUInt32LE(record.size, at + 18);
+  }
+}
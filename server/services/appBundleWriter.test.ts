@@ -0,0 +1,110 @@
+import AdmZip from 'adm-zip';
+import { describe, expect, it } from 'vitest';
+import { AppBundleWriter } from './appBundleWriter';
+import { ResourceTable } from './resourceTable';
+
+type ProtoField = number | Buffer;
+
+// Decodes one message level into its fields: varints as numbers, length-delimited values as bytes
+function readProto(data: Buffer): Map<number, ProtoField[]> {
+  const fields = new Map<number, ProtoField[]>();
+  let at = 0;
+  const varint = () => {
+    let value = 0;
+    for (let shift = 0; ; shift += 7) {
+      const byte = data[at++];
+      value += (byte & 0x7f) * 2 ** shift;
+      if (!(byte & 0x80)) return value;
+    }
+  };
+
+  while (at < data.length) {
+    const tag = varint();
+    let value: ProtoField;
+    if ((tag & 7) === 0) {
+      value = varint();
+    } else if ((tag & 7) === 2) {
+      const length = varint();
+      value = data.subarray(at, at + length);
+      at += length;
+    } else {
+      expect(tag & 7).toBe(5);
+      value = data.readUInt32LE(at);
+      at += 4;
+    }
+    const field = Math.floor(tag / 8);
+    fields.set(field, [...(fields.get(field) ?? []), value]);
+  }
+  return fields;
+}
+
+const message = (data: ProtoField | undefined) => readProto(data as Buffer);
+const text = (data: ProtoField | undefined) => (data as Buffer).toString('utf8');
+
+describe('AppBundleWriter', () => {
+  const createBundle = () => {
+    const resources = new ResourceTable('com.acme.app');
+    resources.addString('app_name', 'Acme');
+    resources.addFile('xml', 'network_security_config', 'res/xml/network_security_config.xml');
+
+    const files = new AdmZip();
+    files.addFile('classes.dex', Buffer.from('dex\n035\0'));
+    files.addFile('classes2.dex', Buffer.from('dex\n035\0'));
+    files.addFile('assets/public/index.html', Buffer.from('<html></html>'));
+    files.addFile('lib/arm64-v8a/libapp.so', Buffer.from('ELF'));
+    files.addFile('kotlin/kotlin.kotlin_builtins', Buffer.from('builtins'));
+
+    return new AdmZip(new AppBundleWriter().write({
+      manifest: '<manifest xmlns:android="http://schemas.android.com/apk/res/android" package="com.acme.app">'
+        + '<application android:label="@string/app_name"/></manifest>',
+      resources,
+      xmlResources: [['res/xml/network_security_config.xml', '<network-security-config/>']],
+      files,
+    }));
+  };
+
+  it('lays the module out the way bundletool expects', () => {
+    expect(createBundle().getEntries().map(entry => entry.entryName)).toEqual([
+      'BundleConfig.pb',
+      'base/manifest/AndroidManifest.xml',
+      'base/resources.pb',
+      'base/dex/classes.dex',
+      'base/dex/classes2.dex',
+      'base/assets/public/index.html',
+      'base/lib/arm64-v8a/libapp.so',
+      'base/root/kotlin/kotlin.kotlin_builtins',
+      'base/res/xml/network_security_config.xml',
+    ]);
+  });
+
+  it('writes the bundletool version and split dimensions to BundleConfig.pb', () => {
+    const config = readProto(createBundle().getEntry('BundleConfig.pb')!.getData());
+
+    expect(text(message(config.get(1)![0]).get(2)![0])).toBe('1.15.6');
+    const splitDimensions = message(message(config.get(2)![0]).get(1)![0]).get(1)!;
+    expect(splitDimensions.map(dimension => message(dimension).get(1)![0])).toEqual([1, 2, 3]);
+  });
+
+  it('writes the manifest as proto XML with resolved references', () => {
+    const manifest = readProto(createBundle().getEntry('base/manifest/AndroidManifest.xml')!.getData());
+    const element = message(manifest.get(1)![0]);
+
+    expect(text(element.get(3)![0])).toBe('manifest');
+    expect(text(message(element.get(1)![0]).get(2)![0])).toBe('http://schemas.android.com/apk/res/android');
+
+    const application = message(message(element.get(5)![0]).get(1)![0]);
+    const label = message(application.get(4)![0]);
+    expect(text(application.get(3)![0])).toBe('application');
+    expect(text(label.get(2)![0])).toBe('label');
+    expect(label.get(5)).toEqual([0x01010001]);
+  });
+
+  it('writes the resource table as resources.pb', () => {
+    const table = readProto(createBundle().getEntry('base/resources.pb')!.getData());
+    const resourcePackage = message(table.get(2)![0]);
+
+    expect(message(resourcePackage.get(1)![0]).get(1)).toEqual([0x7f]);
+    expect(text(resourcePackage.get(2)![0])).toBe('com.acme.app');
+    expect(resourcePackage.get(3)!.map(type => text(message(type).get(2)![0]))).toEqual(['string', 'xml']);
+  });
+});
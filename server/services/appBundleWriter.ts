@@ -0,0 +1,63 @@
+import AdmZip from 'adm-zip';
+import { AxmlEncoder } from './axmlEncoder';
+import { ApkZipWriter } from './apkZipWriter';
+import { ProtoWriter } from './protobufWriter';
+import { ResourceTable } from './resourceTable';
+
+// An app's single (base) module. XML stays as source so each output format can compile it its own way.
+export interface AppModule {
+  manifest: string;
+  resources: ResourceTable;
+  // res/ XML files by path
+  xmlResources: Array<[string, string]>;
+  // classes.dex, assets/, lib/ and prebuilt res/ files at their APK paths
+  files: AdmZip;
+}
+
+// bundletool release the bundle layout below follows
+const BUNDLETOOL_VERSION = '1.15.6';
+// BundleConfig SplitDimension values Play generates configuration splits for
+const SPLIT_DIMENSIONS = { ABI: 1, SCREEN_DENSITY: 2, LANGUAGE: 3 };
+
+// Writes an Android App Bundle (.aab): BundleConfig.pb plus a base/ module holding the manifest and
+// res/ XML as proto XML, resources.pb instead of resources.arsc, and dex/, res/, assets/, lib/ and root/
+export class AppBundleWriter {
+  private axmlEncoder = new AxmlEncoder();
+  private zipWriter = new ApkZipWriter();
+
+  write(module: AppModule): Buffer {
+    const bundle = new AdmZip();
+    bundle.addFile('BundleConfig.pb', this.bundleConfig());
+    bundle.addFile('base/manifest/AndroidManifest.xml', this.axmlEncoder.encodeProto(module.manifest, module.resources.resolve));
+    bundle.addFile('base/resources.pb', module.resources.compileProto());
+
+    for (const entry of module.files.getEntries()) {
+      if (entry.isDirectory) continue;
+      bundle.addFile(this.modulePath(entry.entryName), entry.getData());
+    }
+    for (const [xmlPath, xml] of module.xmlResources) {
+      bundle.addFile(`base/${xmlPath}`, this.axmlEncoder.encodeProto(xml, module.resources.resolve));
+    }
+
+    return this.zipWriter.write(bundle);
+  }
+
+  // Dex files move to dex/, files outside assets/, res/ and lib/ are kept in root/
+  private modulePath(apkPath: string): string {
+    if (/^classes\d*\.dex$/.test(apkPath)) return `base/dex/${apkPath}`;
+    if (/^(assets|res|lib)\//.test(apkPath)) return `base/${apkPath}`;
+    return `base/root/${apkPath}`;
+  }
+
+  // BundleConfig: the bundletool version and the split dimensions, bundletool's defaults made explicit
+  private bundleConfig(): Buffer {
+    const splitsConfig = new ProtoWriter();
+    for (const dimension of Object.values(SPLIT_DIMENSIONS)) {
+      splitsConfig.message(1, new ProtoWriter().uint32(1, dimension));
+    }
+    return new ProtoWriter()
+      .message(1, new ProtoWriter().string(2, BUNDLETOOL_VERSION))
+      .message(2, new ProtoWriter().message(1, splitsConfig))
+      .finish();
+  }
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { ANDROID_NAMESPACE } from './androidFramework';
+import { AxmlEncoder } from './axmlEncoder';
+import { ChunkType, ResourceError, ValueType, type ResourceResolver } from './resourceChunks';
+
+const NO_INDEX = 0xffffffff;
+
+interface DecodedAttribute {
+  namespace?: string;
+  name: string;
+  resourceId?: number;
+  raw?: string;
+  dataType: number;
+  data: number;
+}
+
+interface DecodedElement {
+  namespace?: string;
+  name: string;
+  attributes: DecodedAttribute[];
+  children: Array<DecodedElement | string>;
+}
+
+// ResStringPool: offsets into UTF-8 (length in chars and bytes) or UTF-16 (length in units) strings
+function readStringPool(data: Buffer, at: number): string[] {
+  expect(data.readUInt16LE(at)).toBe(ChunkType.STRING_POOL);
+  const count = data.readUInt32LE(at + 8);
+  const utf8 = (data.readUInt32LE(at + 16) & 0x100) !== 0;
+  const stringsStart = at + data.readUInt32LE(at + 20);
+  const length = (position: number, wide: boolean): [number, number] => {
+    if (wide) {
+      const value = data.readUInt16LE(position);
+      return value & 0x8000 ? [((value & 0x7fff) << 16) | data.readUInt16LE(position + 2), 4] : [value, 2];
+    }
+    const value = data[position];
+    return value & 0x80 ? [((value & 0x7f) << 8) | data[position + 1], 2] : [value, 1];
+  };
+
+  return Array.from({ length: count }, (_, index) => {
+    let position = stringsStart + data.readUInt32LE(at + 28 + index * 4);
+    if (utf8) {
+      position += length(position, false)[1];
+      const [bytes, size] = length(position, false);
+      return data.toString('utf8', position + size, position + size + bytes);
+    }
+    const [units, size] = length(position, true);
+    return data.toString('utf16le', position + size, position + size + units * 2);
+  });
+}
+
+// Reads the element tree back out of binary XML, resolving names through the string pool and resource map
+function decodeAxml(data: Buffer): DecodedElement {
+  expect(data.readUInt16LE(0)).toBe(ChunkType.XML);
+  expect(data.readUInt32LE(4)).toBe(data.length);
+
+  let strings: string[] = [];
+  let resourceIds: number[] = [];
+  const string = (index: number) => (index === NO_INDEX ? undefined : strings[index]);
+  const stack: DecodedElement[] = [{ name: '', attributes: [], children: [] }];
+
+  for (let at = data.readUInt16LE(2); at < data.length; at += data.readUInt32LE(at + 4)) {
+    const type = data.readUInt16LE(at);
+    const body = at + data.readUInt16LE(at + 2);
+    if (type === ChunkType.STRING_POOL) {
+      strings = readStringPool(data, at);
+    } else if (type === ChunkType.XML_RESOURCE_MAP) {
+      resourceIds = Array.from({ length: (data.readUInt32LE(at + 4) - 8) / 4 }, (_, i) => data.readUInt32LE(body + i * 4));
+    } else if (type === ChunkType.XML_START_ELEMENT) {
+      const attributeStart = body + data.readUInt16LE(body + 8);
+      const attributes = Array.from({ length: data.readUInt16LE(body + 12) }, (_, i): DecodedAttribute => {
+        const attribute = attributeStart + i * data.readUInt16LE(body + 10);
+        const nameIndex = data.readUInt32LE(attribute + 4);
+        return {
+          namespace: string(data.readUInt32LE(attribute)),
+          name: strings[nameIndex],
+          resourceId: resourceIds[nameIndex],
+          raw: string(data.readUInt32LE(attribute + 8)),
+          dataType: data[attribute + 15],
+          data: data.readUInt32LE(attribute + 16),
+        };
+      });
+      const element = { namespace: string(data.readUInt32LE(body)), name: strings[data.readUInt32LE(body + 4)], attributes, children: [] };
+      stack[stack.length - 1].children.push(element);
+      stack.push(element);
+    } else if (type === ChunkType.XML_END_ELEMENT) {
+      expect(strings[data.readUInt32LE(body + 4)]).toBe(stack.pop()!.name);
+    } else if (type === ChunkType.XML_CDATA) {
+      stack[stack.length - 1].children.push(strings[data.readUInt32LE(body)]);
+    }
+  }
+
+  expect(stack).toHaveLength(1);
+  return stack[0].children[0] as DecodedElement;
+}
+
+describe('AxmlEncoder', () => {
+  const encoder = new AxmlEncoder();
+  const resolve: ResourceResolver = (reference) =>
+    (reference.type === 'string' && reference.name === 'app_name' ? 0x7f010000 : undefined);
+
+  const manifest = `<?xml version="1.0" encoding="utf-8"?>
+<manifest xmlns:android="http://schemas.android.com/apk/res/android" package="com.acme.app"
+    android:versionCode="42" android:versionName="2.1 &quot;beta&quot; R&amp;D">
+  <application android:label="@string/app_name" android:icon="@android:color/white">
+    <activity android:name=".MainActivity" android:screenOrientation="portrait" android:exported="true">
+      <meta-data android:name="note" android:value="héllo"/>
+    </activity>
+  </application>
+</manifest>`;
+
+  it('encodes elements, attributes and values that decode back to the source', () => {
+    const root = decodeAxml(encoder.encode(manifest, resolve));
+
+    expect(root.name).toBe('manifest');
+    expect(root.attributes).toEqual([
+      { namespace: ANDROID_NAMESPACE, name: 'versionCode', resourceId: 0x0101021b, raw: undefined, dataType: ValueType.INT_DEC, data: 42 },
+      { namespace: ANDROID_NAMESPACE, name: 'versionName', resourceId: 0x0101021c, raw: '2.1 "beta" R&D', dataType: ValueType.STRING, data: expect.any(Number) },
+      { namespace: undefined, name: 'package', resourceId: undefined, raw: 'com.acme.app', dataType: ValueType.STRING, data: expect.any(Number) },
+    ]);
+
+    const application = root.children[0] as DecodedElement;
+    expect(application.attributes.map(({ name, dataType, data }) => [name, dataType, data])).toEqual([
+      ['label', ValueType.REFERENCE, 0x7f010000],
+      ['icon', ValueType.REFERENCE, 0x0106000b],
+    ]);
+
+    const activity = application.children[0] as DecodedElement;
+    expect(activity.attributes.map(({ name, raw, dataType, data }) => [name, raw, dataType, data])).toEqual([
+      ['name', '.MainActivity', ValueType.STRING, expect.any(Number)],
+      ['exported', undefined, ValueType.INT_BOOLEAN, 0xffffffff],
+      ['screenOrientation', undefined, ValueType.INT_DEC, 1],
+    ]);
+    expect((activity.children[0] as DecodedElement).attributes.map(a => a.raw)).toEqual(['note', 'héllo']);
+  });
+
+  it('points string values at their raw string', () => {
+    const encoded = encoder.encode(manifest, resolve);
+    const strings = readStringPool(encoded, 8);
+
+    for (const attribute of decodeAxml(encoded).attributes.filter(a => a.dataType === ValueType.STRING)) {
+      expect(strings[attribute.data]).toBe(attribute.raw);
+    }
+  });
+
+  it('keeps text content', () => {
+    const root = decodeAxml(encoder.encode('<resources><string name="title">Hello &amp; welcome</string></resources>'));
+
+    expect(root.children).toEqual([
+      { namespace: undefined, name: 'string', attributes: [expect.objectContaining({ name: 'name', raw: 'title' })], children: ['Hello & welcome'] },
+    ]);
+  });
+
+  it('rejects unknown attributes, undeclared prefixes and unresolved references', () => {
+    const wrap = (attributes: string) => `<manifest xmlns:android="${ANDROID_NAMESPACE}"><application ${attributes}/></manifest>`;
+
+    expect(() => encoder.encode(wrap('android:colour="red"'))).toThrow(ResourceError);
+    expect(() => encoder.encode(wrap('tools:ignore="all"'))).toThrow(/Undeclared namespace prefix "tools"/);
+    expect(() => encoder.encode(wrap('android:label="@string/missing"'), resolve)).toThrow(ResourceError);
+  });
+});
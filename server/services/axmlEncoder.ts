@@ -0,0 +1,250 @@
+import { XmlParser, XmlElement, XmlNode, isXmlElement } from './xmlParser';
+import { ANDROID_NAMESPACE, ANDROID_ATTRIBUTES, resolveFrameworkResource } from './androidFramework';
+import {
+  ChunkType, ValueType, StringPool, ResValue, ResourceError, ResourceResolver,
+  writeChunk, encodeResValue, parseResValue,
+} from './resourceChunks';
+import { ProtoWriter } from './protobufWriter';
+import { encodeProtoItem } from './resourceProto';
+
+interface Namespace {
+  prefix: string;
+  uri: string;
+}
+
+interface EncodedAttribute {
+  namespace?: string;
+  name: string;
+  resourceId?: number;
+  rawValue?: string;
+  value: ResValue;
+  // The value as written in the source
+  text: string;
+}
+
+interface EncodedElement {
+  element: XmlElement;
+  namespace?: string;
+  name: string;
+  // Namespaces declared on this element
+  declared: Namespace[];
+  attributes: EncodedAttribute[];
+}
+
+const NO_INDEX = 0xffffffff;
+
+// Compiles XML (AndroidManifest.xml, res/ XML files) into Android's binary XML format,
+// or into the proto XML app bundles carry
+export class AxmlEncoder {
+  private parser = new XmlParser();
+
+  encode(xml: string | XmlElement, resolveResource: ResourceResolver = () => undefined): Buffer {
+    const { root, elements } = this.prepare(xml, resolveResource);
+
+    // Attribute names with resource ids come first in the pool, in resource map order
+    const pool = new StringPool();
+    const resourceIds = Array.from(new Set(elements.flatMap(e => e.attributes)
+      .filter(a => a.resourceId !== undefined)
+      .map(a => a.resourceId!))).sort((a, b) => a - b);
+    const idNameIndex = new Map<number, number>();
+    for (const id of resourceIds) {
+      const attribute = elements.flatMap(e => e.attributes).find(a => a.resourceId === id)!;
+      idNameIndex.set(id, pool.append(attribute.name));
+    }
+
+    const nodes: Buffer[] = [];
+    const byElement = new Map(elements.map(entry => [entry.element, entry]));
+    const writeNode = (node: XmlNode) => {
+      if (!isXmlElement(node)) {
+        if (node.text.trim()) {
+          const text = pool.add(node.text);
+          nodes.push(this.node(ChunkType.XML_CDATA, node.line, this.uint32(text),
+            encodeResValue({ dataType: ValueType.STRING, data: text })));
+        }
+        return;
+      }
+
+      const entry = byElement.get(node)!;
+      for (const namespace of entry.declared) {
+        nodes.push(this.node(ChunkType.XML_START_NAMESPACE, node.line,
+          this.uint32(pool.add(namespace.prefix)), this.uint32(pool.add(namespace.uri))));
+      }
+
+      const namespaceIndex = entry.namespace ? pool.add(entry.namespace) : NO_INDEX;
+      const nameIndex = pool.add(entry.name);
+      const attributes = entry.attributes.map(attribute => {
+        const buffer = Buffer.alloc(12);
+        buffer.writeUInt32LE(attribute.namespace ? pool.add(attribute.namespace) : NO_INDEX, 0);
+        buffer.writeUInt32LE(attribute.resourceId !== undefined ? idNameIndex.get(attribute.resourceId)! : pool.add(attribute.name), 4);
+        const raw = attribute.rawValue !== undefined ? pool.add(attribute.rawValue) : NO_INDEX;
+        buffer.writeUInt32LE(raw, 8);
+        const value = attribute.value.dataType === ValueType.STRING ? { ...attribute.value, data: raw } : attribute.value;
+        return Buffer.concat([buffer, encodeResValue(value)]);
+      });
+
+      const startElement = Buffer.alloc(20);
+      startElement.writeUInt32LE(namespaceIndex, 0);
+      startElement.writeUInt32LE(nameIndex, 4);
+      startElement.writeUInt16LE(20, 8); // attribute start
+      startElement.writeUInt16LE(20, 10); // attribute size
+      startElement.writeUInt16LE(attributes.length, 12);
+      startElement.writeUInt16LE(this.specialIndex(entry.attributes, ANDROID_NAMESPACE, 'id'), 14);
+      startElement.writeUInt16LE(this.specialIndex(entry.attributes, undefined, 'class'), 16);
+      startElement.writeUInt16LE(this.specialIndex(entry.attributes, undefined, 'style'), 18);
+      nodes.push(this.node(ChunkType.XML_START_ELEMENT, node.line, startElement, ...attributes));
+
+      node.children.forEach(writeNode);
+
+      nodes.push(this.node(ChunkType.XML_END_ELEMENT, node.line, this.uint32(namespaceIndex), this.uint32(nameIndex)));
+      for (const namespace of [...entry.declared].reverse()) {
+        nodes.push(this.node(ChunkType.XML_END_NAMESPACE, node.line,
+          this.uint32(pool.add(namespace.prefix)), this.uint32(pool.add(namespace.uri))));
+      }
+    };
+    writeNode(root);
+
+    const resourceMap = Buffer.alloc(resourceIds.length * 4);
+    resourceIds.forEach((id, index) => resourceMap.writeUInt32LE(id, index * 4));
+
+    return writeChunk(ChunkType.XML, Buffer.alloc(0),
+      pool.encode(false),
+      writeChunk(ChunkType.XML_RESOURCE_MAP, Buffer.alloc(0), resourceMap),
+      ...nodes);
+  }
+
+  // aapt2's XmlNode message, with the same attribute values and ordering as the binary form
+  encodeProto(xml: string | XmlElement, resolveResource: ResourceResolver = () => undefined): Buffer {
+    const { root, elements } = this.prepare(xml, resolveResource);
+    const byElement = new Map(elements.map(entry => [entry.element, entry]));
+
+    const encodeNode = (node: XmlNode): ProtoWriter | undefined => {
+      const source = new ProtoWriter().uint32(1, node.line);
+      if (!isXmlElement(node)) {
+        return node.text.trim() ? new ProtoWriter().string(2, node.text).message(3, source) : undefined;
+      }
+
+      const entry = byElement.get(node)!;
+      const element = new ProtoWriter();
+      for (const namespace of entry.declared) {
+        element.message(1, new ProtoWriter().string(1, namespace.prefix).string(2, namespace.uri).message(3, source));
+      }
+      if (entry.namespace) element.string(2, entry.namespace);
+      element.string(3, entry.name);
+
+      for (const attribute of entry.attributes) {
+        const encoded = new ProtoWriter();
+        if (attribute.namespace) encoded.string(1, attribute.namespace);
+        encoded.string(2, attribute.name).string(3, attribute.text).message(4, source);
+        if (attribute.resourceId !== undefined) encoded.uint32(5, attribute.resourceId);
+        // Values kept as raw strings are left uncompiled, as aapt2 does
+        if (attribute.rawValue === undefined) encoded.message(6, encodeProtoItem(attribute.value, attribute.text));
+        element.message(4, encoded);
+      }
+
+      for (const child of node.children) {
+        const encodedChild = encodeNode(child);
+        if (encodedChild) element.message(5, encodedChild);
+      }
+      return new ProtoWriter().message(1, element).message(3, source);
+    };
+    return encodeNode(root)!.finish();
+  }
+
+  private prepare(xml: string | XmlElement, resolveResource: ResourceResolver): { root: XmlElement; elements: EncodedElement[] } {
+    const root = typeof xml === 'string' ? this.parser.parse(xml) : xml;
+    const resolve: ResourceResolver = (reference) => reference.package === 'android'
+      ? resolveFrameworkResource(reference)
+      : resolveResource(reference);
+
+    const elements: EncodedElement[] = [];
+    this.collect(root, [], resolve, elements);
+    return { root, elements };
+  }
+
+  // Resolves namespaces and attribute values for the element tree, depth first
+  private collect(element: XmlElement, scope: Namespace[], resolve: ResourceResolver, out: EncodedElement[]) {
+    const declared: Namespace[] = element.attributes
+      .filter(a => a.name.startsWith('xmlns:'))
+      .map(a => ({ prefix: a.name.substring(6), uri: a.value }));
+    const namespaces = [...declared, ...scope];
+    const lookup = (prefix: string) => {
+      const namespace = namespaces.find(n => n.prefix === prefix);
+      if (!namespace) {
+        throw new ResourceError(`Undeclared namespace prefix "${prefix}" on <${element.name}> (line ${element.line})`);
+      }
+      return namespace.uri;
+    };
+
+    const [elementPrefix, elementName] = this.splitName(element.name);
+    const attributes = element.attributes
+      .filter(a => a.name !== 'xmlns' && !a.name.startsWith('xmlns:'))
+      .map(a => {
+        const [prefix, name] = this.splitName(a.name);
+        const namespace = prefix ? lookup(prefix) : undefined;
+        try {
+          return this.encodeAttribute(namespace, name, a.value, resolve);
+        } catch (error: any) {
+          throw new ResourceError(`${error.message} in ${a.name} on <${element.name}> (line ${element.line})`);
+        }
+      })
+      // Framework attributes sorted by resource id, as aapt writes them
+      .sort((a, b) => (a.resourceId ?? Infinity) - (b.resourceId ?? Infinity));
+
+    out.push({
+      element,
+      namespace: elementPrefix ? lookup(elementPrefix) : undefined,
+      name: elementName,
+      declared,
+      attributes,
+    });
+
+    for (const child of element.children) {
+      if (isXmlElement(child)) this.collect(child, namespaces, resolve, out);
+    }
+  }
+
+  private encodeAttribute(namespace: string | undefined, name: string, raw: string, resolve: ResourceResolver): EncodedAttribute {
+    if (namespace === ANDROID_NAMESPACE) {
+      if (!Object.hasOwn(ANDROID_ATTRIBUTES, name)) {
+        throw new ResourceError(`Unknown attribute android:${name}`);
+      }
+      const definition = ANDROID_ATTRIBUTES[name];
+      const value = parseResValue(raw, definition.formats, resolve, definition.values);
+      return value
+        ? { namespace, name, resourceId: definition.id, value, text: raw }
+        : { namespace, name, resourceId: definition.id, rawValue: raw, value: { dataType: ValueType.STRING, data: 0 }, text: raw };
+    }
+    if (namespace) {
+      throw new ResourceError(`Attributes in namespace ${namespace} are not supported`);
+    }
+    // Attributes outside a namespace (package, style, ...) are kept as written
+    const value = raw.startsWith('@') ? parseResValue(raw, ['reference'], resolve) : null;
+    return value
+      ? { name, value, text: raw }
+      : { name, rawValue: raw, value: { dataType: ValueType.STRING, data: 0 }, text: raw };
+  }
+
+  // 1-based position of the id/class/style attribute, 0 when absent
+  private specialIndex(attributes: EncodedAttribute[], namespace: string | undefined, name: string): number {
+    return attributes.findIndex(a => a.namespace === namespace && a.name === name) + 1;
+  }
+
+  private splitName(qualifiedName: string): [string | undefined, string] {
+    const colon = qualifiedName.indexOf(':');
+    return colon < 0 ? [undefined, qualifiedName] : [qualifiedName.substring(0, colon), qualifiedName.substring(colon + 1)];
+  }
+
+  // ResXMLTree_node header (line number and comment) followed by the node extension
+  private node(type: number, line: number, ...body: Buffer[]): Buffer {
+    const header = Buffer.alloc(8);
+    header.writeUInt32LE(line, 0);
+    header.writeUInt32LE(NO_INDEX, 4);
+    return writeChunk(type, header, ...body);
+  }
+
+  private uint32(value: number): Buffer {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32LE(value, 0);
+    return buffer;
+  }
+}
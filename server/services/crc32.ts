@@ -0,0 +1,20 @@
+// CRC-32 as zip and PNG use it (IEEE polynomial, reflected). zlib.crc32 only exists from Node 20.15
+
+const CRC_TABLE = new Uint32Array(256);
+for (let n = 0; n < 256; n++) {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  CRC_TABLE[n] = c >>> 0;
+}
+
+// Pass the previous result as value to continue a checksum over several buffers, like zlib.crc32
+export function crc32(data: Buffer | string, value = 0): number {
+  const bytes = typeof data === 'string' ? Buffer.from(data) : data;
+  let crc = ~value >>> 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
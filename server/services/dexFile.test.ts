@@ -0,0 +1,42 @@
+import { createHash } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { DexError, adler32, createEmptyDex, finalizeDex, validateDex } from './dexFile';
+
+describe('dexFile', () => {
+  it('computes Adler-32', () => {
+    expect(adler32(Buffer.from('Wikipedia', 'ascii'))).toBe(0x11e60398);
+    expect(adler32(Buffer.alloc(0))).toBe(1);
+  });
+
+  it('creates an empty dex that validates', () => {
+    expect(validateDex(createEmptyDex())).toEqual({ version: 35, strings: 0, types: 0, methods: 0, classes: 0 });
+  });
+
+  it('writes the file size, SHA-1 signature and Adler-32 checksum', () => {
+    const dex = createEmptyDex();
+    dex.fill(0xff, 8, 36); // corrupt checksum, signature and file size
+
+    const finalized = finalizeDex(dex);
+
+    expect(finalized.readUInt32LE(32)).toBe(finalized.length);
+    expect(finalized.subarray(12, 32)).toEqual(createHash('sha1').update(finalized.subarray(32)).digest());
+    expect(finalized.readUInt32LE(8)).toBe(adler32(finalized.subarray(12)));
+    // The input is left untouched
+    expect(dex.readUInt32LE(8)).toBe(0xffffffff);
+  });
+
+  it('rejects files that are not dex', () => {
+    const dex = createEmptyDex();
+    dex.write('zip', 0, 'latin1');
+
+    expect(() => validateDex(dex)).toThrow(DexError);
+    expect(() => validateDex(Buffer.alloc(16))).toThrow(/shorter than/);
+    expect(() => finalizeDex(Buffer.alloc(16))).toThrow(DexError);
+  });
+
+  it('rejects a header that declares more bytes than the file has', () => {
+    const dex = finalizeDex(createEmptyDex());
+
+    expect(() => validateDex(dex.subarray(0, dex.length - 4))).toThrow(/Truncated dex/);
+  });
+});
@@ -0,0 +1,205 @@
+import { createHash } from 'crypto';
+
+// Header handling and structural checks for the classes.dex files packaged into APKs,
+// following the layout in the dex format specification
+
+export class DexError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DexError';
+  }
+}
+
+export interface DexInfo {
+  version: number;
+  strings: number;
+  types: number;
+  methods: number;
+  classes: number;
+}
+
+const HEADER_SIZE = 0x70;
+const ENDIAN_CONSTANT = 0x12345678;
+const NO_INDEX = 0xffffffff;
+const MAP_HEADER = 0x0000;
+const MAP_LIST = 0x1000;
+
+// Id sections in header order: where their size/offset pair lives, item size and map item type
+const ID_SECTIONS = [
+  { name: 'string_ids', at: 56, itemSize: 4, mapType: 0x0001, max: NO_INDEX },
+  { name: 'type_ids', at: 64, itemSize: 4, mapType: 0x0002, max: 0xffff },
+  { name: 'proto_ids', at: 72, itemSize: 12, mapType: 0x0003, max: 0xffff },
+  { name: 'field_ids', at: 80, itemSize: 8, mapType: 0x0004, max: NO_INDEX },
+  { name: 'method_ids', at: 88, itemSize: 8, mapType: 0x0005, max: NO_INDEX },
+  { name: 'class_defs', at: 96, itemSize: 32, mapType: 0x0006, max: NO_INDEX },
+];
+
+export function adler32(data: Buffer): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < data.length; i++) {
+    a = (a + data[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+// Rewrites file_size, the SHA-1 signature and the Adler-32 checksum; the signature covers
+// everything after itself and the checksum everything after itself, so they go in that order
+export function finalizeDex(dex: Buffer): Buffer {
+  if (dex.length < HEADER_SIZE) {
+    throw new DexError(`Dex is ${dex.length} bytes, shorter than its ${HEADER_SIZE} byte header`);
+  }
+  const finalized = Buffer.from(dex);
+  finalized.writeUInt32LE(finalized.length, 32);
+  createHash('sha1').update(finalized.subarray(32)).digest().copy(finalized, 12);
+  finalized.writeUInt32LE(adler32(finalized.subarray(12)), 8);
+  return finalized;
+}
+
+// Checks the header, id sections, map list and class definitions point inside the file.
+// Checksum and signature are not checked, finalizeDex recomputes them before packaging.
+export function validateDex(dex: Buffer): DexInfo {
+  if (dex.length < HEADER_SIZE) {
+    throw new DexError(`Dex is ${dex.length} bytes, shorter than its ${HEADER_SIZE} byte header`);
+  }
+  const magic = /^dex\n(0\d\d)\0$/.exec(dex.toString('latin1', 0, 8));
+  if (!magic) {
+    throw new DexError('Not a dex file (bad magic)');
+  }
+  const version = parseInt(magic[1], 10);
+  if (version < 35 || version > 41) {
+    throw new DexError(`Unsupported dex version ${magic[1]}`);
+  }
+
+  const endianTag = dex.readUInt32LE(40);
+  if (endianTag !== ENDIAN_CONSTANT) {
+    throw new DexError(endianTag === 0x78563412 ? 'Big-endian dex files are not supported' : 'Bad endian tag');
+  }
+  const headerSize = dex.readUInt32LE(36);
+  if (headerSize !== HEADER_SIZE) {
+    throw new DexError(`Bad header size ${headerSize}`);
+  }
+  const fileSize = dex.readUInt32LE(32);
+  if (fileSize > dex.length) {
+    throw new DexError(`Truncated dex: header declares ${fileSize} bytes, got ${dex.length}`);
+  }
+
+  const sections = ID_SECTIONS.map(section => {
+    const size = dex.readUInt32LE(section.at);
+    const offset = dex.readUInt32LE(section.at + 4);
+    if (size > section.max) {
+      throw new DexError(`Too many ${section.name}: ${size}`);
+    }
+    checkRange(dex, section.name, size, offset, section.itemSize);
+    return { ...section, size, offset };
+  });
+  const [strings, types, , , methods, classes] = sections;
+
+  const dataSize = dex.readUInt32LE(104);
+  const dataOffset = dex.readUInt32LE(108);
+  checkRange(dex, 'data', dataSize, dataOffset, 1);
+
+  validateMap(dex, sections);
+
+  for (let i = 0; i < strings.size; i++) {
+    const stringData = dex.readUInt32LE(strings.offset + i * 4);
+    if (stringData < HEADER_SIZE || stringData >= dex.length) {
+      throw new DexError(`string_ids[${i}] points outside the file`);
+    }
+  }
+  for (let i = 0; i < types.size; i++) {
+    if (dex.readUInt32LE(types.offset + i * 4) >= strings.size) {
+      throw new DexError(`type_ids[${i}] refers to a missing string`);
+    }
+  }
+  for (let i = 0; i < classes.size; i++) {
+    const at = classes.offset + i * 32;
+    const classIndex = dex.readUInt32LE(at);
+    const superclass = dex.readUInt32LE(at + 8);
+    if (classIndex >= types.size || (superclass !== NO_INDEX && superclass >= types.size)) {
+      throw new DexError(`class_defs[${i}] refers to a missing type`);
+    }
+    for (const [field, fieldOffset] of [['interfaces', 12], ['annotations', 20], ['class_data', 24], ['static_values', 28]] as const) {
+      const offset = dex.readUInt32LE(at + fieldOffset);
+      if (offset !== 0 && (offset < HEADER_SIZE || offset >= dex.length)) {
+        throw new DexError(`class_defs[${i}] ${field} offset points outside the file`);
+      }
+    }
+  }
+
+  return { version, strings: strings.size, types: types.size, methods: methods.size, classes: classes.size };
+}
+
+// Smallest well-formed dex: a header and a map list describing it, no classes
+export function createEmptyDex(): Buffer {
+  const dex = Buffer.alloc(HEADER_SIZE + 28);
+  dex.write('dex\n035\0', 0, 'latin1');
+  dex.writeUInt32LE(HEADER_SIZE, 36);
+  dex.writeUInt32LE(ENDIAN_CONSTANT, 40);
+  dex.writeUInt32LE(HEADER_SIZE, 52); // map_off
+  dex.writeUInt32LE(28, 104); // data_size
+  dex.writeUInt32LE(HEADER_SIZE, 108); // data_off
+
+  dex.writeUInt32LE(2, HEADER_SIZE);
+  dex.writeUInt16LE(MAP_HEADER, HEADER_SIZE + 4);
+  dex.writeUInt32LE(1, HEADER_SIZE + 8);
+  dex.writeUInt32LE(0, HEADER_SIZE + 12);
+  dex.writeUInt16LE(MAP_LIST, HEADER_SIZE + 16);
+  dex.writeUInt32LE(1, HEADER_SIZE + 20);
+  dex.writeUInt32LE(HEADER_SIZE, HEADER_SIZE + 24);
+  return finalizeDex(dex);
+}
+
+function checkRange(dex: Buffer, name: string, size: number, offset: number, itemSize: number) {
+  if (size === 0) {
+    if (offset !== 0 && name !== 'data') {
+      throw new DexError(`Empty ${name} section has a non-zero offset`);
+    }
+    return;
+  }
+  if (offset < HEADER_SIZE || offset + size * itemSize > dex.length) {
+    throw new DexError(`${name} section (${size} items at ${offset}) lies outside the file`);
+  }
+  if (itemSize > 1 && offset % 4 !== 0) {
+    throw new DexError(`${name} section is not 4-byte aligned`);
+  }
+}
+
+// The map list must describe the header, itself and every id section, in offset order
+function validateMap(dex: Buffer, sections: Array<{ name: string; mapType: number; size: number; offset: number }>) {
+  const mapOffset = dex.readUInt32LE(52);
+  if (mapOffset < HEADER_SIZE || mapOffset % 4 !== 0 || mapOffset + 4 > dex.length) {
+    throw new DexError('Map list offset is invalid');
+  }
+  const count = dex.readUInt32LE(mapOffset);
+  if (mapOffset + 4 + count * 12 > dex.length) {
+    throw new DexError('Map list runs past the end of the file');
+  }
+
+  const items = new Map<number, { size: number; offset: number }>();
+  let previousOffset = -1;
+  for (let i = 0; i < count; i++) {
+    const at = mapOffset + 4 + i * 12;
+    const type = dex.readUInt16LE(at);
+    const item = { size: dex.readUInt32LE(at + 4), offset: dex.readUInt32LE(at + 8) };
+    if (items.has(type)) {
+      throw new DexError(`Map list repeats item type 0x${type.toString(16)}`);
+    }
+    if (item.offset <= previousOffset || item.offset >= dex.length) {
+      throw new DexError(`Map list item type 0x${type.toString(16)} is out of order or outside the file`);
+    }
+    items.set(type, item);
+    previousOffset = item.offset;
+  }
+
+  if (items.get(MAP_HEADER)?.offset !== 0 || items.get(MAP_LIST)?.offset !== mapOffset) {
+    throw new DexError('Map list does not describe the header and itself');
+  }
+  for (const section of sections.filter(s => s.size > 0)) {
+    const item = items.get(section.mapType);
+    if (!item || item.size !== section.size || item.offset !== section.offset) {
+      throw new DexError(`Map list disagrees with the header about ${section.name}`);
+    }
+  }
+}
@@ -7,10 +7,12 @@ import AdmZip from 'adm-zip';
 export class FileManager {
   private uploadDir: string;
   private buildDir: string;
+  private keystoreDir: string;
 
   constructor() {
     this.uploadDir = path.join(process.cwd(), 'uploads');
     this.buildDir = path.join(process.cwd(), 'builds');
+    this.keystoreDir = path.join(process.cwd(), 'keystores');
     this.ensureDirectories();
   }
 
@@ -18,6 +20,7 @@ export class FileManager {
     try {
       await fs.mkdir(this.uploadDir, { recursive: true });
       await fs.mkdir(this.buildDir, { recursive: true });
+      await fs.mkdir(this.keystoreDir, { recursive: true, mode: 0o700 });
     } catch (error) {
       console.error('Error creating directories:', error);
     }
@@ -29,6 +32,21 @@ export class FileManager {
     return filePath;
   }
 
+  async saveKeystore(filename: string, data: Buffer): Promise<string> {
+    const filePath = path.join(this.keystoreDir, filename);
+    // Keystores hold private keys, keep them readable by the server user only
+    await fs.writeFile(filePath, data, { mode: 0o600 });
+    return filePath;
+  }
+
+  async readKeystore(filename: string): Promise<Buffer> {
+    return await fs.readFile(path.join(this.keystoreDir, path.basename(filename)));
+  }
+
+  async deleteKeystore(filename: string): Promise<void> {
+    await this.deleteFile(path.join(this.keystoreDir, path.basename(filename)));
+  }
+
   async extractZip(zipPath: string, extractPath: string): Promise<void> {
     const zip = new AdmZip(zipPath);
     zip.extractAllTo(extractPath, true);
@@ -44,7 +62,11 @@ export class FileManager {
     return await fs.readFile(filePath, 'utf-8');
   }
 
-  async writeFile(filePath: string, content: string): Promise<void> {
+  async readFileBuffer(filePath: string): Promise<Buffer> {
+    return await fs.readFile(filePath);
+  }
+
+  async writeFile(filePath: string, content: string | Buffer): Promise<void> {
     await fs.writeFile(filePath, content);
   }
 
@@ -91,6 +113,14 @@ export class FileManager {
     }
   }
 
+  async deleteFile(filePath: string): Promise<void> {
+    try {
+      await fs.rm(filePath, { force: true });
+    } catch (error) {
+      console.error('Error deleting file:', error);
+    }
+  }
+
   async deleteDirectory(directory: string): Promise<void> {
     try {
       await fs.rm(directory, { recursive: true, force: true });
@@ -103,6 +133,18 @@ export class FileManager {
     await fs.copyFile(source, destination);
   }
 
+  async copyDirectory(source: string, destination: string): Promise<void> {
+    await fs.cp(source, destination, { recursive: true });
+  }
+
+  async moveFile(source: string, destination: string): Promise<void> {
+    await fs.rename(source, destination);
+  }
+
+  async createSymlink(target: string, linkPath: string): Promise<void> {
+    await fs.symlink(target, linkPath);
+  }
+
   async ensureDirectory(directory: string): Promise<void> {
     await fs.mkdir(directory, { recursive: true });
   }
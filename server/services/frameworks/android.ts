@@ -0,0 +1,203 @@
+import path from 'path';
+import { FileManager } from '../fileManager';
+import { GradleModuleScanner } from '../gradleModules';
+import { execCommand } from '../processTree';
+import type { ProjectAnalysis } from '../projectAnalyzer';
+import { BaseFrameworkBuilder, FrameworkDetection, StepResult } from './frameworkBuilder';
+
+// Gradle files that mark a native Android project, also when it only uses the Kotlin DSL or a version catalog
+const GRADLE_FILES = ['build.gradle', 'build.gradle.kts', 'settings.gradle', 'settings.gradle.kts', 'libs.versions.toml'];
+// Where an application module keeps its manifest: Android source set, or KMP's androidMain
+const MANIFEST_PATHS = ['src/main/AndroidManifest.xml', 'src/androidMain/AndroidManifest.xml'];
+
+export class AndroidBuilder extends BaseFrameworkBuilder {
+  readonly id = 'android';
+  readonly gradleRoots = ['.'];
+  private modules: GradleModuleScanner;
+
+  constructor(fileManager: FileManager) {
+    super(fileManager);
+    this.modules = new GradleModuleScanner(fileManager);
+  }
+
+  async detect(projectPath: string, files: string[]): Promise<FrameworkDetection | undefined> {
+    if (!files.some(f => GRADLE_FILES.includes(path.posix.basename(f)) || f.endsWith('AndroidManifest.xml'))) return undefined;
+    const sources = files.filter(f => !f.includes('/build/'));
+    const hasKotlin = sources.some(f => f.endsWith('.kt'));
+    const hasJava = sources.some(f => f.endsWith('.java'));
+    const language = hasKotlin ? 'kotlin' : hasJava ? 'java' : 'unknown';
+    // Kotlin Multiplatform modules share code from src/commonMain
+    const multiplatform = sources.some(f => f.includes('src/commonMain/'));
+    return { language, projectType: multiplatform ? 'multiplatform' : 'native' };
+  }
+
+  async analyze(projectPath: string, files: string[], analysis: ProjectAnalysis): Promise<void> {
+    const modules = await this.modules.scan(projectPath);
+    const app = modules.find(module => module.application);
+    const shared = modules.filter(module => module.multiplatform && !module.application);
+    // Without an application module, missing files are created in app/ like a new Android Studio project
+    const applicationModule = app?.path ?? (files.some(f => f.startsWith('app/')) ? 'app' : '');
+    const inModule = (file: string) => path.posix.join(applicationModule, file);
+    const manifestPath = MANIFEST_PATHS.map(inModule).find(file => files.includes(file)) ?? inModule(MANIFEST_PATHS[0]);
+
+    analysis.buildConfig = {
+      hasBuildGradle: Boolean(app),
+      hasManifest: files.includes(manifestPath),
+      targetSdk: app?.targetSdk || 33,
+      minSdk: app?.minSdk || 21,
+      applicationModule,
+      buildScript: app?.buildScript,
+      rootBuildScript: ['build.gradle', 'build.gradle.kts'].find(file => files.includes(file)),
+      manifestPath,
+      versionCatalog: files.includes('gradle/libs.versions.toml'),
+      kotlinMultiplatform: modules.some(module => module.multiplatform),
+      sharedModules: shared.map(module => module.path),
+      compose: modules.some(module => module.compose),
+      packageName: app?.applicationId || app?.namespace,
+      version: app?.versionName,
+      versionCode: app?.versionCode
+    };
+    if (analysis.buildConfig.kotlinMultiplatform) analysis.projectType = 'multiplatform';
+    analysis.projectStats.targetSdk = analysis.buildConfig.targetSdk;
+    analysis.projectStats.minSdk = analysis.buildConfig.minSdk;
+
+    // Check for essential files
+    analysis.missingFiles = [
+      ...(analysis.buildConfig.rootBuildScript ? [] : ['build.gradle']),
+      ...(app ? [] : [inModule('build.gradle')]),
+      ...(analysis.buildConfig.hasManifest ? [] : [manifestPath]),
+    ];
+
+    // Dependencies of every module, e.g. androidx.compose.material3:material3
+    analysis.dependencies = Array.from(new Set(modules.flatMap(module => module.dependencies)));
+    analysis.projectStats.dependencies = analysis.dependencies.length;
+    analysis.projectStats.sourceFiles = files.filter(f => (f.endsWith('.java') || f.endsWith('.kt')) && !f.includes('/build/')).length;
+  }
+
+  essentialFiles(analysis: ProjectAnalysis): string[] {
+    return [analysis.buildConfig.rootBuildScript || 'build.gradle', analysis.buildConfig.manifestPath];
+  }
+
+  async installDependencies(projectPath: string, analysis: ProjectAnalysis, result: StepResult, signal?: AbortSignal): Promise<void> {
+    result.logs.push('Running gradle dependency resolution...');
+    try {
+      await execCommand('./gradlew dependencies', { cwd: projectPath, timeout: 180000, signal });
+      result.logs.push('Gradle dependencies resolved successfully');
+    } catch (error: any) {
+      result.logs.push(`Gradle dependency resolution: ${error.message}`);
+    }
+  }
+
+  async createMissingFiles(projectPath: string, analysis: ProjectAnalysis, result: StepResult): Promise<void> {
+    // Create build.gradle if missing, Kotlin DSL projects already have build.gradle.kts
+    if (!analysis.buildConfig.rootBuildScript) {
+      await this.createBuildGradle(path.join(projectPath, 'build.gradle'), analysis);
+      analysis.buildConfig.rootBuildScript = 'build.gradle';
+      result.logs.push('Created Android build.gradle configuration');
+    }
+    
+    // Create AndroidManifest.xml in the application module if missing
+    const manifestPath = path.join(projectPath, analysis.buildConfig.manifestPath);
+    if (!await this.fileManager.fileExists(manifestPath)) {
+      await this.fileManager.ensureDirectory(path.dirname(manifestPath));
+      await this.createAndroidManifest(manifestPath, analysis);
+      result.logs.push('Created Android application manifest');
+    }
+  }
+  async installBuildTools(projectPath: string, analysis: ProjectAnalysis, result: StepResult, signal?: AbortSignal): Promise<void> {
+    result.logs.push('Configuring Android build tools...');
+    const { applicationModule, compose, kotlinMultiplatform, sharedModules } = analysis.buildConfig;
+    result.logs.push(`Application module: ${applicationModule || 'root project'}${compose ? ' (Jetpack Compose)' : ''}`);
+    if (kotlinMultiplatform) {
+      result.logs.push(`Kotlin Multiplatform project, shared modules: ${sharedModules.length > 0 ? sharedModules.join(', ') : 'none'}`);
+    }
+    // Check for Gradle wrapper
+    if (!await this.fileManager.fileExists(path.join(projectPath, 'gradlew'))) {
+      try {
+        await execCommand('gradle wrapper', { cwd: projectPath, timeout: 30000, signal });
+        result.logs.push('Gradle wrapper created successfully');
+      } catch (error: any) {
+        result.logs.push('Gradle build environment configured');
+      }
+    } else {
+      result.logs.push('Gradle wrapper already available');
+    }
+  }
+
+  private async createAndroidManifest(filePath: string, analysis: ProjectAnalysis): Promise<void> {
+    const manifest = `<?xml version="1.0" encoding="utf-8"?>
+<manifest xmlns:android="http://schemas.android.com/apk/res/android"
+    package="com.example.app">
+    
+    <uses-permission android:name="android.permission.INTERNET" />
+    <uses-permission android:name="android.permission.ACCESS_NETWORK_STATE" />
+    
+    <application
+        android:allowBackup="true"
+        android:icon="@mipmap/ic_launcher"
+        android:label="@string/app_name"
+        android:theme="@style/AppTheme">
+        
+        <activity
+            android:name=".MainActivity"
+            android:exported="true">
+            <intent-filter>
+                <action android:name="android.intent.action.MAIN" />
+                <category android:name="android.intent.category.LAUNCHER" />
+            </intent-filter>
+        </activity>
+    </application>
+</manifest>`;
+    
+    await this.fileManager.writeFile(filePath, manifest);
+  }
+  private async createBuildGradle(filePath: string, analysis: ProjectAnalysis): Promise<void> {
+    const isAppLevel = filePath.includes('app/build.gradle');
+    
+    let gradle = '';
+    if (isAppLevel) {
+      gradle = `android {
+    compileSdkVersion ${analysis.projectStats.targetSdk || 33}
+    
+    defaultConfig {
+        applicationId "com.example.app"
+        minSdkVersion ${analysis.projectStats.minSdk || 21}
+        targetSdkVersion ${analysis.projectStats.targetSdk || 33}
+        versionCode 1
+        versionName "1.0"
+    }
+    
+    buildTypes {
+        release {
+            minifyEnabled false
+            proguardFiles getDefaultProguardFile('proguard-android-optimize.txt'), 'proguard-rules.pro'
+        }
+    }
+}
+
+dependencies {
+    implementation 'androidx.appcompat:appcompat:1.6.1'
+    implementation 'com.google.android.material:material:1.9.0'
+    implementation 'androidx.constraintlayout:constraintlayout:2.1.4'
+}`;
+    } else {
+      gradle = `buildscript {
+    repositories {
+        google()
+        mavenCentral()
+    }
+    dependencies {
+        classpath 'com.android.tools.build:gradle:7.4.2'
+    }
+}
+
+allprojects {
+    repositories {
+        google()
+        mavenCentral()
+    }
+}`;
+    }
+    
+    await this.fileManager.writeFile(filePath, gradle);
+  }}
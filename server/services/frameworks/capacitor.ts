@@ -0,0 +1,198 @@
+import path from 'path';
+import { execCommand } from '../processTree';
+import type { ProjectAnalysis } from '../projectAnalyzer';
+import { BaseFrameworkBuilder, FrameworkDetection, StepResult, resolveInsideProject } from './frameworkBuilder';
+
+// Capacitor 3+ reads its settings from JSON, TypeScript or JavaScript
+const CAPACITOR_CONFIGS = ['capacitor.config.json', 'capacitor.config.ts', 'capacitor.config.js'];
+// Where `npx cap copy` puts the web app and its config inside the Android project
+const ANDROID_ASSETS_DIR = 'android/app/src/main/assets';
+const ANDROID_PUBLIC_DIR = `${ANDROID_ASSETS_DIR}/public`;
+// Capacitor's own packages; other packages matching CAPACITOR_PLUGIN are plugins
+const CAPACITOR_PACKAGES = ['@capacitor/core', '@capacitor/cli', '@capacitor/android', '@capacitor/ios'];
+const CAPACITOR_PLUGIN = /^@capacitor\/|^@capacitor-community\/|^@capawesome\/|capacitor-plugin/;
+const IONIC_PACKAGES = ['@ionic/angular', '@ionic/react', '@ionic/vue', '@ionic/core'];
+const WEB_SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.vue', '.html', '.css', '.scss'];
+
+// Capacitor and Ionic apps: a web app built into webDir, wrapped by the Android project in android/
+export class CapacitorBuilder extends BaseFrameworkBuilder {
+  readonly id = 'capacitor';
+
+  async detect(projectPath: string, files: string[]): Promise<FrameworkDetection | undefined> {
+    if (!files.some(f => CAPACITOR_CONFIGS.includes(path.posix.basename(f)))) return undefined;
+    const hasTypeScript = files.some(f => f.endsWith('.ts') || f.endsWith('.tsx'));
+    return { language: hasTypeScript ? 'typescript' : 'javascript', projectType: 'hybrid' };
+  }
+
+  async analyze(projectPath: string, files: string[], analysis: ProjectAnalysis): Promise<void> {
+    analysis.buildConfig = {
+      hasCapacitorConfig: false,
+      hasAndroidPlatform: files.some(f => f.startsWith('android/')),
+      ionic: false,
+      appName: 'Mobile App',
+      webDir: 'www',
+      plugins: [],
+      targetSdk: 33,
+      minSdk: 22
+    };
+
+    // appId, appName and webDir from the Capacitor config
+    for (const configFile of CAPACITOR_CONFIGS) {
+      const configPath = path.join(projectPath, configFile);
+      if (!(await this.fileManager.fileExists(configPath))) continue;
+      analysis.buildConfig.hasCapacitorConfig = true;
+      analysis.buildConfig.configFile = configFile;
+      try {
+        const config = this.parseConfig(configFile, await this.fileManager.readFile(configPath));
+        if (config.appId) analysis.buildConfig.packageName = config.appId;
+        if (config.appName) analysis.buildConfig.appName = config.appName;
+        if (config.webDir && resolveInsideProject(projectPath, config.webDir)) {
+          analysis.buildConfig.webDir = config.webDir;
+        } else if (config.webDir) {
+          analysis.errors.push(`webDir ${config.webDir} in ${configFile} is outside the project, using www`);
+        }
+      } catch (error) {
+        analysis.errors.push(`Failed to parse ${configFile}`);
+      }
+      break;
+    }
+
+    // Plugins and the Capacitor version from package.json
+    const packageJsonPath = path.join(projectPath, 'package.json');
+    if (await this.fileManager.fileExists(packageJsonPath)) {
+      try {
+        const packageJson = JSON.parse(await this.fileManager.readFile(packageJsonPath));
+        const dependencies = { ...packageJson.devDependencies, ...packageJson.dependencies };
+        analysis.dependencies = Object.keys(packageJson.dependencies || {});
+        analysis.projectStats.dependencies = analysis.dependencies.length;
+        analysis.buildConfig.capacitorVersion = dependencies['@capacitor/core'];
+        analysis.buildConfig.plugins = Object.keys(dependencies).filter(name => CAPACITOR_PLUGIN.test(name) && !CAPACITOR_PACKAGES.includes(name));
+        analysis.buildConfig.ionic = IONIC_PACKAGES.some(name => name in dependencies);
+        analysis.buildConfig.hasBuildScript = Boolean(packageJson.scripts?.build);
+      } catch (error) {
+        analysis.errors.push('Failed to parse package.json');
+      }
+    }
+
+    // Ionic CLI projects name their UI framework in ionic.config.json
+    const ionicConfigPath = path.join(projectPath, 'ionic.config.json');
+    if (await this.fileManager.fileExists(ionicConfigPath)) {
+      analysis.buildConfig.ionic = true;
+      try {
+        analysis.buildConfig.ionicType = JSON.parse(await this.fileManager.readFile(ionicConfigPath)).type;
+      } catch (error) {
+        analysis.errors.push('Failed to parse ionic.config.json');
+      }
+    }
+    if (analysis.buildConfig.ionic) analysis.projectType = 'ionic';
+
+    // SDK levels live in android/variables.gradle, e.g. minSdkVersion = 22
+    const variablesPath = path.join(projectPath, 'android', 'variables.gradle');
+    if (await this.fileManager.fileExists(variablesPath)) {
+      const variables = await this.fileManager.readFile(variablesPath);
+      analysis.buildConfig.minSdk = this.extractGradleVariable(variables, 'minSdkVersion') || analysis.buildConfig.minSdk;
+      analysis.buildConfig.targetSdk = this.extractGradleVariable(variables, 'targetSdkVersion') || analysis.buildConfig.targetSdk;
+    }
+    analysis.projectStats.minSdk = analysis.buildConfig.minSdk;
+    analysis.projectStats.targetSdk = analysis.buildConfig.targetSdk;
+
+    const webDir = analysis.buildConfig.webDir;
+    analysis.missingFiles = [`${webDir}/index.html`, 'android/app/build.gradle'].filter(file => !files.includes(file));
+    analysis.projectStats.sourceFiles = files.filter(f => f.startsWith('src/') && WEB_SOURCE_EXTENSIONS.includes(path.posix.extname(f))).length;
+  }
+
+  // The built web app, or the copy `npx cap copy` left in the Android project
+  webRoots(analysis: ProjectAnalysis): string[] {
+    return [analysis.buildConfig.webDir, ANDROID_PUBLIC_DIR];
+  }
+
+  // Installs packages and builds the web app when webDir has not been built yet
+  async installDependencies(projectPath: string, analysis: ProjectAnalysis, result: StepResult, signal?: AbortSignal): Promise<void> {
+    const webDir = analysis.buildConfig.webDir;
+    if (await this.fileManager.fileExists(path.join(projectPath, webDir, 'index.html'))) {
+      result.logs.push(`Web app already built in ${webDir}/`);
+      return;
+    }
+    if (!analysis.buildConfig.hasBuildScript) {
+      result.logs.push(`${webDir}/ has no index.html and package.json has no build script`);
+      return;
+    }
+
+    if (!(await this.fileManager.fileExists(path.join(projectPath, 'node_modules')))) {
+      result.logs.push('Running npm install...');
+      try {
+        await execCommand('npm install', { cwd: projectPath, timeout: 180000, signal });
+        result.logs.push('NPM dependencies installed successfully');
+      } catch (error: any) {
+        result.logs.push(`NPM install completed: ${error.message}`);
+      }
+    }
+
+    result.logs.push(`Running npm run build to produce ${webDir}/...`);
+    try {
+      await execCommand('npm run build', { cwd: projectPath, timeout: 300000, signal });
+      result.logs.push(`Web app built into ${webDir}/`);
+    } catch (error: any) {
+      result.logs.push(`Web build failed: ${error.message}`);
+    }
+  }
+
+  // Same as `npx cap copy android`: the built web app and the config go into the Android project's assets
+  async installBuildTools(projectPath: string, analysis: ProjectAnalysis, result: StepResult): Promise<void> {
+    result.logs.push(`Configuring ${analysis.buildConfig.ionic ? 'Ionic' : 'Capacitor'} build environment...`);
+    const webRoot = resolveInsideProject(projectPath, analysis.buildConfig.webDir);
+    if (!webRoot) {
+      result.success = false;
+      result.errors.push(`webDir ${analysis.buildConfig.webDir} is outside the project`);
+      return;
+    }
+    if (analysis.buildConfig.hasAndroidPlatform && await this.fileManager.fileExists(path.join(webRoot, 'index.html'))) {
+      const publicDir = path.join(projectPath, ANDROID_PUBLIC_DIR);
+      await this.fileManager.deleteDirectory(publicDir);
+      const copied = await this.copyDirectory(webRoot, publicDir);
+      await this.fileManager.writeFile(path.join(projectPath, ANDROID_ASSETS_DIR, 'capacitor.config.json'), JSON.stringify(await this.androidConfig(projectPath, analysis), null, 2));
+      result.logs.push(`Copied ${copied} web asset files from ${analysis.buildConfig.webDir}/ to ${ANDROID_PUBLIC_DIR}/`);
+    } else if (!analysis.buildConfig.hasAndroidPlatform) {
+      result.logs.push('No android/ platform in the project - add it with npx cap add android to build with Gradle');
+    }
+
+    const plugins: string[] = analysis.buildConfig.plugins;
+    if (plugins.length > 0) {
+      result.logs.push(`Capacitor plugins: ${plugins.join(', ')}`);
+      result.logs.push('Plugins need the Android project\'s Gradle build; the built-in WebView shell has no Capacitor bridge, so plugin calls fail there');
+    }
+  }
+
+  // JSON configs are copied as-is, TypeScript and JavaScript ones are reduced to the analyzed settings
+  private async androidConfig(projectPath: string, analysis: ProjectAnalysis): Promise<object> {
+    if (analysis.buildConfig.configFile === 'capacitor.config.json') {
+      return JSON.parse(await this.fileManager.readFile(path.join(projectPath, 'capacitor.config.json')));
+    }
+    return { appId: analysis.buildConfig.packageName, appName: analysis.buildConfig.appName, webDir: analysis.buildConfig.webDir };
+  }
+
+  private parseConfig(configFile: string, content: string): { appId?: string; appName?: string; webDir?: string } {
+    if (configFile.endsWith('.json')) return JSON.parse(content);
+    // capacitor.config.ts/js export an object literal, read its string properties
+    const property = (name: string) => new RegExp(`\\b${name}\\s*:\\s*['"\`]([^'"\`]+)['"\`]`).exec(content)?.[1];
+    return { appId: property('appId'), appName: property('appName'), webDir: property('webDir') };
+  }
+
+  private extractGradleVariable(content: string, key: string): number | undefined {
+    const match = new RegExp(`${key}\\s*=\\s*(\\d+)`).exec(content);
+    return match ? parseInt(match[1]) : undefined;
+  }
+
+  private async copyDirectory(source: string, destination: string): Promise<number> {
+    await this.fileManager.ensureDirectory(destination);
+    let copied = 0;
+    for (const file of await this.fileManager.listFiles(source)) {
+      await this.fileManager.copyFile(path.join(source, file), path.join(destination, file));
+      copied++;
+    }
+    for (const directory of await this.fileManager.listDirectories(source)) {
+      copied += await this.copyDirectory(path.join(source, directory), path.join(destination, directory));
+    }
+    return copied;
+  }
+}
@@ -0,0 +1,86 @@
+import path from 'path';
+import type { ProjectAnalysis } from '../projectAnalyzer';
+import { BaseFrameworkBuilder, FrameworkDetection, StepResult } from './frameworkBuilder';
+
+export class CordovaBuilder extends BaseFrameworkBuilder {
+  readonly id = 'cordova';
+  readonly gradleRoots = ['platforms/android'];
+
+  async detect(projectPath: string, files: string[]): Promise<FrameworkDetection | undefined> {
+    if (!files.some(f => f.includes('config.xml') && f.includes('www'))) return undefined;
+    return { language: 'javascript', projectType: 'hybrid' };
+  }
+
+  async analyze(projectPath: string, files: string[], analysis: ProjectAnalysis): Promise<void> {
+    // Initialize build config with default flags
+    analysis.buildConfig = {
+      hasConfigXml: false,
+      hasWwwFolder: false,
+      appName: 'Mobile App',
+      version: '1.0.0'
+    };
+
+    // Check for essential files
+    const requiredFiles = ['config.xml', 'www/index.html'];
+    analysis.missingFiles = requiredFiles.filter(file => !files.some(f => f.includes(file)));
+
+    // Parse config.xml
+    const configPath = path.join(projectPath, 'config.xml');
+    if (await this.fileManager.fileExists(configPath)) {
+      analysis.buildConfig.hasConfigXml = true;
+      try {
+        const configContent = await this.fileManager.readFile(configPath);
+        // Extract app info from config.xml
+        const nameMatch = configContent.match(/<name>(.*?)<\/name>/);
+        const versionMatch = configContent.match(/version="(.*?)"/);
+        
+        analysis.buildConfig.appName = nameMatch ? nameMatch[1] : 'Mobile App';
+        analysis.buildConfig.version = versionMatch ? versionMatch[1] : '1.0.0';
+      } catch (error) {
+        analysis.errors.push('Failed to parse config.xml');
+      }
+    }
+
+    // Check for www folder
+    const wwwPath = path.join(projectPath, 'www');
+    if (await this.fileManager.fileExists(wwwPath)) {
+      analysis.buildConfig.hasWwwFolder = true;
+    }
+
+    analysis.projectStats.sourceFiles = files.filter(f => f.endsWith('.js') || f.endsWith('.html') || f.endsWith('.css')).length;
+  }
+
+  essentialFiles(analysis: ProjectAnalysis): string[] {
+    return ['config.xml', 'www/index.html'];
+  }
+
+  webRoots(analysis: ProjectAnalysis): string[] {
+    return ['www'];
+  }
+
+  async createMissingFiles(projectPath: string, analysis: ProjectAnalysis, result: StepResult): Promise<void> {
+    // Create config.xml if missing
+    if (!await this.fileManager.fileExists(path.join(projectPath, 'config.xml'))) {
+      await this.createConfigXml(path.join(projectPath, 'config.xml'), analysis);
+      result.logs.push('Created Cordova configuration file');
+    }
+  }
+
+  private async createConfigXml(filePath: string, analysis: ProjectAnalysis): Promise<void> {
+    const config = `<?xml version='1.0' encoding='utf-8'?>
+<widget id="com.example.app" version="1.0.0" xmlns="http://www.w3.org/ns/widgets" xmlns:cdv="http://cordova.apache.org/ns/1.0">
+    <name>Mobile App</name>
+    <description>
+        A sample Apache Cordova application.
+    </description>
+    <content src="index.html" />
+    <access origin="*" />
+    <allow-intent href="http://*/*" />
+    <allow-intent href="https://*/*" />
+    <platform name="android">
+        <allow-intent href="market:*" />
+    </platform>
+</widget>`;
+    
+    await this.fileManager.writeFile(filePath, config);
+  }}
@@ -0,0 +1,208 @@
+import path from 'path';
+import { execCommand } from '../processTree';
+import type { ProjectAnalysis } from '../projectAnalyzer';
+import { FrameworkDetection, StepResult } from './frameworkBuilder';
+import { ReactNativeBuilder } from './reactNative';
+
+// Expo reads the first of these; app.json and app.config.json keep the settings under an expo key
+const EXPO_CONFIGS = ['app.config.ts', 'app.config.js', 'app.config.json', 'app.json'];
+// Static web exports (npx expo export --platform web), packaged in the WebView shell when Gradle can't run
+const WEB_EXPORT_DIRS = ['dist', 'web-build'];
+// Expo's orientation values with an Android equivalent; default leaves it to the device
+const ORIENTATIONS = ['portrait', 'landscape'];
+const PREBUILD_TIMEOUT = 10 * 60 * 1000;
+// expo prebuild runs on a copy of the project here when app.json needs a package name, so the upload stays as it was
+const PREBUILD_STAGING_DIR = path.join('build', 'expo-prebuild');
+
+interface ExpoConfig {
+  name?: string;
+  slug?: string;
+  version?: string;
+  orientation?: string;
+  icon?: string;
+  splash?: { image?: string; backgroundColor?: string };
+  android?: { package?: string; versionCode?: number };
+  plugins?: Array<string | [string, any]>;
+}
+
+// Expo managed-workflow apps: React Native without an android/ folder until `expo prebuild` generates it
+export class ExpoBuilder extends ReactNativeBuilder {
+  readonly id = 'expo';
+
+  async detect(projectPath: string, files: string[]): Promise<FrameworkDetection | undefined> {
+    const config = await this.readConfig(projectPath);
+    if (!config && !(await this.hasExpoDependency(projectPath))) return undefined;
+    const hasTypeScript = files.some(f => f.endsWith('.ts') || f.endsWith('.tsx'));
+    return { language: hasTypeScript ? 'typescript' : 'javascript', projectType: 'hybrid' };
+  }
+
+  async analyze(projectPath: string, files: string[], analysis: ProjectAnalysis): Promise<void> {
+    // React Native's analysis covers package.json, the Gradle files of a prebuilt android/ and source counts
+    await super.analyze(projectPath, files, analysis);
+    // Expo SDK 50+ defaults
+    analysis.projectStats.targetSdk = analysis.projectStats.targetSdk ?? 34;
+    analysis.projectStats.minSdk = analysis.projectStats.minSdk ?? 23;
+    analysis.buildConfig.targetSdk = analysis.projectStats.targetSdk;
+    analysis.buildConfig.minSdk = analysis.projectStats.minSdk;
+    analysis.buildConfig.hasNativeAndroid = files.some(f => f.startsWith('android/'));
+    analysis.missingFiles = analysis.buildConfig.hasNativeAndroid ? [] : ['android/app/build.gradle'];
+
+    const loaded = await this.readConfig(projectPath);
+    if (!loaded) return;
+    const { file, config } = loaded;
+    analysis.buildConfig.configFile = file;
+    if (config.name) analysis.buildConfig.appName = config.name;
+    analysis.buildConfig.slug = config.slug;
+    if (config.version) analysis.buildConfig.version = config.version;
+    if (config.orientation && ORIENTATIONS.includes(config.orientation)) analysis.buildConfig.orientation = config.orientation;
+    analysis.buildConfig.icon = config.icon;
+    analysis.buildConfig.packageName = config.android?.package;
+    analysis.buildConfig.versionCode = config.android?.versionCode;
+    analysis.buildConfig.plugins = (config.plugins ?? []).map(plugin => (Array.isArray(plugin) ? plugin[0] : plugin));
+
+    // SDK 50+ configures the splash screen through the expo-splash-screen plugin, older SDKs with expo.splash
+    const splashPlugin = (config.plugins ?? []).find(plugin => Array.isArray(plugin) && plugin[0] === 'expo-splash-screen');
+    const splash = { ...config.splash, ...(splashPlugin ? splashPlugin[1] : {}) };
+    analysis.buildConfig.splash = splash.image || splash.backgroundColor ? splash : undefined;
+    if (/^#[0-9a-fA-F]{6}$/.test(splash.backgroundColor ?? '')) {
+      analysis.buildConfig.splashBackgroundColor = splash.backgroundColor;
+    }
+
+    analysis.buildConfig.webExport = WEB_EXPORT_DIRS.find(dir => files.includes(`${dir}/index.html`));
+  }
+
+  essentialFiles(analysis: ProjectAnalysis): string[] {
+    return ['package.json'];
+  }
+
+  // Without Gradle a web export is the closest thing to the app that can be packaged
+  webRoots(analysis: ProjectAnalysis): string[] | undefined {
+    return analysis.buildConfig.webExport ? [analysis.buildConfig.webExport] : undefined;
+  }
+
+  // Expo apps start from expo-router/entry or App.js, there is no index.js to create
+  async createMissingFiles(projectPath: string, analysis: ProjectAnalysis, result: StepResult): Promise<void> {}
+
+  // `expo prebuild` generates android/ from the app config, the Gradle build then runs there
+  async installBuildTools(projectPath: string, analysis: ProjectAnalysis, result: StepResult, signal?: AbortSignal): Promise<void> {
+    result.logs.push('Configuring Expo build environment...');
+    if (await this.fileManager.fileExists(path.join(projectPath, 'android', 'build.gradle'))) {
+      result.logs.push('Native android/ project already present, skipping expo prebuild');
+      return;
+    }
+
+    let stagingDir: string | undefined;
+    if (!analysis.buildConfig.packageName) {
+      const packageName = `com.expo.${(analysis.buildConfig.slug || 'app').toLowerCase().replace(/[^a-z0-9]/g, '')}`;
+      stagingDir = analysis.buildConfig.configFile === 'app.json' ? await this.stageAppJson(projectPath, packageName) : undefined;
+      if (stagingDir) {
+        analysis.buildConfig.packageName = packageName;
+        result.logs.push(`app.json has no expo.android.package, using ${packageName} for prebuild`);
+      } else {
+        result.logs.push(`${analysis.buildConfig.configFile} has no android.package, expo prebuild needs one to generate android/`);
+      }
+    }
+
+    result.logs.push('Running expo prebuild --platform android...');
+    try {
+      // CI=1 keeps the Expo CLI from prompting
+      await execCommand('npx expo prebuild --platform android --no-install', { cwd: stagingDir ?? projectPath, timeout: PREBUILD_TIMEOUT, env: { ...process.env, CI: '1' }, signal });
+      if (stagingDir) {
+        await this.fileManager.moveFile(path.join(stagingDir, 'android'), path.join(projectPath, 'android'));
+      }
+      analysis.buildConfig.hasNativeAndroid = true;
+      result.logs.push('Generated the native android/ project');
+    } catch (error: any) {
+      // Without android/ only a web export gives the APK something that runs
+      if (analysis.buildConfig.webExport) {
+        result.logs.push(`expo prebuild failed: ${error.message}`);
+        result.logs.push(`Packaging the web export in ${analysis.buildConfig.webExport}/ in the WebView shell instead`);
+      } else {
+        result.success = false;
+        result.errors.push(`expo prebuild failed: ${error.message}`);
+      }
+    } finally {
+      if (stagingDir) {
+        await this.fileManager.deleteDirectory(stagingDir);
+      }
+    }
+  }
+
+  private async readConfig(projectPath: string): Promise<{ file: string; config: ExpoConfig } | undefined> {
+    for (const file of EXPO_CONFIGS) {
+      const configPath = path.join(projectPath, file);
+      if (!(await this.fileManager.fileExists(configPath))) continue;
+      const content = await this.fileManager.readFile(configPath);
+      try {
+        if (file.endsWith('.json')) {
+          const json = JSON.parse(content);
+          // A bare React Native app.json only holds name and displayName
+          if (json.expo) return { file, config: json.expo };
+          if (file === 'app.config.json') return { file, config: json };
+          continue;
+        }
+      } catch {
+        continue;
+      }
+      return { file, config: this.parseDynamicConfig(content) };
+    }
+    return undefined;
+  }
+
+  // app.config.ts/js are code; read the plain string settings the way the JSON configs hold them
+  private parseDynamicConfig(content: string): ExpoConfig {
+    const property = (name: string, scope = content) => new RegExp(`\\b${name}\\s*:\\s*['"\`]([^'"\`]+)['"\`]`).exec(scope)?.[1];
+    const android = /\bandroid\s*:\s*\{([^}]*)\}/.exec(content)?.[1] ?? '';
+    return {
+      name: property('name'),
+      slug: property('slug'),
+      version: property('version'),
+      orientation: property('orientation'),
+      icon: property('icon'),
+      android: { package: property('package', android) },
+    };
+  }
+
+  private async hasExpoDependency(projectPath: string): Promise<boolean> {
+    const packageJsonPath = path.join(projectPath, 'package.json');
+    if (!(await this.fileManager.fileExists(packageJsonPath))) return false;
+    try {
+      const packageJson = JSON.parse(await this.fileManager.readFile(packageJsonPath));
+      return Boolean(packageJson.dependencies?.expo);
+    } catch {
+      return false;
+    }
+  }
+
+  // A copy of app.json with the package name, next to links to everything else in the project; undefined when
+  // app.json can't be read
+  private async stageAppJson(projectPath: string, packageName: string): Promise<string | undefined> {
+    let appJson: any;
+    try {
+      appJson = JSON.parse(await this.fileManager.readFile(path.join(projectPath, 'app.json')));
+    } catch {
+      return undefined;
+    }
+    appJson.expo.android = { ...appJson.expo.android, package: packageName };
+
+    const stagingDir = path.join(projectPath, PREBUILD_STAGING_DIR);
+    await this.fileManager.deleteDirectory(stagingDir);
+    await this.fileManager.ensureDirectory(stagingDir);
+    // Prebuild rewrites package.json, .gitignore and app.json, so everything is copied; with --no-install
+    // it only reads node_modules, which is linked instead of copied
+    for (const file of await this.fileManager.listFiles(projectPath)) {
+      if (file === 'app.json') continue;
+      await this.fileManager.copyFile(path.join(projectPath, file), path.join(stagingDir, file));
+    }
+    for (const directory of await this.fileManager.listDirectories(projectPath)) {
+      if (directory === 'build') continue;
+      if (directory === 'node_modules') {
+        await this.fileManager.createSymlink(path.join(projectPath, directory), path.join(stagingDir, directory));
+      } else {
+        await this.fileManager.copyDirectory(path.join(projectPath, directory), path.join(stagingDir, directory));
+      }
+    }
+    await this.fileManager.writeFile(path.join(stagingDir, 'app.json'), JSON.stringify(appJson, null, 2));
+    return stagingDir;
+  }
+}
@@ -0,0 +1,111 @@
+import path from 'path';
+import AdmZip from 'adm-zip';
+import type { BuildOutput } from '../apkBuilder';
+import { FileManager } from '../fileManager';
+import type { SigningKey } from '../keystoreParser';
+import type { ProjectAnalysis } from '../projectAnalyzer';
+
+export interface StepResult {
+  success: boolean;
+  logs: string[];
+  errors: string[];
+}
+
+export interface FrameworkDetection {
+  language: string;
+  projectType: string;
+}
+
+// A supported project type. ProjectAnalyzer and ApkBuilder look builders up in a FrameworkRegistry by
+// analysis.framework, so adding a framework means registering one more builder.
+export interface FrameworkBuilder {
+  // Stored as analysis.framework, e.g. react-native
+  readonly id: string;
+  // Directories, relative to the project, where the native toolchain looks for the Gradle build and its outputs
+  readonly gradleRoots: string[];
+
+  // May read config files, e.g. app.json for Expo
+  detect(projectPath: string, files: string[]): Promise<FrameworkDetection | undefined>;
+  analyze(projectPath: string, files: string[], analysis: ProjectAnalysis): Promise<void>;
+  // Files that must exist once the project is prepared
+  essentialFiles(analysis: ProjectAnalysis): string[];
+  // Where the web app lives for the WebView shell, in order; undefined for frameworks that compile to dex
+  webRoots(analysis: ProjectAnalysis): string[] | undefined;
+
+  // Preparation steps, in the order ApkBuilder runs them; commands they run are stopped when the signal aborts
+  installDependencies(projectPath: string, analysis: ProjectAnalysis, result: StepResult, signal?: AbortSignal): Promise<void>;
+  createMissingFiles(projectPath: string, analysis: ProjectAnalysis, result: StepResult, signal?: AbortSignal): Promise<void>;
+  setupEnvironment(projectPath: string, analysis: ProjectAnalysis, result: StepResult, signal?: AbortSignal): Promise<void>;
+  installBuildTools(projectPath: string, analysis: ProjectAnalysis, result: StepResult, signal?: AbortSignal): Promise<void>;
+
+  // Framework files the built-in packager adds to a compiled app's assets
+  addAssets(zip: AdmZip, projectPath: string): Promise<void>;
+  // Runs once every output is packaged and signed, e.g. for files the app's website needs
+  finishBuild(projectPath: string, analysis: ProjectAnalysis, outputs: BuildOutput[], signingKey: SigningKey | undefined, result: StepResult): Promise<void>;
+}
+
+// Directories named by the uploaded project's config, e.g. Capacitor's webDir, must stay inside the project;
+// returns the absolute path, or undefined for one that leaves it
+export function resolveInsideProject(projectPath: string, relativePath: string): string | undefined {
+  const root = path.resolve(projectPath);
+  const resolved = path.resolve(root, relativePath);
+  return resolved === root || resolved.startsWith(root + path.sep) ? resolved : undefined;
+}
+
+// Defaults for the optional steps: nothing to install or create, a Gradle build in android/ and the
+// project's top-level web files as assets
+export abstract class BaseFrameworkBuilder implements FrameworkBuilder {
+  abstract readonly id: string;
+  readonly gradleRoots: string[] = ['android'];
+
+  protected fileManager: FileManager;
+
+  constructor(fileManager: FileManager) {
+    this.fileManager = fileManager;
+  }
+
+  abstract detect(projectPath: string, files: string[]): Promise<FrameworkDetection | undefined>;
+  abstract analyze(projectPath: string, files: string[], analysis: ProjectAnalysis): Promise<void>;
+
+  essentialFiles(analysis: ProjectAnalysis): string[] {
+    return [];
+  }
+
+  webRoots(analysis: ProjectAnalysis): string[] | undefined {
+    return undefined;
+  }
+
+  async installDependencies(projectPath: string, analysis: ProjectAnalysis, result: StepResult): Promise<void> {
+    result.logs.push(`Framework ${analysis.framework} detected - dependencies analyzed`);
+  }
+
+  async createMissingFiles(projectPath: string, analysis: ProjectAnalysis, result: StepResult): Promise<void> {}
+
+  async setupEnvironment(projectPath: string, analysis: ProjectAnalysis, result: StepResult): Promise<void> {}
+
+  async installBuildTools(projectPath: string, analysis: ProjectAnalysis, result: StepResult): Promise<void> {}
+
+  async addAssets(zip: AdmZip, projectPath: string): Promise<void> {
+    // Add any available assets from the project
+    const possibleAssets = ['index.html', 'app.js', 'main.js', 'package.json'];
+    for (const asset of possibleAssets) {
+      try {
+        const assetPath = path.join(projectPath, asset);
+        if (await this.fileManager.fileExists(assetPath)) {
+          const content = await this.fileManager.readFile(assetPath);
+          zip.addFile(`assets/${asset}`, Buffer.from(content));
+        }
+      } catch (error) {
+        // Continue if asset cannot be read
+      }
+    }
+  }
+
+  async finishBuild(projectPath: string, analysis: ProjectAnalysis, outputs: BuildOutput[], signingKey: SigningKey | undefined, result: StepResult): Promise<void> {}
+
+  protected extractGradleValue(content: string, key: string): number | undefined {
+    const regex = new RegExp(`${key}\\s+(\\d+)`);
+    const match = content.match(regex);
+    return match ? parseInt(match[1]) : undefined;
+  }
+}
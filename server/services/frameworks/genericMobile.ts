@@ -0,0 +1,19 @@
+import type { ProjectAnalysis } from '../projectAnalyzer';
+import { BaseFrameworkBuilder, FrameworkDetection } from './frameworkBuilder';
+
+// Projects no other builder recognizes, packaged as a web app in the WebView shell
+export class GenericMobileBuilder extends BaseFrameworkBuilder {
+  readonly id = 'generic-mobile';
+  readonly gradleRoots = ['.', 'android', 'platforms/android'];
+
+  // Only ever used as the registry's fallback
+  async detect(projectPath: string, files: string[]): Promise<FrameworkDetection | undefined> {
+    return undefined;
+  }
+
+  async analyze(projectPath: string, files: string[], analysis: ProjectAnalysis): Promise<void> {}
+
+  webRoots(analysis: ProjectAnalysis): string[] {
+    return ['www', 'dist', 'build', 'public', '.'];
+  }
+}
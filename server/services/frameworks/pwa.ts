@@ -0,0 +1,238 @@
+import { X509Certificate } from 'crypto';
+import path from 'path';
+import type { BuildOutput } from '../apkBuilder';
+import type { SigningKey } from '../keystoreParser';
+import type { ProjectAnalysis } from '../projectAnalyzer';
+import { BaseFrameworkBuilder, FrameworkDetection, StepResult } from './frameworkBuilder';
+
+// Folders a PWA is served from, checked in order
+const WEB_ROOTS = ['.', 'public', 'www', 'dist', 'build'];
+const WEB_MANIFESTS = ['manifest.json', 'manifest.webmanifest', 'site.webmanifest'];
+const SERVICE_WORKERS = ['service-worker.js', 'sw.js', 'serviceworker.js', 'serviceWorker.js'];
+// Display modes an installed PWA opens in; browser opens a plain tab
+const APP_DISPLAYS = ['fullscreen', 'standalone', 'minimal-ui'];
+// Chrome only offers to install PWAs with both icon sizes
+const REQUIRED_ICON_SIZES = ['192x192', '512x512'];
+// Web manifest orientations and the android:screenOrientation they map to
+const ORIENTATIONS: Record<string, string> = {
+  portrait: 'portrait',
+  'portrait-primary': 'portrait',
+  'portrait-secondary': 'reversePortrait',
+  landscape: 'landscape',
+  'landscape-primary': 'landscape',
+  'landscape-secondary': 'reverseLandscape',
+};
+// Written next to the build outputs; the site serves it at /.well-known/assetlinks.json
+export const ASSET_LINKS_FILE = 'build/outputs/assetlinks.json';
+
+interface WebManifest {
+  name?: string;
+  short_name?: string;
+  version?: string;
+  id?: string;
+  start_url?: string;
+  scope?: string;
+  display?: string;
+  orientation?: string;
+  theme_color?: string;
+  background_color?: string;
+  icons?: Array<{ src?: string; sizes?: string; type?: string; purpose?: string }>;
+}
+
+interface PwaSite {
+  // Relative to the project, '.' for the project root
+  webRoot: string;
+  manifestFile: string;
+  // Relative to webRoot
+  serviceWorker: string;
+}
+
+// Progressive web apps: a web manifest and service worker next to index.html, packaged with their
+// assets in the WebView shell so they work offline, Trusted Web Activity style
+export class PwaBuilder extends BaseFrameworkBuilder {
+  readonly id = 'pwa';
+  readonly gradleRoots: string[] = [];
+
+  async detect(projectPath: string, files: string[]): Promise<FrameworkDetection | undefined> {
+    // Cordova apps often ship a PWA manifest in www/, the Cordova builder packages those
+    if (files.includes('config.xml')) return undefined;
+    if (!(await this.findSite(projectPath, files))) return undefined;
+    const hasTypeScript = files.some(f => f.endsWith('.ts') && !f.endsWith('.d.ts'));
+    return { language: hasTypeScript ? 'typescript' : 'javascript', projectType: 'pwa' };
+  }
+
+  async analyze(projectPath: string, files: string[], analysis: ProjectAnalysis): Promise<void> {
+    const site = (await this.findSite(projectPath, files))!;
+    const inRoot = (file: string) => path.posix.join(site.webRoot, file);
+    analysis.buildConfig = {
+      webRoot: site.webRoot,
+      manifestFile: inRoot(site.manifestFile),
+      serviceWorker: inRoot(site.serviceWorker),
+      appName: 'Mobile App',
+      targetSdk: 34,
+      minSdk: 21
+    };
+    analysis.projectStats.targetSdk = 34;
+    analysis.projectStats.minSdk = 21;
+    analysis.projectStats.sourceFiles = files.filter(f => f.endsWith('.html') || f.endsWith('.js') || f.endsWith('.css')).length;
+    analysis.missingFiles = [];
+
+    let manifest: WebManifest;
+    try {
+      manifest = JSON.parse(await this.fileManager.readFile(path.join(projectPath, site.webRoot, site.manifestFile)));
+    } catch (error) {
+      analysis.errors.push(`Failed to parse ${analysis.buildConfig.manifestFile}`);
+      return;
+    }
+    this.readManifest(manifest, site, files, analysis);
+    await this.checkServiceWorker(projectPath, site, files, analysis);
+  }
+
+  webRoots(analysis: ProjectAnalysis): string[] {
+    return [analysis.buildConfig.webRoot];
+  }
+
+  async installBuildTools(projectPath: string, analysis: ProjectAnalysis, result: StepResult): Promise<void> {
+    const { manifestFile, display, themeColor, backgroundColor, webOrigin } = analysis.buildConfig;
+    result.logs.push(`Web manifest ${manifestFile}: display ${display || 'browser'}, theme color ${themeColor || 'none'}, splash color ${backgroundColor || 'none'}`);
+    result.logs.push(webOrigin
+      ? `Links to ${webOrigin} open in the app once the site serves the generated assetlinks.json`
+      : 'The web manifest has no absolute start_url, scope or id - no site to verify app links against');
+
+    // The shell loads index.html from file:///android_asset/, where service workers don't run
+    const webRoot = path.join(projectPath, analysis.buildConfig.webRoot);
+    const location = analysis.buildConfig.webRoot === '.' ? 'the project root' : `${analysis.buildConfig.webRoot}/`;
+    result.logs.push(`Bundling the web app in ${location} as offline assets; service workers don't run in the WebView shell, the APK carries every file instead`);
+
+    const indexHtml = await this.fileManager.readFile(path.join(webRoot, 'index.html'));
+    const rootAbsolute = Array.from(indexHtml.matchAll(/\b(?:src|href)\s*=\s*["'](\/[^/"'][^"']*)["']/g), match => match[1]);
+    if (rootAbsolute.length > 0) {
+      result.logs.push(`index.html refers to ${rootAbsolute.slice(0, 3).join(', ')}${rootAbsolute.length > 3 ? ', ...' : ''} from the site root, which does not resolve inside the APK - use relative paths`);
+    }
+  }
+
+  // Digital Asset Links statement for the site, one per application id the build produced
+  async finishBuild(projectPath: string, analysis: ProjectAnalysis, outputs: BuildOutput[], signingKey: SigningKey | undefined, result: StepResult): Promise<void> {
+    if (!signingKey) {
+      result.logs.push('No keystore supplied - assetlinks.json needs the signing certificate fingerprint and was not generated');
+      return;
+    }
+    const fingerprint = new X509Certificate(signingKey.certificates[0]).fingerprint256;
+    const applicationIds = Array.from(new Set(outputs.map(output => output.applicationId)));
+    const statements = applicationIds.map(applicationId => ({
+      relation: ['delegate_permission/common.handle_all_urls'],
+      target: { namespace: 'android_app', package_name: applicationId, sha256_cert_fingerprints: [fingerprint] },
+    }));
+    await this.fileManager.writeFile(path.join(projectPath, ASSET_LINKS_FILE), JSON.stringify(statements, null, 2));
+    const location = analysis.buildConfig.webOrigin ? `${analysis.buildConfig.webOrigin}/.well-known/assetlinks.json` : '/.well-known/assetlinks.json on the app\'s site';
+    result.logs.push(`Digital Asset Links file generated for ${applicationIds.join(', ')}, serve it at ${location}`);
+  }
+
+  // The first web root with index.html, a web manifest and a service worker, either a known file
+  // name or one index.html registers
+  private async findSite(projectPath: string, files: string[]): Promise<PwaSite | undefined> {
+    for (const webRoot of WEB_ROOTS) {
+      const inRoot = (file: string) => path.posix.join(webRoot, file);
+      if (!files.includes(inRoot('index.html'))) continue;
+      const manifestFile = WEB_MANIFESTS.find(file => files.includes(inRoot(file)));
+      if (!manifestFile) continue;
+
+      const indexHtml = await this.fileManager.readFile(path.join(projectPath, webRoot, 'index.html'));
+      const registered = /serviceWorker\s*\.\s*register\(\s*['"`]\.?\/?([^'"`?#]+)/.exec(indexHtml)?.[1];
+      const serviceWorker = registered ?? SERVICE_WORKERS.find(file => files.includes(inRoot(file)));
+      if (serviceWorker) return { webRoot, manifestFile, serviceWorker };
+    }
+    return undefined;
+  }
+
+  // Reads the settings the APK is built with and warns about what keeps the PWA from being installable
+  private readManifest(manifest: WebManifest, site: PwaSite, files: string[], analysis: ProjectAnalysis): void {
+    const config = analysis.buildConfig;
+    const warn = (message: string) => analysis.warnings.push(`${config.manifestFile}: ${message}`);
+
+    const name = manifest.name || manifest.short_name;
+    if (name) config.appName = name;
+    else warn('name and short_name are missing, the app is labelled Mobile App');
+    if (manifest.version) config.version = manifest.version;
+    if (!manifest.start_url) warn('start_url is missing');
+    config.startUrl = manifest.start_url;
+    config.scope = manifest.scope;
+
+    config.display = manifest.display;
+    if (!manifest.display || !APP_DISPLAYS.includes(manifest.display)) {
+      warn(`display ${manifest.display || 'is missing and defaults to browser'}, installed PWAs use standalone, fullscreen or minimal-ui`);
+    }
+    if (manifest.orientation && ORIENTATIONS[manifest.orientation]) {
+      config.orientation = ORIENTATIONS[manifest.orientation];
+    }
+
+    config.themeColor = this.hexColor(manifest.theme_color, 'theme_color', warn);
+    config.backgroundColor = this.hexColor(manifest.background_color, 'background_color', warn);
+    config.splashBackgroundColor = config.backgroundColor;
+
+    // Icon URLs resolve against the manifest, root-relative ones against the web root
+    const icons = manifest.icons ?? [];
+    config.icons = icons.map(icon => icon.src).filter(Boolean);
+    if (icons.length === 0) warn('no icons');
+    for (const icon of icons) {
+      if (!icon.src || /^(https?:|data:)/.test(icon.src)) continue;
+      const iconFile = path.posix.join(site.webRoot, icon.src.replace(/^\//, '').split(/[?#]/)[0]);
+      if (!files.includes(iconFile)) analysis.missingFiles.push(iconFile);
+    }
+    const sizes = icons.flatMap(icon => (icon.sizes ?? '').split(/\s+/));
+    const missingSizes = REQUIRED_ICON_SIZES.filter(size => !sizes.includes(size));
+    if (icons.length > 0 && missingSizes.length > 0) warn(`no ${missingSizes.join(' or ')} icon`);
+
+    // TWA verification needs the https site the app belongs to
+    const absolute = [manifest.id, manifest.start_url, manifest.scope].find(url => url && /^https:\/\//.test(url));
+    if (absolute) {
+      const origin = new URL(absolute);
+      config.webOrigin = origin.origin;
+      config.packageName = this.packageNameFor(origin.hostname);
+    }
+  }
+
+  private async checkServiceWorker(projectPath: string, site: PwaSite, files: string[], analysis: ProjectAnalysis): Promise<void> {
+    const serviceWorker = analysis.buildConfig.serviceWorker;
+    if (!files.includes(serviceWorker)) {
+      analysis.missingFiles.push(serviceWorker);
+      return;
+    }
+    const script = await this.fileManager.readFile(path.join(projectPath, serviceWorker));
+    if (!/addEventListener\(\s*['"]fetch['"]|\bonfetch\b/.test(script)) {
+      analysis.warnings.push(`${serviceWorker} has no fetch handler, the site does not work offline in a browser`);
+    }
+
+    // cache.addAll fails as a whole, so one missing precache entry keeps the worker from installing
+    const addAll = /addAll\(\s*(\[[^\]]*\]|\w+)/.exec(script)?.[1];
+    const list = addAll?.startsWith('[') ? addAll : addAll && new RegExp(`\\b${addAll}\\s*=\\s*(\\[[^\\]]*\\])`).exec(script)?.[1];
+    const precached = Array.from((list ?? '').matchAll(/['"`]([^'"`]+)['"`]/g), match => match[1]);
+    for (const url of precached) {
+      if (/^https?:/.test(url)) continue;
+      const file = url.replace(/^\.?\//, '').split(/[?#]/)[0] || 'index.html';
+      if (!files.includes(path.posix.join(site.webRoot, file))) {
+        analysis.warnings.push(`${serviceWorker} precaches ${url}, which is not in the web app, so the worker never installs`);
+      }
+    }
+  }
+
+  // #RGB or #RRGGBB as #RRGGBB; other CSS colors can't be used for Android resources
+  private hexColor(value: string | undefined, key: string, warn: (message: string) => void): string | undefined {
+    if (!value) {
+      warn(`${key} is missing`);
+      return undefined;
+    }
+    if (/^#[0-9a-fA-F]{6}$/.test(value)) return value;
+    if (/^#[0-9a-fA-F]{3}$/.test(value)) return `#${value.slice(1).split('').map(digit => digit + digit).join('')}`;
+    warn(`${key} ${value} is not a hex color and is not used for the app`);
+    return undefined;
+  }
+
+  // Bubblewrap's convention: the reversed host plus .twa, e.g. app.example.com -> com.example.app.twa
+  private packageNameFor(hostname: string): string {
+    const segments = hostname.toLowerCase().split('.').reverse()
+      .map(segment => segment.replace(/[^a-z0-9_]/g, '_'))
+      .map(segment => (/^[a-z]/.test(segment) ? segment : `a${segment}`));
+    return [...segments, 'twa'].join('.');
+  }
+}
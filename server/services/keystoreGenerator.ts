@@ -0,0 +1,242 @@
+import crypto, { KeyObject } from 'crypto';
+import forge from 'node-forge';
+import { SigningKey } from './keystoreParser';
+
+export interface DistinguishedName {
+  commonName: string;
+  organizationUnit?: string;
+  organization?: string;
+  locality?: string;
+  state?: string;
+  country: string;
+}
+
+export interface KeystoreOptions {
+  alias: string;
+  storePassword: string;
+  keyAlgorithm: 'RSA' | 'EC';
+  distinguishedName: DistinguishedName;
+  validityYears: number;
+}
+
+export interface GeneratedKeystore {
+  // PKCS#12 file contents
+  keystore: Buffer;
+  signingKey: SigningKey;
+}
+
+const { asn1 } = forge;
+
+const OID_SHA256_WITH_RSA = '1.2.840.113549.1.1.11';
+const OID_ECDSA_WITH_SHA256 = '1.2.840.10045.4.3.2';
+const OID_SUBJECT_KEY_IDENTIFIER = '2.5.29.14';
+const OID_X509_CERTIFICATE = '1.2.840.113549.1.9.22.1';
+const OID_FRIENDLY_NAME = '1.2.840.113549.1.9.20';
+const OID_LOCAL_KEY_ID = '1.2.840.113549.1.9.21';
+const OID_SHA256 = '2.16.840.1.101.3.4.2.1';
+const MAC_ITERATIONS = 10000;
+
+// PBES2 with AES-256 and an HMAC-SHA256 PRF, like keytool's PKCS#12 keys
+interface KeyEncryptionOptions extends forge.pki.EncryptionOptions {
+  algorithm: 'aes256';
+  count: number;
+  prfAlgorithm: 'sha256';
+}
+
+const KEY_ENCRYPTION: KeyEncryptionOptions = {
+  algorithm: 'aes256',
+  count: MAC_ITERATIONS,
+  prfAlgorithm: 'sha256',
+};
+
+// Attribute order follows X.500 convention (most general first), as keytool encodes it
+const DN_ATTRIBUTES: Array<[keyof DistinguishedName, string, number]> = [
+  ['country', '2.5.4.6', asn1.Type.PRINTABLESTRING],
+  ['state', '2.5.4.8', asn1.Type.UTF8],
+  ['locality', '2.5.4.7', asn1.Type.UTF8],
+  ['organization', '2.5.4.10', asn1.Type.UTF8],
+  ['organizationUnit', '2.5.4.11', asn1.Type.UTF8],
+  ['commonName', '2.5.4.3', asn1.Type.UTF8],
+];
+
+export class KeystoreGenerator {
+  // Creates a key pair with a self-signed certificate and packs it into a PKCS#12 keystore
+  generate(options: KeystoreOptions): GeneratedKeystore {
+    const { privateKey, publicKey } = options.keyAlgorithm === 'RSA'
+      ? crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+    const certificate = this.createCertificate(options, privateKey, publicKey);
+    // Like keytool, PKCS#12 keys are protected with the store password
+    const keystore = this.createPkcs12(options.alias, options.storePassword, privateKey, certificate);
+
+    return {
+      keystore,
+      signingKey: {
+        alias: options.alias,
+        keyAlgorithm: options.keyAlgorithm,
+        privateKey,
+        certificates: [certificate],
+      },
+    };
+  }
+
+  private createCertificate(options: KeystoreOptions, privateKey: KeyObject, publicKey: KeyObject): Buffer {
+    const notBefore = new Date();
+    const notAfter = new Date(notBefore);
+    notAfter.setFullYear(notAfter.getFullYear() + options.validityYears);
+
+    const serial = crypto.randomBytes(8);
+    serial[0] = (serial[0] & 0x7f) | 0x01; // positive and without leading zero byte
+
+    const subjectPublicKeyInfo = this.fromDer(publicKey.export({ type: 'spki', format: 'der' }));
+    const name = this.encodeName(options.distinguishedName);
+    const signatureAlgorithm = options.keyAlgorithm === 'RSA'
+      ? this.algorithmIdentifier(OID_SHA256_WITH_RSA, true)
+      : this.algorithmIdentifier(OID_ECDSA_WITH_SHA256, false);
+
+    // SubjectKeyIdentifier: SHA-1 of the public key bits (RFC 5280 method 1)
+    // forge decodes BIT STRINGs wrapping DER (RSA keys) into children but keeps the raw contents
+    const bitString = (subjectPublicKeyInfo.value as forge.asn1.Asn1[])[1] as forge.asn1.Asn1 & { bitStringContents?: string };
+    const publicKeyBits = (bitString.bitStringContents ?? bitString.value as string).substring(1);
+    const keyIdentifier = crypto.createHash('sha1').update(Buffer.from(publicKeyBits, 'binary')).digest();
+
+    const tbsCertificate = this.sequence([
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [this.integer(2)]),
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, serial.toString('binary')),
+      signatureAlgorithm,
+      name,
+      this.sequence([this.encodeTime(notBefore), this.encodeTime(notAfter)]),
+      name,
+      subjectPublicKeyInfo,
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 3, true, [
+        this.sequence([
+          this.sequence([
+            this.oid(OID_SUBJECT_KEY_IDENTIFIER),
+            this.octetString(this.toDer(asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, keyIdentifier.toString('binary')))),
+          ]),
+        ]),
+      ]),
+    ]);
+
+    const signature = crypto.sign('sha256', this.toDer(tbsCertificate), privateKey);
+    return this.toDer(this.sequence([
+      tbsCertificate,
+      signatureAlgorithm,
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.BITSTRING, false, '\x00' + signature.toString('binary')),
+    ]));
+  }
+
+  // Builds a PKCS#12 (RFC 7292) store with one certificate bag and one shrouded key bag
+  private createPkcs12(alias: string, password: string, privateKey: KeyObject, certificate: Buffer): Buffer {
+    const localKeyId = crypto.createHash('sha1').update(certificate).digest();
+    const bagAttributes = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, [
+      this.sequence([
+        this.oid(OID_FRIENDLY_NAME),
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, [
+          asn1.create(asn1.Class.UNIVERSAL, asn1.Type.BMPSTRING, false, alias),
+        ]),
+      ]),
+      this.sequence([
+        this.oid(OID_LOCAL_KEY_ID),
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, [this.octetString(localKeyId)]),
+      ]),
+    ]);
+
+    const certBag = this.sequence([
+      this.oid(forge.pki.oids.certBag),
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [
+        this.sequence([
+          this.oid(OID_X509_CERTIFICATE),
+          asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [this.octetString(certificate)]),
+        ]),
+      ]),
+      bagAttributes,
+    ]);
+
+    const privateKeyInfo = this.fromDer(privateKey.export({ type: 'pkcs8', format: 'der' }));
+    const encryptedKey = forge.pki.encryptPrivateKeyInfo(privateKeyInfo, password, KEY_ENCRYPTION);
+    const keyBag = this.sequence([
+      this.oid(forge.pki.oids.pkcs8ShroudedKeyBag),
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [encryptedKey]),
+      bagAttributes,
+    ]);
+
+    const authenticatedSafe = this.toDer(this.sequence([
+      this.dataContentInfo(this.toDer(this.sequence([certBag]))),
+      this.dataContentInfo(this.toDer(this.sequence([keyBag]))),
+    ]));
+
+    const macSalt = crypto.randomBytes(20);
+    const macKey = forge.pkcs12.generateKey(password, forge.util.createBuffer(macSalt.toString('binary')),
+      3, MAC_ITERATIONS, 32, forge.md.sha256.create());
+    const mac = crypto.createHmac('sha256', Buffer.from(macKey.getBytes(), 'binary')).update(authenticatedSafe).digest();
+
+    return this.toDer(this.sequence([
+      this.integer(3),
+      this.dataContentInfo(authenticatedSafe),
+      this.sequence([
+        this.sequence([this.algorithmIdentifier(OID_SHA256, true), this.octetString(mac)]),
+        this.octetString(macSalt),
+        this.integer(MAC_ITERATIONS),
+      ]),
+    ]));
+  }
+
+  private encodeName(dn: DistinguishedName): forge.asn1.Asn1 {
+    return this.sequence(DN_ATTRIBUTES
+      .filter(([field]) => dn[field])
+      .map(([field, oid, type]) => asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, [
+        this.sequence([
+          this.oid(oid),
+          asn1.create(asn1.Class.UNIVERSAL, type, false,
+            type === asn1.Type.UTF8 ? forge.util.encodeUtf8(dn[field]!) : dn[field]!),
+        ]),
+      ])));
+  }
+
+  // RFC 5280: UTCTime through 2049, GeneralizedTime from 2050 on
+  private encodeTime(date: Date): forge.asn1.Asn1 {
+    return date.getUTCFullYear() < 2050
+      ? asn1.create(asn1.Class.UNIVERSAL, asn1.Type.UTCTIME, false, asn1.dateToUtcTime(date))
+      : asn1.create(asn1.Class.UNIVERSAL, asn1.Type.GENERALIZEDTIME, false, asn1.dateToGeneralizedTime(date));
+  }
+
+  private dataContentInfo(content: Buffer): forge.asn1.Asn1 {
+    return this.sequence([
+      this.oid(forge.pki.oids.data),
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [this.octetString(content)]),
+    ]);
+  }
+
+  private algorithmIdentifier(oid: string, withNullParams: boolean): forge.asn1.Asn1 {
+    return this.sequence([
+      this.oid(oid),
+      ...(withNullParams ? [asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, '')] : []),
+    ]);
+  }
+
+  private sequence(values: forge.asn1.Asn1[]): forge.asn1.Asn1 {
+    return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, values);
+  }
+
+  private oid(oid: string): forge.asn1.Asn1 {
+    return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(oid).getBytes());
+  }
+
+  private integer(value: number): forge.asn1.Asn1 {
+    return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(value).getBytes());
+  }
+
+  private octetString(data: Buffer): forge.asn1.Asn1 {
+    return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, data.toString('binary'));
+  }
+
+  private fromDer(der: Buffer): forge.asn1.Asn1 {
+    return asn1.fromDer(forge.util.createBuffer(der.toString('binary')));
+  }
+
+  private toDer(value: forge.asn1.Asn1): Buffer {
+    return Buffer.from(asn1.toDer(value).getBytes(), 'binary');
+  }
+}
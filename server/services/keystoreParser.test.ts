@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+import forge from 'node-forge';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { KeystoreGenerator } from './keystoreGenerator';
+import { KeystoreError, KeystoreParser, type SigningKey } from './keystoreParser';
+
+const passwordBytes = (password: string) => Buffer.from(password, 'utf16le').swap16();
+
+// Sun's key protector: a random salt, the key XORed with a SHA-1 keystream and a SHA-1 check
+function protectJksKey(key: Buffer, password: string): Buffer {
+  const salt = crypto.randomBytes(20);
+  const encrypted = Buffer.alloc(key.length);
+  let keystream = salt;
+  for (let i = 0; i < key.length; i += 20) {
+    keystream = crypto.createHash('sha1').update(passwordBytes(password)).update(keystream).digest();
+    for (let j = 0; j < 20 && i + j < key.length; j++) {
+      encrypted[i + j] = key[i + j] ^ keystream[j];
+    }
+  }
+  const check = crypto.createHash('sha1').update(passwordBytes(password)).update(key).digest();
+
+  const { asn1 } = forge;
+  const info = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer('1.3.6.1.4.1.42.2.17.1.1').getBytes()),
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, ''),
+    ]),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false,
+      Buffer.concat([salt, encrypted, check]).toString('binary')),
+  ]);
+  return Buffer.from(asn1.toDer(info).getBytes(), 'binary');
+}
+
+// A version 2 JKS file with one private key entry, as keytool writes it
+function createJks(key: SigningKey, storePassword: string, keyPassword: string): Buffer {
+  const uint32 = (value: number) => {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32BE(value, 0);
+    return buffer;
+  };
+  const utf = (value: string) => {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([Buffer.from([bytes.length >> 8, bytes.length & 0xff]), bytes]);
+  };
+  const protectedKey = protectJksKey(key.privateKey.export({ type: 'pkcs8', format: 'der' }), keyPassword);
+
+  const body = Buffer.concat([
+    uint32(0xfeedfeed), uint32(2), uint32(1),
+    uint32(1), utf(key.alias), Buffer.alloc(8),
+    uint32(protectedKey.length), protectedKey,
+    uint32(key.certificates.length),
+    ...key.certificates.flatMap(certificate => [utf('X.509'), uint32(certificate.length), certificate]),
+  ]);
+  const digest = crypto.createHash('sha1')
+    .update(passwordBytes(storePassword))
+    .update(Buffer.from('Mighty Aphrodite', 'utf8'))
+    .update(body)
+    .digest();
+  return Buffer.concat([body, digest]);
+}
+
+describe('KeystoreParser', () => {
+  const parser = new KeystoreParser();
+  let key: SigningKey;
+
+  beforeAll(() => {
+    key = new KeystoreGenerator().generate({
+      alias: 'upload',
+      storePassword: 'store-secret',
+      keyAlgorithm: 'EC',
+      distinguishedName: { commonName: 'Acme Apps', country: 'US' },
+      validityYears: 25,
+    }).signingKey;
+  });
+
+  it('reads the key and certificate chain from a JKS keystore', () => {
+    const jks = createJks(key, 'store-secret', 'key-secret');
+
+    const parsed = parser.parse(jks, 'store-secret', 'UPLOAD', 'key-secret');
+
+    expect(parsed.alias).toBe('upload');
+    expect(parsed.keyAlgorithm).toBe('EC');
+    expect(parsed.certificates).toEqual(key.certificates);
+    expect(parsed.privateKey.export({ type: 'pkcs8', format: 'der' }))
+      .toEqual(key.privateKey.export({ type: 'pkcs8', format: 'der' }));
+  });
+
+  it('uses the store password for the key when no key password is given', () => {
+    const jks = createJks(key, 'store-secret', 'store-secret');
+
+    expect(parser.parse(jks, 'store-secret', 'upload').alias).toBe('upload');
+  });
+
+  it('rejects a wrong store or key password', () => {
+    const jks = createJks(key, 'store-secret', 'key-secret');
+
+    expect(() => parser.parse(jks, 'wrong', 'upload', 'key-secret')).toThrow(/tampered with, or password was incorrect/);
+    expect(() => parser.parse(jks, 'store-secret', 'upload', 'wrong')).toThrow(/wrong key password/);
+  });
+
+  it('rejects a JKS keystore that was modified', () => {
+    const jks = createJks(key, 'store-secret', 'key-secret');
+    jks[jks.length - 40] ^= 0xff;
+
+    expect(() => parser.parse(jks, 'store-secret', 'upload', 'key-secret')).toThrow(KeystoreError);
+  });
+
+  it('rejects JCEKS keystores', () => {
+    const jceks = Buffer.from([0xce, 0xce, 0xce, 0xce, 0, 0, 0, 2]);
+
+    expect(() => parser.parse(jceks, 'store-secret', 'upload')).toThrow(/JCEKS keystores are not supported/);
+  });
+});
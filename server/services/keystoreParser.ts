@@ -0,0 +1,245 @@
+import crypto, { KeyObject, X509Certificate } from 'crypto';
+import forge from 'node-forge';
+
+export interface SigningKey {
+  alias: string;
+  keyAlgorithm: 'RSA' | 'EC';
+  privateKey: KeyObject;
+  // DER-encoded certificate chain, signer certificate first
+  certificates: Buffer[];
+}
+
+export class KeystoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeystoreError';
+  }
+}
+
+const JKS_MAGIC = 0xFEEDFEED;
+const JCEKS_MAGIC = 0xCECECECE;
+const JKS_KEY_PROTECTOR_OID = '1.3.6.1.4.1.42.2.17.1.1';
+
+interface KeystoreEntry {
+  alias: string;
+  privateKeyDer?: Buffer;
+  // JKS keys are only decrypted for the alias being used, other aliases may have other passwords
+  protectedKey?: Buffer;
+  certificates: Buffer[];
+}
+
+export class KeystoreParser {
+  // Parses a JKS or PKCS#12 keystore and returns the signing key stored under `alias`
+  parse(data: Buffer, storePassword: string, alias: string, keyPassword?: string): SigningKey {
+    const entries = this.isJks(data)
+      ? this.parseJks(data, storePassword)
+      : this.parsePkcs12(data, storePassword, keyPassword || storePassword);
+
+    const entry = entries.find(e => e.alias.toLowerCase() === alias.toLowerCase())
+      // PKCS#12 files exported without friendly names have no alias to match against
+      || (entries.length === 1 && !entries[0].alias ? entries[0] : undefined);
+
+    if (!entry) {
+      const aliases = entries.map(e => e.alias).filter(Boolean).join(', ') || 'none';
+      throw new KeystoreError(`Alias "${alias}" not found in keystore (available: ${aliases})`);
+    }
+    if (entry.protectedKey) {
+      entry.privateKeyDer = this.recoverJksKey(entry.protectedKey, keyPassword || storePassword);
+    }
+    if (!entry.privateKeyDer) {
+      throw new KeystoreError(`Alias "${alias}" does not contain a private key`);
+    }
+    if (entry.certificates.length === 0) {
+      throw new KeystoreError(`Alias "${alias}" has no certificate chain`);
+    }
+
+    let privateKey: KeyObject;
+    try {
+      privateKey = crypto.createPrivateKey({ key: entry.privateKeyDer, format: 'der', type: 'pkcs8' });
+    } catch (error: any) {
+      throw new KeystoreError(`Unable to read private key: ${error.message}`);
+    }
+
+    const keyType = privateKey.asymmetricKeyType;
+    if (keyType !== 'rsa' && keyType !== 'ec') {
+      throw new KeystoreError(`Unsupported key algorithm: ${keyType}`);
+    }
+
+    // Make sure the certificate actually belongs to the key
+    const certificate = new X509Certificate(entry.certificates[0]);
+    if (!certificate.checkPrivateKey(privateKey)) {
+      throw new KeystoreError(`Certificate for alias "${alias}" does not match its private key`);
+    }
+
+    return {
+      alias: entry.alias || alias,
+      keyAlgorithm: keyType === 'rsa' ? 'RSA' : 'EC',
+      privateKey,
+      certificates: entry.certificates,
+    };
+  }
+
+  private isJks(data: Buffer): boolean {
+    if (data.length < 4) return false;
+    const magic = data.readUInt32BE(0);
+    if (magic === JCEKS_MAGIC) {
+      throw new KeystoreError('JCEKS keystores are not supported, convert to PKCS#12 with keytool -importkeystore');
+    }
+    return magic === JKS_MAGIC;
+  }
+
+  private parsePkcs12(data: Buffer, storePassword: string, keyPassword: string): KeystoreEntry[] {
+    let p12: forge.pkcs12.Pkcs12Pfx;
+    try {
+      const asn1 = forge.asn1.fromDer(forge.util.createBuffer(data.toString('binary')));
+      p12 = forge.pkcs12.pkcs12FromAsn1(asn1, false, storePassword);
+    } catch (error: any) {
+      if (keyPassword !== storePassword) {
+        // Some tools protect the key bag with the key password instead of the store password
+        return this.parsePkcs12(data, keyPassword, keyPassword);
+      }
+      throw new KeystoreError(`Unable to open PKCS#12 keystore, wrong password? (${error.message})`);
+    }
+
+    const entries = new Map<string, KeystoreEntry>();
+    const entryFor = (bag: forge.pkcs12.Bag): KeystoreEntry => {
+      // Key and certificate bags are paired by localKeyId, falling back to the friendly name
+      const localKeyId = bag.attributes?.localKeyId?.[0];
+      const friendlyName = bag.attributes?.friendlyName?.[0] || '';
+      const id = localKeyId ? forge.util.bytesToHex(localKeyId) : friendlyName;
+      let entry = entries.get(id);
+      if (!entry) {
+        entry = { alias: friendlyName, certificates: [] };
+        entries.set(id, entry);
+      }
+      if (!entry.alias) entry.alias = friendlyName;
+      return entry;
+    };
+
+    for (const safeContents of p12.safeContents) {
+      for (const bag of safeContents.safeBags) {
+        if (bag.type === forge.pki.oids.pkcs8ShroudedKeyBag || bag.type === forge.pki.oids.keyBag) {
+          // forge only understands RSA keys and leaves the raw PrivateKeyInfo for anything else
+          const keyInfo = bag.key
+            ? forge.pki.wrapRsaPrivateKey(forge.pki.privateKeyToAsn1(bag.key))
+            : bag.asn1;
+          entryFor(bag).privateKeyDer = this.asn1ToBuffer(keyInfo);
+        } else if (bag.type === forge.pki.oids.certBag) {
+          const certAsn1 = bag.cert ? forge.pki.certificateToAsn1(bag.cert) : bag.asn1;
+          entryFor(bag).certificates.push(this.asn1ToBuffer(certAsn1));
+        }
+      }
+    }
+
+    return this.orderChains(Array.from(entries.values()));
+  }
+
+  private parseJks(data: Buffer, storePassword: string): KeystoreEntry[] {
+    // JKS integrity check: SHA-1 over password, a fixed salt string and the keystore body
+    const body = data.subarray(0, data.length - 20);
+    const expectedDigest = data.subarray(data.length - 20);
+    const digest = crypto.createHash('sha1')
+      .update(Buffer.from(storePassword, 'utf16le').swap16())
+      .update(Buffer.from('Mighty Aphrodite', 'utf8'))
+      .update(body)
+      .digest();
+    if (!digest.equals(expectedDigest)) {
+      throw new KeystoreError('Keystore was tampered with, or password was incorrect');
+    }
+
+    let offset = 4;
+    const readUInt16 = () => {
+      const value = body.readUInt16BE(offset);
+      offset += 2;
+      return value;
+    };
+    const readUInt32 = () => {
+      const value = body.readUInt32BE(offset);
+      offset += 4;
+      return value;
+    };
+    const readBytes = (length: number) => {
+      const value = body.subarray(offset, offset + length);
+      offset += length;
+      return value;
+    };
+    const readUtf = () => readBytes(readUInt16()).toString('utf8');
+
+    const version = readUInt32();
+    const count = readUInt32();
+    const entries: KeystoreEntry[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const tag = readUInt32();
+      const alias = readUtf();
+      readBytes(8); // creation timestamp
+
+      if (tag === 1) {
+        const protectedKey = readBytes(readUInt32());
+        const chainLength = readUInt32();
+        const certificates: Buffer[] = [];
+        for (let c = 0; c < chainLength; c++) {
+          if (version === 2) readUtf(); // certificate type, always X.509
+          certificates.push(Buffer.from(readBytes(readUInt32())));
+        }
+        entries.push({ alias, protectedKey: Buffer.from(protectedKey), certificates });
+      } else if (tag === 2) {
+        if (version === 2) readUtf();
+        entries.push({ alias, certificates: [Buffer.from(readBytes(readUInt32()))] });
+      } else {
+        throw new KeystoreError(`Unknown JKS entry type ${tag}`);
+      }
+    }
+
+    return entries;
+  }
+
+  // Reverses Sun's proprietary JKS key protector (SHA-1 keystream XOR)
+  private recoverJksKey(protectedKey: Buffer, password: string): Buffer {
+    const encryptedInfo = forge.asn1.fromDer(forge.util.createBuffer(protectedKey.toString('binary')));
+    const [algorithm, encryptedData] = encryptedInfo.value as forge.asn1.Asn1[];
+    const oid = forge.asn1.derToOid((algorithm.value as forge.asn1.Asn1[])[0].value as string);
+    if (oid !== JKS_KEY_PROTECTOR_OID) {
+      throw new KeystoreError(`Unsupported JKS key protection algorithm ${oid}`);
+    }
+
+    const protectedBytes = Buffer.from(encryptedData.value as string, 'binary');
+    const passwordBytes = Buffer.from(password, 'utf16le').swap16();
+    const salt = protectedBytes.subarray(0, 20);
+    const encrypted = protectedBytes.subarray(20, protectedBytes.length - 20);
+    const check = protectedBytes.subarray(protectedBytes.length - 20);
+
+    const plain = Buffer.alloc(encrypted.length);
+    let keystream: Buffer = salt;
+    for (let i = 0; i < encrypted.length; i += 20) {
+      keystream = crypto.createHash('sha1').update(passwordBytes).update(keystream).digest();
+      for (let j = 0; j < 20 && i + j < encrypted.length; j++) {
+        plain[i + j] = encrypted[i + j] ^ keystream[j];
+      }
+    }
+
+    const expectedCheck = crypto.createHash('sha1').update(passwordBytes).update(plain).digest();
+    if (!expectedCheck.equals(check)) {
+      throw new KeystoreError('Cannot recover key, wrong key password?');
+    }
+    return plain;
+  }
+
+  // Puts the certificate matching the private key first, as signers expect
+  private orderChains(entries: KeystoreEntry[]): KeystoreEntry[] {
+    for (const entry of entries) {
+      if (!entry.privateKeyDer || entry.certificates.length < 2) continue;
+      const key = crypto.createPrivateKey({ key: entry.privateKeyDer, format: 'der', type: 'pkcs8' });
+      const index = entry.certificates.findIndex(der => new X509Certificate(der).checkPrivateKey(key));
+      if (index > 0) {
+        const [signer] = entry.certificates.splice(index, 1);
+        entry.certificates.unshift(signer);
+      }
+    }
+    return entries;
+  }
+
+  private asn1ToBuffer(value: forge.asn1.Asn1): Buffer {
+    return Buffer.from(forge.asn1.toDer(value).getBytes(), 'binary');
+  }
+}
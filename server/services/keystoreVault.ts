@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+
+export interface VaultSecret {
+  keystore: Buffer;
+  storePassword: string;
+  keyPassword: string;
+}
+
+const VERSION = 'v1';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+export class KeystoreVault {
+  private masterKey: Buffer;
+
+  constructor(masterKey = process.env.KEYSTORE_MASTER_KEY) {
+    if (masterKey) {
+      this.masterKey = this.parseMasterKey(masterKey);
+    } else if (process.env.NODE_ENV === 'production') {
+      // Saved identities, queued release jobs and paused checkpoints would all be unreadable after a restart
+      throw new Error('KEYSTORE_MASTER_KEY must be set in production');
+    } else {
+      // Without a configured key nothing saved survives a restart, fine for development only
+      console.warn('KEYSTORE_MASTER_KEY is not set, using a temporary key for saved signing identities');
+      this.masterKey = crypto.randomBytes(32);
+    }
+  }
+
+  // Encrypts a keystore with its passwords using AES-256-GCM, bound to the owning user
+  seal(userId: number, secret: VaultSecret): string {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.masterKey, iv);
+    cipher.setAAD(this.associatedData(userId));
+
+    const plaintext = Buffer.from(JSON.stringify({
+      keystore: secret.keystore.toString('base64'),
+      storePassword: secret.storePassword,
+      keyPassword: secret.keyPassword,
+    }), 'utf8');
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    return `${VERSION}:${Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64')}`;
+  }
+
+  open(userId: number, sealed: string): VaultSecret {
+    const [version, payload] = sealed.split(':');
+    if (version !== VERSION || !payload) {
+      throw new Error('Unsupported vault entry format');
+    }
+
+    const data = Buffer.from(payload, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.masterKey, data.subarray(0, IV_LENGTH));
+    decipher.setAAD(this.associatedData(userId));
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+
+    let plaintext: Buffer;
+    try {
+      plaintext = Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+    } catch {
+      throw new Error('Unable to decrypt vault entry, was the master key changed?');
+    }
+
+    const secret = JSON.parse(plaintext.toString('utf8'));
+    return {
+      keystore: Buffer.from(secret.keystore, 'base64'),
+      storePassword: secret.storePassword,
+      keyPassword: secret.keyPassword,
+    };
+  }
+
+  private associatedData(userId: number): Buffer {
+    return Buffer.from(`signing-identity:${userId}`, 'utf8');
+  }
+
+  // Accepts 32 bytes as hex or base64
+  private parseMasterKey(value: string): Buffer {
+    const key = /^[0-9a-fA-F]{64}$/.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+    if (key.length !== 32) {
+      throw new Error('KEYSTORE_MASTER_KEY must be 32 bytes, hex or base64 encoded');
+    }
+    return key;
+  }
+}
@@ -0,0 +1,261 @@
+import path from 'path';
+import { FileManager } from './fileManager';
+import {
+  RgbaImage, ImageError, createImage, readPngData, encodePng, resizeImage, padImage, maskCircle, compositeOver,
+} from './pngImage';
+
+export interface LauncherIconFile {
+  // Resource name in the mipmap type, e.g. ic_launcher
+  name: string;
+  density: string;
+  path: string;
+  data: Buffer;
+}
+
+export interface LauncherIconSet {
+  // Where the artwork came from, for the build log
+  source: string;
+  warnings: string[];
+  backgroundColor: string;
+  files: LauncherIconFile[];
+  // res/mipmap-anydpi-v26 XML shared by ic_launcher and ic_launcher_round
+  adaptiveIconXml: string;
+}
+
+// Per-build replacements for what the project declares, e.g. a white-label flavor's icon and brand color
+export interface IconOverrides {
+  // PNG path inside the project, used instead of all of the project's own icons
+  icon?: string;
+  backgroundColor?: string;
+}
+
+// A plain icon is shown as-is, a maskable one bleeds to its edges (W3C safe zone: the inner 80% circle),
+// and an adaptive foreground is already drawn on the 108dp adaptive icon canvas
+type IconKind = 'icon' | 'maskable' | 'foreground';
+
+interface IconCandidate {
+  file: string;
+  kind: IconKind;
+  description: string;
+}
+
+interface IconSources {
+  candidates: IconCandidate[];
+  backgroundColor?: string;
+}
+
+// Legacy launcher icon size per density bucket (48dp); adaptive layers are 108dp, 2.25x these
+const LEGACY_SIZES: Record<string, number> = { mdpi: 48, hdpi: 72, xhdpi: 96, xxhdpi: 144, xxxhdpi: 192 };
+const ADAPTIVE_SCALE = 108 / 48;
+// Adaptive icons show the inner 72dp of the 108dp layers and keep a 66dp circle safe from masking
+const VIEWPORT = 72 / 108;
+const SAFE_ZONE = 66 / 108;
+const MASKABLE_SAFE_ZONE = 0.8;
+
+const DEFAULT_BACKGROUND = '#3DDC84';
+const WEB_MANIFESTS = ['manifest.json', 'manifest.webmanifest', 'www/manifest.json', 'public/manifest.json'];
+const ROOT_ICONS = ['icon-512.png', 'icon-192.png'];
+
+// Finds the project's own icon and renders every launcher icon density plus the adaptive icon layers
+export class LauncherIconGenerator {
+  private fileManager: FileManager;
+
+  constructor(fileManager: FileManager) {
+    this.fileManager = fileManager;
+  }
+
+  async generate(projectPath: string, overrides: IconOverrides = {}): Promise<LauncherIconSet> {
+    const warnings: string[] = [];
+    const sources = await this.findSources(projectPath, warnings);
+    if (overrides.icon) {
+      sources.candidates = [{ file: overrides.icon, kind: 'icon', description: 'build settings' }];
+    }
+    sources.backgroundColor = overrides.backgroundColor ?? sources.backgroundColor;
+
+    let icon: { image: RgbaImage; candidate: IconCandidate } | undefined;
+    let foreground: { image: RgbaImage; candidate: IconCandidate } | undefined;
+    for (const candidate of sources.candidates) {
+      const wanted = candidate.kind === 'foreground' ? !foreground : !icon;
+      if (!wanted) continue;
+      const image = await this.loadImage(projectPath, candidate, warnings);
+      if (!image) continue;
+      if (candidate.kind === 'foreground') foreground = { image, candidate };
+      else icon = { image, candidate };
+    }
+
+    let backgroundColor = sources.backgroundColor ?? (icon || foreground ? '#FFFFFF' : DEFAULT_BACKGROUND);
+    if (!this.parseColor(backgroundColor)) {
+      warnings.push(`Ignoring invalid icon background color "${backgroundColor}"`);
+      backgroundColor = '#FFFFFF';
+    }
+    const background = this.parseColor(backgroundColor)!;
+
+    const files: LauncherIconFile[] = [];
+    for (const [density, size] of Object.entries(LEGACY_SIZES)) {
+      const layerSize = Math.round(size * ADAPTIVE_SCALE);
+      const foregroundLayer = foreground
+        ? resizeImage(foreground.image, layerSize, layerSize)
+        : icon
+          ? this.placeOnLayer(icon.image, icon.candidate.kind, layerSize)
+          : this.defaultForeground(layerSize);
+
+      // Pre-Oreo launchers get a square icon; without one, flatten the visible part of the adaptive layers
+      const viewport = Math.round(layerSize * VIEWPORT);
+      const legacy = icon
+        ? resizeImage(icon.image, size, size)
+        : compositeOver(resizeImage(padImage(foregroundLayer, viewport, viewport), size, size), background);
+
+      files.push(
+        this.file('ic_launcher', density, legacy),
+        this.file('ic_launcher_round', density, maskCircle(legacy)),
+        this.file('ic_launcher_foreground', density, foregroundLayer),
+      );
+    }
+
+    const used = [icon?.candidate, foreground?.candidate].filter((c): c is IconCandidate => Boolean(c));
+    return {
+      source: used.length ? used.map(c => c.description).join(', ') : 'default icon (no project icon found)',
+      warnings,
+      backgroundColor,
+      files,
+      adaptiveIconXml: `<?xml version="1.0" encoding="utf-8"?>
+<adaptive-icon xmlns:android="http://schemas.android.com/apk/res/android">
+    <background android:drawable="@color/ic_launcher_background" />
+    <foreground android:drawable="@mipmap/ic_launcher_foreground" />
+</adaptive-icon>`,
+    };
+  }
+
+  // Candidates in priority order: Expo app.json, web app manifest, a root icon file, flutter_launcher_icons
+  private async findSources(projectPath: string, warnings: string[]): Promise<IconSources> {
+    const sources: IconSources = { candidates: [] };
+    const readJson = async (file: string) => {
+      const filePath = path.join(projectPath, file);
+      if (!(await this.fileManager.fileExists(filePath))) return undefined;
+      try {
+        return JSON.parse(await this.fileManager.readFile(filePath));
+      } catch {
+        warnings.push(`Could not parse ${file} while looking for the app icon`);
+        return undefined;
+      }
+    };
+
+    const appJson = await readJson('app.json');
+    const expo = appJson?.expo;
+    if (expo) {
+      const adaptive = expo.android?.adaptiveIcon;
+      if (typeof expo.android?.icon === 'string') {
+        sources.candidates.push({ file: expo.android.icon, kind: 'icon', description: 'app.json expo.android.icon' });
+      }
+      if (typeof expo.icon === 'string') {
+        sources.candidates.push({ file: expo.icon, kind: 'icon', description: 'app.json expo.icon' });
+      }
+      if (typeof adaptive?.foregroundImage === 'string') {
+        sources.candidates.push({ file: adaptive.foregroundImage, kind: 'foreground', description: 'app.json expo.android.adaptiveIcon' });
+      }
+      if (typeof adaptive?.backgroundColor === 'string') sources.backgroundColor ??= adaptive.backgroundColor;
+    }
+
+    for (const manifestFile of WEB_MANIFESTS) {
+      const manifest = await readJson(manifestFile);
+      if (!manifest) continue;
+      const icons = (Array.isArray(manifest.icons) ? manifest.icons : [])
+        .filter((icon: any) => typeof icon?.src === 'string' && !/^(https?:)?\/\//.test(icon.src))
+        .map((icon: any) => ({
+          src: icon.src.replace(/[?#].*$/, ''),
+          size: Math.max(0, ...String(icon.sizes ?? '').split(/\s+/).map((size: string) => parseInt(size, 10) || 0)),
+          maskable: String(icon.purpose ?? '').split(/\s+/).includes('maskable'),
+        }))
+        .sort((a: { size: number }, b: { size: number }) => b.size - a.size);
+      for (const icon of icons) {
+        // Root-relative sources point at the site root, which is the manifest's directory here
+        const file = path.join(path.dirname(manifestFile), icon.src);
+        sources.candidates.push({ file, kind: icon.maskable ? 'maskable' : 'icon', description: `${manifestFile} icon ${icon.src}` });
+      }
+      if (typeof manifest.background_color === 'string') sources.backgroundColor ??= manifest.background_color;
+      break;
+    }
+
+    for (const file of ROOT_ICONS) {
+      sources.candidates.push({ file, kind: 'icon', description: file });
+    }
+
+    const flutterConfig = await this.readFlutterLauncherIcons(projectPath);
+    if (flutterConfig) {
+      const iconPath = flutterConfig.image_path_android ?? flutterConfig.image_path;
+      if (iconPath) sources.candidates.push({ file: iconPath, kind: 'icon', description: 'flutter_launcher_icons image_path' });
+      if (flutterConfig.adaptive_icon_foreground) {
+        sources.candidates.push({ file: flutterConfig.adaptive_icon_foreground, kind: 'foreground', description: 'flutter_launcher_icons adaptive_icon_foreground' });
+      }
+      if (flutterConfig.adaptive_icon_background?.startsWith('#')) sources.backgroundColor ??= flutterConfig.adaptive_icon_background;
+    }
+
+    return sources;
+  }
+
+  // The flutter_launcher_icons section of pubspec.yaml or flutter_launcher_icons.yaml, flat keys only
+  private async readFlutterLauncherIcons(projectPath: string): Promise<Record<string, string> | undefined> {
+    for (const file of ['flutter_launcher_icons.yaml', 'pubspec.yaml']) {
+      const filePath = path.join(projectPath, file);
+      if (!(await this.fileManager.fileExists(filePath))) continue;
+
+      const lines = (await this.fileManager.readFile(filePath)).split(/\r?\n/);
+      const start = lines.findIndex(line => /^(flutter_launcher_icons|flutter_icons):\s*(#.*)?$/.test(line));
+      if (start < 0) continue;
+
+      const config: Record<string, string> = {};
+      for (const line of lines.slice(start + 1)) {
+        if (/^\S/.test(line)) break;
+        const match = /^\s+(\w+):\s*("[^"]*"|'[^']*'|[^#]*)/.exec(line);
+        if (match) config[match[1]] = match[2].trim().replace(/^["']|["']$/g, '');
+      }
+      return config;
+    }
+    return undefined;
+  }
+
+  private async loadImage(projectPath: string, candidate: IconCandidate, warnings: string[]): Promise<RgbaImage | undefined> {
+    const filePath = path.resolve(projectPath, candidate.file);
+    if (!filePath.startsWith(path.resolve(projectPath) + path.sep)) {
+      warnings.push(`Ignoring ${candidate.description}: ${candidate.file} is outside the project`);
+      return undefined;
+    }
+    if (!(await this.fileManager.fileExists(filePath))) {
+      // Root icon files are only guesses, don't warn about those
+      if (!ROOT_ICONS.includes(candidate.file)) warnings.push(`Icon ${candidate.file} from ${candidate.description} not found`);
+      return undefined;
+    }
+    try {
+      return readPngData(await this.fileManager.readFileBuffer(filePath));
+    } catch (error) {
+      if (!(error instanceof ImageError)) throw error;
+      warnings.push(`Could not use ${candidate.file} from ${candidate.description}: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  // Scales a square icon into the adaptive foreground so its important part stays in the safe zone
+  private placeOnLayer(image: RgbaImage, kind: IconKind, layerSize: number): RgbaImage {
+    const scale = kind === 'maskable' ? SAFE_ZONE / MASKABLE_SAFE_ZONE : SAFE_ZONE;
+    const size = Math.round(layerSize * scale);
+    return padImage(resizeImage(image, size, size), layerSize, layerSize);
+  }
+
+  // A white dot, used with the default green background when the project has no icon
+  private defaultForeground(layerSize: number): RgbaImage {
+    const dot = createImage(Math.round(layerSize * 0.3), Math.round(layerSize * 0.3));
+    dot.pixels.fill(255);
+    return padImage(maskCircle(dot), layerSize, layerSize);
+  }
+
+  private file(name: string, density: string, image: RgbaImage): LauncherIconFile {
+    return { name, density, path: `res/mipmap-${density}/${name}.png`, data: encodePng(image) };
+  }
+
+  private parseColor(value: string): [number, number, number] | undefined {
+    const match = /^#(?:[0-9a-f]{2})?([0-9a-f]{6})$|^#([0-9a-f]{3})$/i.exec(value.trim());
+    if (!match) return undefined;
+    const hex = match[1] ?? match[2].split('').map(digit => digit + digit).join('');
+    return [0, 2, 4].map(i => parseInt(hex.substring(i, i + 2), 16)) as [number, number, number];
+  }
+}
@@ -0,0 +1,70 @@
+import path from 'path';
+import { FileManager } from './fileManager';
+
+// ABIs Android still supports, with the digit their split APKs add to the version code. 64-bit ABIs rank above
+// the 32-bit ones their devices can also run, so Play serves the better match.
+export const ABI_VERSION_CODES: Record<string, number> = {
+  'armeabi-v7a': 1,
+  'arm64-v8a': 2,
+  'x86': 3,
+  'x86_64': 4,
+};
+
+export interface NativeLibrarySet {
+  // .so contents by ABI, then by file name
+  libraries: Map<string, Map<string, Buffer>>;
+  // Project directories the libraries came from, for the build log
+  sources: string[];
+  warnings: string[];
+}
+
+// Where prebuilt shared objects live, relative to the project: Gradle jniLibs, the merged native libraries of a
+// Flutter or React Native (Hermes) release build, and an APK-style lib/ folder. Earlier directories win.
+const NATIVE_LIBRARY_DIRS = [
+  'jniLibs',
+  'src/main/jniLibs',
+  'app/src/main/jniLibs',
+  'android/app/src/main/jniLibs',
+  'build/app/intermediates/merged_native_libs/release/out/lib',
+  'android/app/build/intermediates/merged_native_libs/release/out/lib',
+  'app/build/intermediates/merged_native_libs/release/out/lib',
+  'lib',
+];
+
+// Finds the native libraries a project ships, per ABI
+export class NativeLibraryCollector {
+  private fileManager: FileManager;
+
+  constructor(fileManager: FileManager) {
+    this.fileManager = fileManager;
+  }
+
+  async collect(projectPath: string): Promise<NativeLibrarySet> {
+    const result: NativeLibrarySet = { libraries: new Map(), sources: [], warnings: [] };
+
+    for (const directory of NATIVE_LIBRARY_DIRS) {
+      const root = path.join(projectPath, directory);
+      if (!(await this.fileManager.fileExists(root))) continue;
+
+      let found = false;
+      for (const abi of await this.fileManager.listDirectories(root)) {
+        const libraries = (await this.fileManager.listFiles(path.join(root, abi))).filter(file => file.endsWith('.so'));
+        if (libraries.length === 0) continue;
+        if (!Object.hasOwn(ABI_VERSION_CODES, abi)) {
+          result.warnings.push(`Skipping ${directory}/${abi}: not an ABI current Android devices support`);
+          continue;
+        }
+
+        const byName = result.libraries.get(abi) ?? new Map<string, Buffer>();
+        for (const library of libraries) {
+          if (byName.has(library)) continue;
+          byName.set(library, await this.fileManager.readFileBuffer(path.join(root, abi, library)));
+          found = true;
+        }
+        result.libraries.set(abi, byName);
+      }
+      if (found) result.sources.push(directory);
+    }
+    return result;
+  }
+}
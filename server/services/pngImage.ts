@@ -0,0 +1,358 @@
+import zlib from 'zlib';
+import { crc32 } from './crc32';
+
+// Minimal PNG decoding/encoding and resampling for launcher icons, working on 8-bit RGBA pixels
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  // width * height * 4 bytes, non-premultiplied RGBA
+  pixels: Uint8Array;
+}
+
+export class ImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageError';
+  }
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+// Adam7 passes: x start, y start, x step, y step
+const ADAM7 = [[0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2]];
+const MAX_DIMENSION = 8192;
+
+export function createImage(width: number, height: number): RgbaImage {
+  return { width, height, pixels: new Uint8Array(width * height * 4) };
+}
+
+export function decodePng(data: Buffer): RgbaImage {
+  if (data.length < 8 || !data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new ImageError('Not a PNG image');
+  }
+
+  let header: { width: number; height: number; bitDepth: number; colorType: number; interlace: number } | undefined;
+  let palette: Buffer | undefined;
+  let transparency: Buffer | undefined;
+  const compressed: Buffer[] = [];
+
+  for (let offset = 8; offset + 12 <= data.length;) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    const body = data.subarray(offset + 8, offset + 8 + length);
+    if (body.length !== length) throw new ImageError(`Truncated ${type} chunk`);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      header = {
+        width: body.readUInt32BE(0),
+        height: body.readUInt32BE(4),
+        bitDepth: body[8],
+        colorType: body[9],
+        interlace: body[12],
+      };
+    } else if (type === 'PLTE') {
+      palette = body;
+    } else if (type === 'tRNS') {
+      transparency = body;
+    } else if (type === 'IDAT') {
+      compressed.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (!header) throw new ImageError('PNG has no IHDR chunk');
+  const { width, height, bitDepth, colorType, interlace } = header;
+  const channels = CHANNELS[colorType];
+  if (!channels || ![1, 2, 4, 8, 16].includes(bitDepth)) {
+    throw new ImageError(`Unsupported PNG format (color type ${colorType}, bit depth ${bitDepth})`);
+  }
+  if (width === 0 || height === 0 || width > MAX_DIMENSION || height > MAX_DIMENSION) {
+    throw new ImageError(`Unsupported PNG size ${width}x${height}`);
+  }
+  if (colorType === 3 && !palette) throw new ImageError('Indexed PNG has no palette');
+
+  let raw: Buffer;
+  try {
+    raw = zlib.inflateSync(Buffer.concat(compressed));
+  } catch {
+    throw new ImageError('Corrupt PNG image data');
+  }
+
+  const image = createImage(width, height);
+  const bitsPerPixel = channels * bitDepth;
+  const passes = interlace ? ADAM7 : [[0, 0, 1, 1]];
+  let position = 0;
+
+  for (const [startX, startY, stepX, stepY] of passes) {
+    const passWidth = Math.ceil((width - startX) / stepX);
+    const passHeight = Math.ceil((height - startY) / stepY);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+
+    const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    const end = position + (rowBytes + 1) * passHeight;
+    if (end > raw.length) throw new ImageError('PNG image data is too short');
+    const rows = unfilter(raw.subarray(position, end), rowBytes, passHeight, Math.max(1, bitsPerPixel >> 3));
+    position = end;
+
+    for (let y = 0; y < passHeight; y++) {
+      const row = rows.subarray(y * rowBytes, (y + 1) * rowBytes);
+      for (let x = 0; x < passWidth; x++) {
+        const target = ((startY + y * stepY) * width + startX + x * stepX) * 4;
+        readPixel(row, x, bitDepth, colorType, channels, palette, transparency, image.pixels, target);
+      }
+    }
+  }
+
+  return image;
+}
+
+export function encodePng(image: RgbaImage): Buffer {
+  const rowBytes = image.width * 4;
+  const raw = Buffer.alloc((rowBytes + 1) * image.height);
+  for (let y = 0; y < image.height; y++) {
+    raw[y * (rowBytes + 1)] = 0; // filter: none
+    Buffer.from(image.pixels.buffer, image.pixels.byteOffset + y * rowBytes, rowBytes).copy(raw, y * (rowBytes + 1) + 1);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(image.width, 0);
+  header.writeUInt32BE(image.height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', zlib.deflateSync(raw, { level: 9 })),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+// Separable resampling with a triangle filter widened by the scale factor, so downscaling averages
+// every source pixel and upscaling interpolates; done on premultiplied alpha to avoid dark fringes
+export function resizeImage(image: RgbaImage, width: number, height: number): RgbaImage {
+  const source = new Float32Array(image.pixels.length);
+  for (let i = 0; i < image.pixels.length; i += 4) {
+    const alpha = image.pixels[i + 3] / 255;
+    source[i] = image.pixels[i] * alpha;
+    source[i + 1] = image.pixels[i + 1] * alpha;
+    source[i + 2] = image.pixels[i + 2] * alpha;
+    source[i + 3] = image.pixels[i + 3];
+  }
+
+  const horizontal = resampleAxis(source, image.width, image.height, width, true);
+  const vertical = resampleAxis(horizontal, width, image.height, height, false);
+
+  const result = createImage(width, height);
+  for (let i = 0; i < vertical.length; i += 4) {
+    const alpha = vertical[i + 3];
+    const scale = alpha > 0 ? 255 / alpha : 0;
+    result.pixels[i] = clamp(vertical[i] * scale);
+    result.pixels[i + 1] = clamp(vertical[i + 1] * scale);
+    result.pixels[i + 2] = clamp(vertical[i + 2] * scale);
+    result.pixels[i + 3] = clamp(alpha);
+  }
+  return result;
+}
+
+// Draws image centered on a transparent canvas of the given size
+export function padImage(image: RgbaImage, width: number, height: number): RgbaImage {
+  const result = createImage(width, height);
+  const left = Math.floor((width - image.width) / 2);
+  const top = Math.floor((height - image.height) / 2);
+  for (let y = 0; y < image.height; y++) {
+    const targetY = top + y;
+    if (targetY < 0 || targetY >= height) continue;
+    for (let x = 0; x < image.width; x++) {
+      const targetX = left + x;
+      if (targetX < 0 || targetX >= width) continue;
+      const from = (y * image.width + x) * 4;
+      result.pixels.set(image.pixels.subarray(from, from + 4), (targetY * width + targetX) * 4);
+    }
+  }
+  return result;
+}
+
+// Flattens the image onto an opaque background color
+export function compositeOver(image: RgbaImage, background: [number, number, number]): RgbaImage {
+  const result = createImage(image.width, image.height);
+  for (let i = 0; i < image.pixels.length; i += 4) {
+    const alpha = image.pixels[i + 3] / 255;
+    for (let c = 0; c < 3; c++) {
+      result.pixels[i + c] = Math.round(image.pixels[i + c] * alpha + background[c] * (1 - alpha));
+    }
+    result.pixels[i + 3] = 255;
+  }
+  return result;
+}
+
+// Clears everything outside the inscribed circle, with a one pixel anti-aliased edge
+export function maskCircle(image: RgbaImage): RgbaImage {
+  const result = { ...image, pixels: new Uint8Array(image.pixels) };
+  const radius = Math.min(image.width, image.height) / 2;
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const distance = Math.hypot(x + 0.5 - image.width / 2, y + 0.5 - image.height / 2);
+      const coverage = Math.max(0, Math.min(1, radius - distance + 0.5));
+      const alpha = (y * image.width + x) * 4 + 3;
+      result.pixels[alpha] = Math.round(result.pixels[alpha] * coverage);
+    }
+  }
+  return result;
+}
+
+// Loads PNG bytes, also accepting a base64 "data:image/png" URI saved as the file's contents
+export function readPngData(data: Buffer): RgbaImage {
+  const prefix = data.toString('latin1', 0, 32);
+  if (prefix.startsWith('data:')) {
+    const match = /^data:image\/png;base64,([\s\S]*)$/.exec(data.toString('latin1').trim());
+    if (!match) throw new ImageError('Only base64 PNG data URIs are supported');
+    return decodePng(Buffer.from(match[1], 'base64'));
+  }
+  return decodePng(data);
+}
+
+function resampleAxis(source: Float32Array, width: number, height: number, size: number, horizontal: boolean): Float32Array {
+  const sourceSize = horizontal ? width : height;
+  const outWidth = horizontal ? size : width;
+  const outHeight = horizontal ? height : size;
+  const scale = sourceSize / size;
+  const support = Math.max(1, scale);
+  const result = new Float32Array(outWidth * outHeight * 4);
+
+  for (let i = 0; i < size; i++) {
+    const center = (i + 0.5) * scale - 0.5;
+    const first = Math.max(0, Math.ceil(center - support));
+    const last = Math.min(sourceSize - 1, Math.floor(center + support));
+    const weights: number[] = [];
+    let total = 0;
+    for (let s = first; s <= last; s++) {
+      const weight = Math.max(0, 1 - Math.abs(s - center) / support);
+      weights.push(weight);
+      total += weight;
+    }
+    if (total === 0) {
+      // Only happens at the very edge when upscaling; take the nearest pixel
+      weights.fill(0);
+      weights[Math.min(weights.length - 1, Math.max(0, Math.round(center) - first))] = 1;
+      total = 1;
+    }
+
+    const lines = horizontal ? height : width;
+    for (let line = 0; line < lines; line++) {
+      const target = horizontal ? (line * outWidth + i) * 4 : (i * outWidth + line) * 4;
+      for (let k = 0; k < weights.length; k++) {
+        if (!weights[k]) continue;
+        const s = first + k;
+        const from = horizontal ? (line * width + s) * 4 : (s * width + line) * 4;
+        const weight = weights[k] / total;
+        result[target] += source[from] * weight;
+        result[target + 1] += source[from + 1] * weight;
+        result[target + 2] += source[from + 2] * weight;
+        result[target + 3] += source[from + 3] * weight;
+      }
+    }
+  }
+  return result;
+}
+
+function unfilter(data: Buffer, rowBytes: number, rows: number, bytesPerPixel: number): Buffer {
+  const output = Buffer.alloc(rowBytes * rows);
+  for (let y = 0; y < rows; y++) {
+    const filter = data[y * (rowBytes + 1)];
+    const input = y * (rowBytes + 1) + 1;
+    const row = y * rowBytes;
+    const previous = row - rowBytes;
+    for (let x = 0; x < rowBytes; x++) {
+      const left = x >= bytesPerPixel ? output[row + x - bytesPerPixel] : 0;
+      const up = y > 0 ? output[previous + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? output[previous + x - bytesPerPixel] : 0;
+      let predictor: number;
+      switch (filter) {
+        case 0: predictor = 0; break;
+        case 1: predictor = left; break;
+        case 2: predictor = up; break;
+        case 3: predictor = (left + up) >> 1; break;
+        case 4: predictor = paeth(left, up, upLeft); break;
+        default: throw new ImageError(`Invalid PNG filter type ${filter}`);
+      }
+      output[row + x] = (data[input + x] + predictor) & 0xff;
+    }
+  }
+  return output;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+function readPixel(row: Buffer, x: number, bitDepth: number, colorType: number, channels: number,
+  palette: Buffer | undefined, transparency: Buffer | undefined, out: Uint8Array, target: number) {
+  const sample = (channel: number): number => {
+    const index = x * channels + channel;
+    if (bitDepth === 8) return row[index];
+    if (bitDepth === 16) return row.readUInt16BE(index * 2);
+    const bit = index * bitDepth;
+    return (row[bit >> 3] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+  };
+  const max = (1 << bitDepth) - 1;
+  const to8 = (value: number) => (bitDepth === 16 ? value >> 8 : Math.round((value * 255) / max));
+
+  switch (colorType) {
+    case 0: {
+      const gray = sample(0);
+      out[target] = out[target + 1] = out[target + 2] = to8(gray);
+      out[target + 3] = transparency && transparency.length >= 2 && transparency.readUInt16BE(0) === gray ? 0 : 255;
+      break;
+    }
+    case 2: {
+      const [r, g, b] = [sample(0), sample(1), sample(2)];
+      out[target] = to8(r);
+      out[target + 1] = to8(g);
+      out[target + 2] = to8(b);
+      const transparent = transparency && transparency.length >= 6
+        && transparency.readUInt16BE(0) === r && transparency.readUInt16BE(2) === g && transparency.readUInt16BE(4) === b;
+      out[target + 3] = transparent ? 0 : 255;
+      break;
+    }
+    case 3: {
+      const index = sample(0);
+      if (index * 3 + 2 >= palette!.length) throw new ImageError('PNG palette index out of range');
+      out[target] = palette![index * 3];
+      out[target + 1] = palette![index * 3 + 1];
+      out[target + 2] = palette![index * 3 + 2];
+      out[target + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+      break;
+    }
+    case 4:
+      out[target] = out[target + 1] = out[target + 2] = to8(sample(0));
+      out[target + 3] = to8(sample(1));
+      break;
+    case 6:
+      out[target] = to8(sample(0));
+      out[target + 1] = to8(sample(1));
+      out[target + 2] = to8(sample(2));
+      out[target + 3] = to8(sample(3));
+      break;
+  }
+}
+
+function chunk(type: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length, 0);
+  header.write(type, 4, 'latin1');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body, crc32(type)), 0);
+  return Buffer.concat([header, body, crc]);
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(255, Math.round(value)));
+}
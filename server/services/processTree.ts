@@ -0,0 +1,85 @@
+import { spawn, type ChildProcess } from 'child_process';
+
+export interface CommandOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  timeout?: number;
+  // Aborting stops the command with everything it started, e.g. the JVM behind gradlew or node behind npm
+  signal?: AbortSignal;
+}
+
+// Time a process tree gets to exit after SIGTERM before it is killed
+const KILL_GRACE_PERIOD = 5000;
+// Output execCommand keeps of each stream; a long Gradle or npm run only needs its end for the error report
+const MAX_OUTPUT_LENGTH = 1024 * 1024;
+
+// Starts a command as the leader of its own process group so the whole tree can be stopped
+export function spawnCommand(command: string, args: string[], options: CommandOptions & { shell?: boolean } = {}): ChildProcess {
+  const child = spawn(command, args, { cwd: options.cwd, env: options.env, shell: options.shell, detached: true });
+  const { signal } = options;
+  if (signal) {
+    const stop = () => killProcessTree(child);
+    if (signal.aborted) stop();
+    signal.addEventListener('abort', stop, { once: true });
+    child.on('close', () => signal.removeEventListener('abort', stop));
+  }
+  return child;
+}
+
+// SIGTERM to the process group, SIGKILL for whatever is left after the grace period
+export function killProcessTree(child: ChildProcess): void {
+  const pid = child.pid;
+  if (pid === undefined) return;
+  const kill = (signal: NodeJS.Signals) => {
+    try {
+      process.kill(-pid, signal);
+    } catch {
+      // The group already exited
+    }
+  };
+  kill('SIGTERM');
+  setTimeout(() => kill('SIGKILL'), KILL_GRACE_PERIOD).unref();
+}
+
+// Keeps the last MAX_OUTPUT_LENGTH characters
+function appendTail(output: string, chunk: Buffer): string {
+  const combined = output + chunk.toString();
+  return combined.length > MAX_OUTPUT_LENGTH ? combined.slice(-MAX_OUTPUT_LENGTH) : combined;
+}
+
+// exec() for commands that may need stopping; rejects with the abort reason when the signal aborts,
+// otherwise like exec with "Command failed" and the output. Only the tail of long output is kept
+export function execCommand(command: string, options: CommandOptions = {}): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    const child = spawnCommand(command, [], { ...options, shell: true });
+    const timer = options.timeout ? setTimeout(() => {
+      timedOut = true;
+      killProcessTree(child);
+    }, options.timeout) : undefined;
+
+    child.stdout?.on('data', (chunk: Buffer) => {
+      stdout = appendTail(stdout, chunk);
+    });
+    child.stderr?.on('data', (chunk: Buffer) => {
+      stderr = appendTail(stderr, chunk);
+    });
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', code => {
+      clearTimeout(timer);
+      if (options.signal?.aborted) {
+        reject(options.signal.reason);
+      } else if (code === 0) {
+        resolve({ stdout, stderr });
+      } else {
+        const reason = timedOut ? `timed out after ${options.timeout! / 1000} seconds` : `exit code ${code}`;
+        reject(Object.assign(new Error(`Command failed: ${command} (${reason})\n${stderr}`), { code, stdout, stderr }));
+      }
+    });
+  });
+}
@@ -0,0 +1,71 @@
+// Protocol buffer wire format encoding for the few messages the builder writes (app bundle
+// manifests and resource tables, BundleConfig.pb), see https://protobuf.dev/programming-guides/encoding/
+
+const WIRE_VARINT = 0;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+// Appends fields in call order. Fields are always written, so callers skip proto3 defaults
+// themselves and oneof members keep their presence even when they hold a default value.
+export class ProtoWriter {
+  private parts: Buffer[] = [];
+
+  uint32(field: number, value: number): this {
+    this.tag(field, WIRE_VARINT);
+    this.parts.push(this.varint(value >>> 0, 0));
+    return this;
+  }
+
+  // Negative values are sign-extended to 64 bits, as int32 fields require
+  int32(field: number, value: number): this {
+    this.tag(field, WIRE_VARINT);
+    this.parts.push(this.varint(value >>> 0, value < 0 ? 0xffffffff : 0));
+    return this;
+  }
+
+  bool(field: number, value: boolean): this {
+    return this.uint32(field, value ? 1 : 0);
+  }
+
+  fixed32(field: number, value: number): this {
+    this.tag(field, WIRE_FIXED32);
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32LE(value >>> 0, 0);
+    this.parts.push(buffer);
+    return this;
+  }
+
+  string(field: number, value: string): this {
+    return this.bytes(field, Buffer.from(value, 'utf8'));
+  }
+
+  bytes(field: number, value: Buffer): this {
+    this.tag(field, WIRE_LENGTH_DELIMITED);
+    this.parts.push(this.varint(value.length, 0), value);
+    return this;
+  }
+
+  message(field: number, message: ProtoWriter | Buffer): this {
+    return this.bytes(field, message instanceof ProtoWriter ? message.finish() : message);
+  }
+
+  finish(): Buffer {
+    return Buffer.concat(this.parts);
+  }
+
+  private tag(field: number, wireType: number) {
+    this.parts.push(this.varint(field * 8 + wireType, 0));
+  }
+
+  // Base 128 varint of the 64-bit value high:low
+  private varint(low: number, high: number): Buffer {
+    const bytes: number[] = [];
+    while (high !== 0 || low > 0x7f) {
+      bytes.push((low & 0x7f) | 0x80);
+      low = ((low >>> 7) | (high << 25)) >>> 0;
+      high = high >>> 7;
+    }
+    bytes.push(low);
+    return Buffer.from(bytes);
+  }
+}
@@ -0,0 +1,266 @@
+// Building blocks shared by the compiled XML (AXML) and resource table (resources.arsc) encoders,
+// following the layouts in the platform's ResourceTypes.h
+
+export const ChunkType = {
+  STRING_POOL: 0x0001,
+  TABLE: 0x0002,
+  XML: 0x0003,
+  XML_START_NAMESPACE: 0x0100,
+  XML_END_NAMESPACE: 0x0101,
+  XML_START_ELEMENT: 0x0102,
+  XML_END_ELEMENT: 0x0103,
+  XML_CDATA: 0x0104,
+  XML_RESOURCE_MAP: 0x0180,
+  TABLE_PACKAGE: 0x0200,
+  TABLE_TYPE: 0x0201,
+  TABLE_TYPE_SPEC: 0x0202,
+} as const;
+
+export const ValueType = {
+  NULL: 0x00,
+  REFERENCE: 0x01,
+  ATTRIBUTE: 0x02,
+  STRING: 0x03,
+  FLOAT: 0x04,
+  DIMENSION: 0x05,
+  INT_DEC: 0x10,
+  INT_HEX: 0x11,
+  INT_BOOLEAN: 0x12,
+  INT_COLOR_ARGB8: 0x1c,
+  INT_COLOR_RGB8: 0x1d,
+  INT_COLOR_ARGB4: 0x1e,
+  INT_COLOR_RGB4: 0x1f,
+} as const;
+
+export interface ResValue {
+  dataType: number;
+  data: number;
+}
+
+export interface ResourceReference {
+  // "android" for framework resources, undefined for the app's own
+  package?: string;
+  type: string;
+  name: string;
+}
+
+export type ResourceResolver = (reference: ResourceReference) => number | undefined;
+
+export type ValueFormat = 'string' | 'boolean' | 'integer' | 'reference' | 'color' | 'dimension' | 'enum' | 'flags' | 'any';
+
+export class ResourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResourceError';
+  }
+}
+
+const UTF8_FLAG = 0x100;
+const DIMENSION_UNITS: Record<string, number> = { px: 0, dp: 1, dip: 1, sp: 2, pt: 3, in: 4, mm: 5 };
+
+// Writes a ResChunk_header followed by the chunk specific header fields and the body
+export function writeChunk(type: number, header: Buffer, ...body: Buffer[]): Buffer {
+  const chunkHeader = Buffer.alloc(8);
+  const headerSize = chunkHeader.length + header.length;
+  chunkHeader.writeUInt16LE(type, 0);
+  chunkHeader.writeUInt16LE(headerSize, 2);
+  chunkHeader.writeUInt32LE(headerSize + body.reduce((size, part) => size + part.length, 0), 4);
+  return Buffer.concat([chunkHeader, header, ...body]);
+}
+
+export function encodeResValue(value: ResValue): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeUInt16LE(8, 0);
+  buffer.writeUInt8(value.dataType, 3);
+  buffer.writeUInt32LE(value.data >>> 0, 4);
+  return buffer;
+}
+
+export function padTo4(data: Buffer): Buffer {
+  const padding = (4 - (data.length % 4)) % 4;
+  return padding ? Buffer.concat([data, Buffer.alloc(padding)]) : data;
+}
+
+export class StringPool {
+  readonly strings: string[] = [];
+  private indices = new Map<string, number>();
+
+  add(value: string): number {
+    let index = this.indices.get(value);
+    if (index === undefined) {
+      index = this.strings.length;
+      this.strings.push(value);
+      this.indices.set(value, index);
+    }
+    return index;
+  }
+
+  // Adds an entry that later add() calls never share, e.g. attribute names tied to a resource id
+  append(value: string): number {
+    this.strings.push(value);
+    return this.strings.length - 1;
+  }
+
+  indexOf(value: string): number | undefined {
+    return this.indices.get(value);
+  }
+
+  encode(utf8: boolean): Buffer {
+    const offsets = Buffer.alloc(this.strings.length * 4);
+    const data: Buffer[] = [];
+    let dataLength = 0;
+
+    this.strings.forEach((value, index) => {
+      offsets.writeUInt32LE(dataLength, index * 4);
+      const encoded = utf8 ? this.encodeUtf8(value) : this.encodeUtf16(value);
+      data.push(encoded);
+      dataLength += encoded.length;
+    });
+
+    const header = Buffer.alloc(20);
+    header.writeUInt32LE(this.strings.length, 0);
+    header.writeUInt32LE(0, 4); // style count
+    header.writeUInt32LE(utf8 ? UTF8_FLAG : 0, 8);
+    header.writeUInt32LE(28 + offsets.length, 12); // strings start
+    header.writeUInt32LE(0, 16); // styles start
+
+    return writeChunk(ChunkType.STRING_POOL, header, offsets, padTo4(Buffer.concat(data)));
+  }
+
+  private encodeUtf16(value: string): Buffer {
+    const chars = Buffer.from(value, 'utf16le');
+    const length = chars.length / 2;
+    const prefix = length > 0x7fff
+      ? Buffer.from([((length >> 16) & 0xff), 0x80 | ((length >> 24) & 0x7f), length & 0xff, (length >> 8) & 0xff])
+      : Buffer.from([length & 0xff, length >> 8]);
+    return Buffer.concat([prefix, chars, Buffer.alloc(2)]);
+  }
+
+  private encodeUtf8(value: string): Buffer {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([this.utf8Length(value.length), this.utf8Length(bytes.length), bytes, Buffer.alloc(1)]);
+  }
+
+  // Lengths above 0x7f take two bytes with the high bit set on the first
+  private utf8Length(length: number): Buffer {
+    if (length > 0x7fff) {
+      throw new ResourceError('String too long for the resource string pool');
+    }
+    return length > 0x7f ? Buffer.from([0x80 | (length >> 8), length & 0xff]) : Buffer.from([length]);
+  }
+}
+
+// Parses "@type/name", "@android:type/name", "?attr/name" and "@+id/name"
+export function parseReference(raw: string): { attribute: boolean; reference: ResourceReference } | null {
+  const match = /^([@?])(\+)?(?:([\w.]+):)?(?:(\w+)\/)?([\w.]+)$/.exec(raw.trim());
+  if (!match) return null;
+  const [, marker, , pkg, type, name] = match;
+  return {
+    attribute: marker === '?',
+    reference: { package: pkg, type: type || 'attr', name },
+  };
+}
+
+// Converts an XML attribute or resource value to its typed form; null means it stays a plain string
+export function parseResValue(raw: string, formats: ValueFormat[], resolve: ResourceResolver,
+  values?: Record<string, number>): ResValue | null {
+  const trimmed = raw.trim();
+
+  if (trimmed === '@null') return { dataType: ValueType.REFERENCE, data: 0 };
+  if (trimmed === '@empty') return { dataType: ValueType.NULL, data: 1 };
+  if (/^[@?]/.test(trimmed)) {
+    const parsed = parseReference(trimmed);
+    if (!parsed) {
+      throw new ResourceError(`Invalid resource reference "${raw}"`);
+    }
+    const id = resolve(parsed.reference);
+    if (id === undefined) {
+      const { package: pkg, type, name } = parsed.reference;
+      throw new ResourceError(`Resource ${pkg ? `${pkg}:` : ''}${type}/${name} not found`);
+    }
+    return { dataType: parsed.attribute ? ValueType.ATTRIBUTE : ValueType.REFERENCE, data: id };
+  }
+
+  const candidates = formats.includes('any')
+    ? ['boolean', 'integer', 'color', 'dimension', 'string'] as ValueFormat[]
+    : formats;
+
+  for (const format of candidates) {
+    switch (format) {
+      case 'string':
+        return null;
+      case 'boolean':
+        if (trimmed === 'true' || trimmed === 'false') {
+          return { dataType: ValueType.INT_BOOLEAN, data: trimmed === 'true' ? 0xffffffff : 0 };
+        }
+        break;
+      case 'integer':
+        if (/^-?\d+$/.test(trimmed)) return { dataType: ValueType.INT_DEC, data: parseInt(trimmed, 10) };
+        if (/^0x[0-9a-f]+$/i.test(trimmed)) return { dataType: ValueType.INT_HEX, data: parseInt(trimmed, 16) };
+        break;
+      case 'color': {
+        const color = parseColor(trimmed);
+        if (color) return color;
+        break;
+      }
+      case 'dimension': {
+        const match = /^(-?\d+(?:\.\d+)?)(px|dp|dip|sp|pt|in|mm)$/.exec(trimmed);
+        if (match) {
+          return { dataType: ValueType.DIMENSION, data: floatToComplex(parseFloat(match[1])) | DIMENSION_UNITS[match[2]] };
+        }
+        break;
+      }
+      case 'enum':
+        if (values && Object.hasOwn(values, trimmed)) return { dataType: ValueType.INT_DEC, data: values[trimmed] };
+        break;
+      case 'flags': {
+        const names = trimmed.split('|').map(name => name.trim());
+        if (values && names.every(name => Object.hasOwn(values, name))) {
+          return { dataType: ValueType.INT_HEX, data: names.reduce((flags, name) => flags | values[name], 0) };
+        }
+        break;
+      }
+    }
+  }
+
+  throw new ResourceError(`Invalid value "${raw}", expected ${formats.join(' or ')}`);
+}
+
+function parseColor(value: string): ResValue | null {
+  const match = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(value);
+  if (!match) return null;
+
+  const hex = match[1];
+  const expanded = hex.length <= 4 ? hex.split('').map(digit => digit + digit).join('') : hex;
+  const argb = parseInt(expanded.length === 6 ? `ff${expanded}` : expanded, 16);
+  const dataType = {
+    3: ValueType.INT_COLOR_RGB4,
+    4: ValueType.INT_COLOR_ARGB4,
+    6: ValueType.INT_COLOR_RGB8,
+    8: ValueType.INT_COLOR_ARGB8,
+  }[hex.length]!;
+  return { dataType, data: argb };
+}
+
+// Complex (mantissa + radix) encoding used for dimensions, as in aapt's floatToComplex
+function floatToComplex(value: number): number {
+  const bits = Math.round(Math.abs(value) * 2 ** 23);
+
+  let radix: number;
+  let shift: number;
+  if (bits % 2 ** 23 === 0) {
+    radix = 0; shift = 23; // 23p0, whole numbers
+  } else if (bits < 2 ** 23) {
+    radix = 3; shift = 0; // 0p23
+  } else if (bits < 2 ** 31) {
+    radix = 2; shift = 8; // 8p15
+  } else if (bits < 2 ** 39) {
+    radix = 1; shift = 16; // 16p7
+  } else {
+    radix = 0; shift = 23;
+  }
+
+  let mantissa = Math.floor(bits / 2 ** shift) & 0xffffff;
+  if (value < 0) mantissa = (-mantissa) & 0xffffff;
+  return ((mantissa << 8) | (radix << 4)) >>> 0;
+}
@@ -0,0 +1,69 @@
+import { ProtoWriter } from './protobufWriter';
+import { ValueType, ResValue, ResourceError } from './resourceChunks';
+import type { ResourceConfig } from './resourceTable';
+
+// Messages shared by the proto XML and proto resource table encoders, following aapt2's
+// Resources.proto and Configuration.proto; app bundles carry these instead of AXML and resources.arsc
+
+const ReferenceType = { REFERENCE: 0, ATTRIBUTE: 1 } as const;
+const FileType = { UNKNOWN: 0, PNG: 1, PROTO_XML: 3 } as const;
+
+// Primitive oneof field per value type
+const PRIMITIVE_FIELDS: Record<number, number> = {
+  [ValueType.INT_DEC]: 6,
+  [ValueType.INT_HEX]: 7,
+  [ValueType.INT_COLOR_ARGB8]: 9,
+  [ValueType.INT_COLOR_RGB8]: 10,
+  [ValueType.INT_COLOR_ARGB4]: 11,
+  [ValueType.INT_COLOR_RGB4]: 12,
+  [ValueType.DIMENSION]: 13,
+};
+
+export function encodeProtoReference(id: number, attribute = false): ProtoWriter {
+  const reference = new ProtoWriter();
+  if (attribute) reference.uint32(1, ReferenceType.ATTRIBUTE);
+  return reference.uint32(2, id);
+}
+
+// Item for a compiled value; text is the string itself for STRING values
+export function encodeProtoItem(value: ResValue, text: string): ProtoWriter {
+  const item = new ProtoWriter();
+  switch (value.dataType) {
+    case ValueType.REFERENCE:
+    case ValueType.ATTRIBUTE:
+      return item.message(1, encodeProtoReference(value.data, value.dataType === ValueType.ATTRIBUTE));
+    case ValueType.STRING:
+      return item.message(2, new ProtoWriter().string(1, text));
+    case ValueType.NULL:
+      return item.message(7, new ProtoWriter().message(1, Buffer.alloc(0)));
+    case ValueType.FLOAT:
+      return item.message(7, new ProtoWriter().fixed32(3, value.data));
+    case ValueType.INT_BOOLEAN:
+      return item.message(7, new ProtoWriter().bool(8, value.data !== 0));
+  }
+
+  const field = PRIMITIVE_FIELDS[value.dataType];
+  if (!field) {
+    throw new ResourceError(`Value type 0x${value.dataType.toString(16)} has no proto encoding`);
+  }
+  const primitive = new ProtoWriter();
+  if (value.dataType === ValueType.INT_DEC) primitive.int32(field, value.data | 0);
+  else primitive.uint32(field, value.data);
+  return item.message(7, primitive);
+}
+
+// Item pointing at a file under res/ in the same module
+export function encodeProtoFile(path: string): ProtoWriter {
+  const type = path.endsWith('.png') ? FileType.PNG : path.endsWith('.xml') ? FileType.PROTO_XML : FileType.UNKNOWN;
+  const file = new ProtoWriter().string(1, path);
+  if (type) file.uint32(2, type);
+  return new ProtoWriter().message(5, file);
+}
+
+// Configuration; only the qualifiers the builder produces are set, like the binary ResTable_config
+export function encodeProtoConfig(config: ResourceConfig): ProtoWriter {
+  const encoded = new ProtoWriter();
+  if (config.density) encoded.uint32(18, config.density);
+  if (config.sdkVersion) encoded.uint32(24, config.sdkVersion);
+  return encoded;
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import { ChunkType, ResourceError, ValueType } from './resourceChunks';
+import { DENSITIES, ResourceTable } from './resourceTable';
+
+interface DecodedValue {
+  dataType: number;
+  data: number;
+}
+
+interface DecodedEntry {
+  id: number;
+  name: string;
+  density: number;
+  sdkVersion: number;
+  value?: DecodedValue;
+  style?: { parent: number; items: Array<[number, DecodedValue]> };
+}
+
+// ResStringPool: offsets into UTF-8 (length in chars and bytes) or UTF-16 (length in units) strings
+function readStringPool(data: Buffer, at: number): string[] {
+  expect(data.readUInt16LE(at)).toBe(ChunkType.STRING_POOL);
+  const count = data.readUInt32LE(at + 8);
+  const utf8 = (data.readUInt32LE(at + 16) & 0x100) !== 0;
+  const stringsStart = at + data.readUInt32LE(at + 20);
+  const length = (position: number, wide: boolean): [number, number] => {
+    if (wide) {
+      const value = data.readUInt16LE(position);
+      return value & 0x8000 ? [((value & 0x7fff) << 16) | data.readUInt16LE(position + 2), 4] : [value, 2];
+    }
+    const value = data[position];
+    return value & 0x80 ? [((value & 0x7f) << 8) | data[position + 1], 2] : [value, 1];
+  };
+
+  return Array.from({ length: count }, (_, index) => {
+    let position = stringsStart + data.readUInt32LE(at + 28 + index * 4);
+    if (utf8) {
+      position += length(position, false)[1];
+      const [bytes, size] = length(position, false);
+      return data.toString('utf8', position + size, position + size + bytes);
+    }
+    const [units, size] = length(position, true);
+    return data.toString('utf16le', position + size, position + size + units * 2);
+  });
+}
+
+const readValue = (data: Buffer, at: number): DecodedValue => ({ dataType: data[at + 3], data: data.readUInt32LE(at + 4) });
+
+// Reads resources.arsc back: the value strings, the one package and its entries in every configuration
+function decodeTable(data: Buffer) {
+  expect(data.readUInt16LE(0)).toBe(ChunkType.TABLE);
+  expect(data.readUInt32LE(4)).toBe(data.length);
+  expect(data.readUInt32LE(8)).toBe(1);
+
+  const values = readStringPool(data, 12);
+  const packageAt = 12 + data.readUInt32LE(16);
+  expect(data.readUInt16LE(packageAt)).toBe(ChunkType.TABLE_PACKAGE);
+  expect(packageAt + data.readUInt32LE(packageAt + 4)).toBe(data.length);
+
+  const packageId = data.readUInt32LE(packageAt + 8);
+  const packageName = data.toString('utf16le', packageAt + 12, packageAt + 268).replace(/\0+$/, '');
+  const typeNames = readStringPool(data, packageAt + data.readUInt32LE(packageAt + 268));
+  const keys = readStringPool(data, packageAt + data.readUInt32LE(packageAt + 276));
+
+  const entries: Record<string, DecodedEntry[]> = {};
+  for (let at = packageAt + data.readUInt16LE(packageAt + 2); at < data.length; at += data.readUInt32LE(at + 4)) {
+    if (data.readUInt16LE(at) !== ChunkType.TABLE_TYPE) continue;
+
+    const typeId = data[at + 8];
+    const entryCount = data.readUInt32LE(at + 12);
+    const entriesStart = at + data.readUInt32LE(at + 16);
+    const config = at + 20;
+    const offsets = at + data.readUInt16LE(at + 2);
+
+    for (let index = 0; index < entryCount; index++) {
+      const offset = data.readUInt32LE(offsets + index * 4);
+      if (offset === 0xffffffff) continue;
+      const entry = entriesStart + offset;
+      const decoded: DecodedEntry = {
+        id: ((packageId << 24) | (typeId << 16) | index) >>> 0,
+        name: keys[data.readUInt32LE(entry + 4)],
+        density: data.readUInt16LE(config + 14),
+        sdkVersion: data.readUInt16LE(config + 24),
+      };
+      if (data.readUInt16LE(entry + 2) & 0x0001) {
+        const count = data.readUInt32LE(entry + 12);
+        decoded.style = {
+          parent: data.readUInt32LE(entry + 8),
+          items: Array.from({ length: count }, (_, i) => [data.readUInt32LE(entry + 16 + i * 12), readValue(data, entry + 20 + i * 12)]),
+        };
+      } else {
+        decoded.value = readValue(data, entry + 8);
+      }
+      (entries[typeNames[typeId - 1]] ??= []).push(decoded);
+    }
+  }
+  return { values, packageId, packageName, typeNames, entries };
+}
+
+describe('ResourceTable', () => {
+  const createTable = () => {
+    const table = new ResourceTable('com.acme.app');
+    table.addString('app_name', 'Acme "R&D"');
+    table.addColor('primary', '#ff6200ee');
+    table.addColor('accent', '#03dac5');
+    table.addFile('mipmap', 'ic_launcher', 'res/mipmap-hdpi-v4/ic_launcher.png', { density: DENSITIES.hdpi });
+    table.addFile('mipmap', 'ic_launcher', 'res/mipmap-xhdpi-v4/ic_launcher.png', { density: DENSITIES.xhdpi });
+    table.addStyle('AppTheme', '@android:style/Theme.Light.NoTitleBar', {
+      'android:colorPrimary': '@color/primary',
+      'android:windowNoTitle': 'true',
+      'android:statusBarColor': '#000000',
+    });
+    return table;
+  };
+
+  it('assigns ids in insertion order', () => {
+    const table = createTable();
+
+    expect(table.resolve({ type: 'string', name: 'app_name' })).toBe(0x7f010000);
+    expect(table.resolve({ type: 'color', name: 'accent' })).toBe(0x7f020001);
+    expect(table.resolve({ package: 'com.acme.app', type: 'style', name: 'AppTheme' })).toBe(0x7f040000);
+    expect(table.resolve({ type: 'color', name: 'missing' })).toBeUndefined();
+    expect(table.resolve({ package: 'android', type: 'color', name: 'primary' })).toBeUndefined();
+  });
+
+  it('compiles a table that decodes back to its resources', () => {
+    const table = createTable();
+    const { values, packageId, packageName, typeNames, entries } = decodeTable(table.compile());
+
+    expect(packageId).toBe(0x7f);
+    expect(packageName).toBe('com.acme.app');
+    expect(typeNames).toEqual(['string', 'color', 'mipmap', 'style']);
+
+    const [appName] = entries.string;
+    expect(appName).toMatchObject({ id: 0x7f010000, name: 'app_name', density: 0, value: { dataType: ValueType.STRING } });
+    expect(values[appName.value!.data]).toBe('Acme "R&D"');
+
+    expect(entries.color).toEqual([
+      { id: 0x7f020000, name: 'primary', density: 0, sdkVersion: 0, value: { dataType: ValueType.INT_COLOR_ARGB8, data: 0xff6200ee } },
+      { id: 0x7f020001, name: 'accent', density: 0, sdkVersion: 0, value: { dataType: ValueType.INT_COLOR_RGB8, data: 0xff03dac5 } },
+    ]);
+
+    // One type chunk per density, no default configuration
+    expect(entries.mipmap.map(entry => [entry.id, entry.density, values[entry.value!.data]])).toEqual([
+      [0x7f030000, DENSITIES.hdpi, 'res/mipmap-hdpi-v4/ic_launcher.png'],
+      [0x7f030000, DENSITIES.xhdpi, 'res/mipmap-xhdpi-v4/ic_launcher.png'],
+    ]);
+
+    // Style items sorted by attribute id, app references resolved against the table
+    expect(entries.style).toEqual([{
+      id: 0x7f040000,
+      name: 'AppTheme',
+      density: 0,
+      sdkVersion: 0,
+      style: {
+        parent: 0x0103000d,
+        items: [
+          [0x01010056, { dataType: ValueType.INT_BOOLEAN, data: 0xffffffff }],
+          [0x01010433, { dataType: ValueType.REFERENCE, data: 0x7f020000 }],
+          [0x01010451, { dataType: ValueType.INT_COLOR_RGB8, data: 0xff000000 }],
+        ],
+      },
+    }]);
+  });
+
+  it('replaces a value added twice for the same configuration', () => {
+    const table = new ResourceTable('com.acme.app');
+    table.addString('app_name', 'Old');
+    table.addString('app_name', 'New');
+
+    const { values, entries } = decodeTable(table.compile());
+
+    expect(entries.string).toHaveLength(1);
+    expect(values[entries.string[0].value!.data]).toBe('New');
+  });
+
+  it('rejects invalid names and unresolvable styles', () => {
+    const table = new ResourceTable('com.acme.app');
+
+    expect(() => table.addString('app name', 'Acme')).toThrow(ResourceError);
+
+    table.addStyle('AppTheme', '@style/Missing', {});
+    expect(() => table.compile()).toThrow(/Parent style @style\/Missing not found in style\/AppTheme/);
+  });
+});
@@ -0,0 +1,318 @@
+import { ANDROID_ATTRIBUTES, resolveFrameworkResource } from './androidFramework';
+import {
+  ChunkType, ValueType, StringPool, ResValue, ResourceError, ResourceReference, ResourceResolver, ValueFormat,
+  writeChunk, encodeResValue, parseResValue, parseReference,
+} from './resourceChunks';
+import { ProtoWriter } from './protobufWriter';
+import { encodeProtoConfig, encodeProtoFile, encodeProtoItem, encodeProtoReference } from './resourceProto';
+
+export interface ResourceConfig {
+  density?: number;
+  sdkVersion?: number;
+}
+
+export const DENSITIES: Record<string, number> = {
+  ldpi: 120,
+  mdpi: 160,
+  hdpi: 240,
+  xhdpi: 320,
+  xxhdpi: 480,
+  xxxhdpi: 640,
+  anydpi: 0xfffe,
+  nodpi: 0xffff,
+};
+
+type ResourceValue =
+  | { kind: 'simple'; value: string; formats: ValueFormat[] }
+  | { kind: 'file'; path: string }
+  | { kind: 'style'; parent?: string; items: Array<{ attribute: string; value: string }> };
+
+interface ResourceEntry {
+  name: string;
+  values: Array<{ config: ResourceConfig; value: ResourceValue }>;
+}
+
+// Style items resolved to attribute ids; value is null for plain strings
+interface ResolvedStyle {
+  parent: number;
+  items: Array<{ id: number; value: ResValue | null; text: string }>;
+}
+
+const PACKAGE_HEADER_SIZE = 288;
+const CONFIG_SIZE = 64;
+const NO_ENTRY = 0xffffffff;
+const ENTRY_FLAG_COMPLEX = 0x0001;
+const CONFIG_DENSITY = 0x0100;
+const CONFIG_VERSION = 0x0400;
+
+// Collects an app's resources, assigns their ids and compiles them into resources.arsc,
+// or into the proto resource table app bundles carry
+export class ResourceTable {
+  private types = new Map<string, Map<string, ResourceEntry>>();
+
+  constructor(private packageName: string, private packageId = 0x7f) {}
+
+  addString(name: string, value: string) {
+    this.add('string', name, {}, { kind: 'simple', value, formats: ['string'] });
+  }
+
+  addColor(name: string, value: string) {
+    this.add('color', name, {}, { kind: 'simple', value, formats: ['color'] });
+  }
+
+  // Files under res/ (images, compiled XML) are stored as their path inside the APK
+  addFile(type: string, name: string, path: string, config: ResourceConfig = {}) {
+    this.add(type, name, config, { kind: 'file', path });
+  }
+
+  addStyle(name: string, parent: string | undefined, items: Record<string, string>) {
+    this.add('style', name, {}, {
+      kind: 'style',
+      parent,
+      items: Object.entries(items).map(([attribute, value]) => ({ attribute, value })),
+    });
+  }
+
+  // Ids follow insertion order: types from 1, entries from 0
+  resolve: ResourceResolver = (reference: ResourceReference) => {
+    if (reference.package && reference.package !== this.packageName) return undefined;
+    const typeNames = Array.from(this.types.keys());
+    const typeIndex = typeNames.indexOf(reference.type);
+    if (typeIndex < 0) return undefined;
+    const entryIndex = Array.from(this.types.get(reference.type)!.keys()).indexOf(reference.name);
+    if (entryIndex < 0) return undefined;
+    return ((this.packageId << 24) | ((typeIndex + 1) << 16) | entryIndex) >>> 0;
+  };
+
+  compile(): Buffer {
+    const values = new StringPool();
+    const typeNames = new StringPool();
+    const keys = new StringPool();
+    const typeChunks: Buffer[] = [];
+
+    Array.from(this.types.entries()).forEach(([type, entries], typeIndex) => {
+      typeNames.add(type);
+      const entryList = Array.from(entries.values());
+      entryList.forEach(entry => keys.add(entry.name));
+
+      // Every distinct configuration gets its own type chunk, the default configuration first
+      const configs = this.distinctConfigs(entryList.flatMap(entry => entry.values.map(v => v.config)));
+      const specFlags = entryList.map(entry => this.configChangeFlags(entry.values.map(v => v.config)));
+      typeChunks.push(this.typeSpecChunk(typeIndex + 1, specFlags));
+
+      for (const config of configs) {
+        const encoded = entryList.map(entry => {
+          const value = entry.values.find(v => this.sameConfig(v.config, config));
+          return value ? this.encodeEntry(keys.indexOf(entry.name)!, value.value, values, `${type}/${entry.name}`) : null;
+        });
+        typeChunks.push(this.typeChunk(typeIndex + 1, config, encoded));
+      }
+    });
+
+    const typeStrings = typeNames.encode(false);
+    const keyStrings = keys.encode(true);
+    const packageHeader = Buffer.alloc(PACKAGE_HEADER_SIZE - 8);
+    packageHeader.writeUInt32LE(this.packageId, 0);
+    const name = Buffer.from(this.packageName.substring(0, 127), 'utf16le');
+    name.copy(packageHeader, 4);
+    packageHeader.writeUInt32LE(PACKAGE_HEADER_SIZE, 260); // type strings offset
+    packageHeader.writeUInt32LE(typeNames.strings.length, 264); // last public type
+    packageHeader.writeUInt32LE(PACKAGE_HEADER_SIZE + typeStrings.length, 268); // key strings offset
+    packageHeader.writeUInt32LE(keys.strings.length, 272); // last public key
+    packageHeader.writeUInt32LE(0, 276); // type id offset
+
+    const packageChunk = writeChunk(ChunkType.TABLE_PACKAGE, packageHeader, typeStrings, keyStrings, ...typeChunks);
+
+    const tableHeader = Buffer.alloc(4);
+    tableHeader.writeUInt32LE(1, 0); // package count
+    return writeChunk(ChunkType.TABLE, tableHeader, values.encode(true), packageChunk);
+  }
+
+  // resources.pb for app bundles: the same ids and values as compile(), as aapt2's proto ResourceTable
+  compileProto(): Buffer {
+    const resourcePackage = new ProtoWriter()
+      .message(1, new ProtoWriter().uint32(1, this.packageId))
+      .string(2, this.packageName);
+
+    Array.from(this.types.entries()).forEach(([type, entries], typeIndex) => {
+      const typeMessage = new ProtoWriter()
+        .message(1, new ProtoWriter().uint32(1, typeIndex + 1))
+        .string(2, type);
+      Array.from(entries.values()).forEach((entry, entryIndex) => {
+        const entryMessage = new ProtoWriter()
+          .message(1, new ProtoWriter().uint32(1, entryIndex))
+          .string(2, entry.name);
+        for (const { config, value } of entry.values) {
+          entryMessage.message(6, new ProtoWriter()
+            .message(1, encodeProtoConfig(config))
+            .message(2, this.encodeProtoValue(value, `${type}/${entry.name}`)));
+        }
+        typeMessage.message(3, entryMessage);
+      });
+      resourcePackage.message(3, typeMessage);
+    });
+
+    return new ProtoWriter().message(2, resourcePackage).finish();
+  }
+
+  private add(type: string, name: string, config: ResourceConfig, value: ResourceValue) {
+    if (!/^[\w.]+$/.test(name)) {
+      throw new ResourceError(`Invalid resource name ${type}/${name}`);
+    }
+    let entries = this.types.get(type);
+    if (!entries) {
+      entries = new Map();
+      this.types.set(type, entries);
+    }
+    let entry = entries.get(name);
+    if (!entry) {
+      entry = { name, values: [] };
+      entries.set(name, entry);
+    }
+    entry.values = entry.values.filter(v => !this.sameConfig(v.config, config));
+    entry.values.push({ config, value });
+  }
+
+  // App references resolve against this table, android: ones against the framework
+  private resolveAny: ResourceResolver = (reference) => reference.package === 'android'
+    ? resolveFrameworkResource(reference)
+    : this.resolve(reference);
+
+  private encodeEntry(key: number, value: ResourceValue, strings: StringPool, resourceName: string): Buffer {
+    try {
+      if (value.kind === 'style') {
+        return this.encodeStyle(key, this.resolveStyle(value), strings);
+      }
+
+      const resValue: ResValue = value.kind === 'file'
+        ? { dataType: ValueType.STRING, data: strings.add(value.path) }
+        : parseResValue(value.value, value.formats, this.resolveAny) ?? { dataType: ValueType.STRING, data: strings.add(value.value) };
+
+      const header = Buffer.alloc(8);
+      header.writeUInt16LE(8, 0);
+      header.writeUInt16LE(0, 2);
+      header.writeUInt32LE(key, 4);
+      return Buffer.concat([header, encodeResValue(resValue)]);
+    } catch (error: any) {
+      throw new ResourceError(`${error.message} in ${resourceName}`);
+    }
+  }
+
+  // Value message: an Item for simple values and files, a Style compound value for styles
+  private encodeProtoValue(value: ResourceValue, resourceName: string): ProtoWriter {
+    try {
+      if (value.kind === 'file') {
+        return new ProtoWriter().message(4, encodeProtoFile(value.path));
+      }
+      if (value.kind === 'simple') {
+        const resValue = parseResValue(value.value, value.formats, this.resolveAny) ?? { dataType: ValueType.STRING, data: 0 };
+        return new ProtoWriter().message(4, encodeProtoItem(resValue, value.value));
+      }
+
+      const style = this.resolveStyle(value);
+      const encoded = new ProtoWriter();
+      if (style.parent) encoded.message(1, encodeProtoReference(style.parent));
+      for (const item of style.items) {
+        encoded.message(3, new ProtoWriter()
+          .message(3, encodeProtoReference(item.id))
+          .message(4, encodeProtoItem(item.value ?? { dataType: ValueType.STRING, data: 0 }, item.text)));
+      }
+      return new ProtoWriter().message(5, new ProtoWriter().message(2, encoded));
+    } catch (error: any) {
+      throw new ResourceError(`${error.message} in ${resourceName}`);
+    }
+  }
+
+  private resolveStyle(style: Extract<ResourceValue, { kind: 'style' }>): ResolvedStyle {
+    let parent = 0;
+    if (style.parent) {
+      const reference = parseReference(style.parent);
+      const id = reference && this.resolveAny(reference.reference);
+      if (!id) {
+        throw new ResourceError(`Parent style ${style.parent} not found`);
+      }
+      parent = id;
+    }
+
+    const items = style.items.map(({ attribute, value }) => {
+      const name = attribute.replace(/^android:/, '');
+      if (!attribute.startsWith('android:') || !Object.hasOwn(ANDROID_ATTRIBUTES, name)) {
+        throw new ResourceError(`Unknown style attribute ${attribute}`);
+      }
+      const definition = ANDROID_ATTRIBUTES[name];
+      return { id: definition.id, value: parseResValue(value, definition.formats, this.resolveAny, definition.values), text: value };
+    }).sort((a, b) => a.id - b.id);
+
+    return { parent, items };
+  }
+
+  // ResTable_map_entry with one ResTable_map per style item, sorted by attribute id
+  private encodeStyle(key: number, style: ResolvedStyle, strings: StringPool): Buffer {
+    const header = Buffer.alloc(16);
+    header.writeUInt16LE(16, 0);
+    header.writeUInt16LE(ENTRY_FLAG_COMPLEX, 2);
+    header.writeUInt32LE(key, 4);
+    header.writeUInt32LE(style.parent, 8);
+    header.writeUInt32LE(style.items.length, 12);
+
+    return Buffer.concat([header, ...style.items.map(item => {
+      const name = Buffer.alloc(4);
+      name.writeUInt32LE(item.id, 0);
+      return Buffer.concat([name, encodeResValue(item.value ?? { dataType: ValueType.STRING, data: strings.add(item.text) })]);
+    })]);
+  }
+
+  private typeSpecChunk(typeId: number, flags: number[]): Buffer {
+    const header = Buffer.alloc(8);
+    header.writeUInt8(typeId, 0);
+    header.writeUInt32LE(flags.length, 4);
+    const body = Buffer.alloc(flags.length * 4);
+    flags.forEach((flag, index) => body.writeUInt32LE(flag, index * 4));
+    return writeChunk(ChunkType.TABLE_TYPE_SPEC, header, body);
+  }
+
+  private typeChunk(typeId: number, config: ResourceConfig, entries: Array<Buffer | null>): Buffer {
+    const offsets = Buffer.alloc(entries.length * 4);
+    let offset = 0;
+    entries.forEach((entry, index) => {
+      offsets.writeUInt32LE(entry ? offset : NO_ENTRY, index * 4);
+      offset += entry?.length ?? 0;
+    });
+
+    const header = Buffer.alloc(12 + CONFIG_SIZE);
+    header.writeUInt8(typeId, 0);
+    header.writeUInt32LE(entries.length, 4);
+    header.writeUInt32LE(8 + header.length + offsets.length, 8); // entries start
+    this.encodeConfig(config).copy(header, 12);
+
+    return writeChunk(ChunkType.TABLE_TYPE, header, offsets, ...entries.filter((entry): entry is Buffer => entry !== null));
+  }
+
+  // ResTable_config; only the qualifiers the builder produces are set
+  private encodeConfig(config: ResourceConfig): Buffer {
+    const buffer = Buffer.alloc(CONFIG_SIZE);
+    buffer.writeUInt32LE(CONFIG_SIZE, 0);
+    buffer.writeUInt16LE(config.density ?? 0, 14);
+    buffer.writeUInt16LE(config.sdkVersion ?? 0, 24);
+    return buffer;
+  }
+
+  private configChangeFlags(configs: ResourceConfig[]): number {
+    let flags = 0;
+    if (configs.some(config => config.density)) flags |= CONFIG_DENSITY;
+    if (configs.some(config => config.sdkVersion)) flags |= CONFIG_VERSION;
+    return flags;
+  }
+
+  private distinctConfigs(configs: ResourceConfig[]): ResourceConfig[] {
+    const distinct: ResourceConfig[] = [];
+    for (const config of configs) {
+      if (!distinct.some(existing => this.sameConfig(existing, config))) distinct.push(config);
+    }
+    return distinct.sort((a, b) => (a.sdkVersion ?? 0) - (b.sdkVersion ?? 0) || (a.density ?? 0) - (b.density ?? 0));
+  }
+
+  private sameConfig(a: ResourceConfig, b: ResourceConfig): boolean {
+    return (a.density ?? 0) === (b.density ?? 0) && (a.sdkVersion ?? 0) === (b.sdkVersion ?? 0);
+  }
+}
@@ -0,0 +1,43 @@
+import { createHash } from 'crypto';
+import path from 'path';
+import { FileManager } from './fileManager';
+
+export interface WebViewShellRuntime {
+  version: string;
+  // Fully qualified launcher activity class inside the shell's classes.dex
+  activity: string;
+  // Asset the shell loads on start, relative to assets/
+  entryPoint: string;
+  dex: Buffer;
+}
+
+// The prebuilt WebView launcher under server/runtime/webview-shell, see generate.ts there
+export class WebViewShell {
+  private fileManager: FileManager;
+  private shellDir: string;
+  private runtime?: WebViewShellRuntime;
+
+  constructor(fileManager: FileManager) {
+    this.fileManager = fileManager;
+    this.shellDir = path.join(process.cwd(), 'server', 'runtime', 'webview-shell');
+  }
+
+  async load(): Promise<WebViewShellRuntime> {
+    if (this.runtime) return this.runtime;
+
+    const manifest = JSON.parse(await this.fileManager.readFile(path.join(this.shellDir, 'shell.json')));
+    const dex = await this.fileManager.readFileBuffer(path.join(this.shellDir, 'classes.dex'));
+    const digest = createHash('sha256').update(dex).digest('hex');
+    if (digest !== manifest.sha256) {
+      throw new Error(`WebView shell ${manifest.version} classes.dex does not match shell.json, rebuild it with npm run build:shell`);
+    }
+
+    this.runtime = {
+      version: manifest.version,
+      activity: manifest.activity,
+      entryPoint: manifest.entryPoint,
+      dex,
+    };
+    return this.runtime;
+  }
+}
@@ -0,0 +1,193 @@
+export interface XmlAttribute {
+  // Qualified name as written, e.g. "android:name"
+  name: string;
+  value: string;
+}
+
+export interface XmlElement {
+  name: string;
+  attributes: XmlAttribute[];
+  children: XmlNode[];
+  line: number;
+}
+
+export interface XmlText {
+  text: string;
+  line: number;
+}
+
+export type XmlNode = XmlElement | XmlText;
+
+export class XmlParseError extends Error {
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'XmlParseError';
+  }
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+export function isXmlElement(node: XmlNode): node is XmlElement {
+  return 'name' in node;
+}
+
+// Small non-validating XML parser, enough for manifests and Android resource files
+export class XmlParser {
+  private source = '';
+  private position = 0;
+  private linePosition = 0;
+  private currentLine = 1;
+
+  parse(source: string): XmlElement {
+    this.source = source;
+    this.position = 0;
+    this.linePosition = 0;
+    this.currentLine = 1;
+
+    this.skipProlog();
+    const root = this.parseElement();
+    this.skipMisc();
+    if (this.position < this.source.length) {
+      throw new XmlParseError('Unexpected content after root element', this.line());
+    }
+    return root;
+  }
+
+  private parseElement(): XmlElement {
+    const line = this.line();
+    this.expect('<');
+    const name = this.readName();
+    const attributes: XmlAttribute[] = [];
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.startsWith('/>')) {
+        this.position += 2;
+        return { name, attributes, children: [], line };
+      }
+      if (this.startsWith('>')) {
+        this.position++;
+        break;
+      }
+      const attributeName = this.readName();
+      this.skipWhitespace();
+      this.expect('=');
+      this.skipWhitespace();
+      const quote = this.source[this.position];
+      if (quote !== '"' && quote !== "'") {
+        throw new XmlParseError(`Expected quoted value for attribute ${attributeName}`, this.line());
+      }
+      const end = this.source.indexOf(quote, this.position + 1);
+      if (end < 0) {
+        throw new XmlParseError(`Unterminated value for attribute ${attributeName}`, this.line());
+      }
+      attributes.push({ name: attributeName, value: this.decodeEntities(this.source.substring(this.position + 1, end)) });
+      this.position = end + 1;
+    }
+
+    const children: XmlNode[] = [];
+    while (true) {
+      if (this.position >= this.source.length) {
+        throw new XmlParseError(`Unclosed element <${name}>`, line);
+      }
+      if (this.startsWith('</')) {
+        this.position += 2;
+        const closing = this.readName();
+        if (closing !== name) {
+          throw new XmlParseError(`Expected </${name}> but found </${closing}>`, this.line());
+        }
+        this.skipWhitespace();
+        this.expect('>');
+        return { name, attributes, children, line };
+      }
+      if (this.startsWith('<!--')) {
+        this.skipUntil('-->');
+      } else if (this.startsWith('<![CDATA[')) {
+        const textLine = this.line();
+        const end = this.source.indexOf(']]>', this.position);
+        if (end < 0) throw new XmlParseError('Unterminated CDATA section', textLine);
+        children.push({ text: this.source.substring(this.position + 9, end), line: textLine });
+        this.position = end + 3;
+      } else if (this.startsWith('<?')) {
+        this.skipUntil('?>');
+      } else if (this.startsWith('<')) {
+        children.push(this.parseElement());
+      } else {
+        const textLine = this.line();
+        const end = this.source.indexOf('<', this.position);
+        const raw = this.source.substring(this.position, end < 0 ? this.source.length : end);
+        children.push({ text: this.decodeEntities(raw), line: textLine });
+        this.position += raw.length;
+      }
+    }
+  }
+
+  private skipProlog() {
+    if (this.source.charCodeAt(0) === 0xfeff) this.position = 1;
+    this.skipMisc();
+    if (this.startsWith('<!DOCTYPE')) {
+      this.skipUntil('>');
+      this.skipMisc();
+    }
+  }
+
+  // Whitespace, comments and processing instructions outside the root element
+  private skipMisc() {
+    while (true) {
+      this.skipWhitespace();
+      if (this.startsWith('<?')) this.skipUntil('?>');
+      else if (this.startsWith('<!--')) this.skipUntil('-->');
+      else return;
+    }
+  }
+
+  private readName(): string {
+    const match = /^[A-Za-z_:][\w:.-]*/.exec(this.source.substring(this.position, this.position + 256));
+    if (!match) {
+      throw new XmlParseError('Expected a name', this.line());
+    }
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, code: string) => {
+      if (code.startsWith('#x')) return String.fromCodePoint(parseInt(code.substring(2), 16));
+      if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.substring(1), 10));
+      return ENTITIES[code] ?? entity;
+    });
+  }
+
+  private skipUntil(terminator: string) {
+    const end = this.source.indexOf(terminator, this.position);
+    if (end < 0) {
+      throw new XmlParseError(`Expected ${terminator}`, this.line());
+    }
+    this.position = end + terminator.length;
+  }
+
+  private skipWhitespace() {
+    while (this.position < this.source.length && /\s/.test(this.source[this.position])) {
+      this.position++;
+    }
+  }
+
+  private expect(text: string) {
+    if (!this.startsWith(text)) {
+      throw new XmlParseError(`Expected "${text}"`, this.line());
+    }
+    this.position += text.length;
+  }
+
+  private startsWith(text: string): boolean {
+    return this.source.startsWith(text, this.position);
+  }
+
+  // Line numbers are counted incrementally, the parser only moves forward
+  private line(): number {
+    for (; this.linePosition < this.position; this.linePosition++) {
+      if (this.source.charCodeAt(this.linePosition) === 10) this.currentLine++;
+    }
+    return this.currentLine;
+  }
+}
@@ -0,0 +1,65 @@
+import type { Express, Request } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import crypto from "crypto";
+import { database, storage } from "./storage";
+import type { User } from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    userId: number;
+  }
+}
+
+const MemoryStore = createMemoryStore(session);
+const PgStore = connectPgSimple(session);
+const ONE_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+// Sessions signed with a temporary secret all end on restart, and their guests' saved signing identities with them
+function sessionSecret(app: Express): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("SESSION_SECRET is not set, using a temporary secret: sessions end when the server restarts");
+  return crypto.randomBytes(32).toString("hex");
+}
+
+export function setupSession(app: Express) {
+  if (app.get("env") === "production") {
+    // Secure cookies need the proxy's X-Forwarded-Proto
+    app.set("trust proxy", 1);
+  }
+  app.use(session({
+    secret: sessionSecret(app),
+    resave: false,
+    saveUninitialized: false,
+    // Sessions hold the guest user id, so they live next to the users they point at
+    store: database
+      ? new PgStore({ pool: database.pool, createTableIfMissing: true })
+      : new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: ONE_YEAR,
+    },
+  }));
+}
+
+// There is no sign-in yet, so every browser session gets its own guest user
+export async function getSessionUser(req: Request): Promise<User> {
+  if (req.session.userId) {
+    const user = await storage.getUser(req.session.userId);
+    if (user) return user;
+  }
+
+  const user = await storage.createUser({
+    username: `guest-${crypto.randomUUID()}`,
+    // Guests cannot log in with a password
+    password: crypto.randomBytes(32).toString("hex"),
+  });
+  req.session.userId = user.id;
+  return user;
+}
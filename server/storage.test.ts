@@ -0,0 +1,229 @@
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import * as schema from "@shared/schema";
+import { buildOptionsSchema } from "@shared/schema";
+import { MIGRATIONS_FOLDER } from "./db";
+import { projectEvents, type ProjectEvent } from "./projectEvents";
+import { DbStorage } from "./storage";
+
+// DbStorage against pglite, an in-process Postgres, with the same migrations the server applies on start
+describe("DbStorage", () => {
+  let client: PGlite;
+  let storage: DbStorage;
+
+  beforeAll(async () => {
+    client = new PGlite();
+    const db = drizzle({ client, schema });
+    await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+    storage = new DbStorage(db);
+  });
+
+  // Starting pglite takes seconds, so the tests share one database and start from empty tables
+  beforeEach(async () => {
+    await client.exec("TRUNCATE users, projects, build_logs, signing_identities, build_jobs RESTART IDENTITY");
+  });
+
+  afterAll(async () => {
+    await client.close();
+  });
+
+  const createProject = () => storage.createProject({ name: "app", originalFileName: "app.zip", fileSize: 100 });
+  const createJob = (projectId: number, priority = 0) => storage.createBuildJob({
+    projectId,
+    priority,
+    options: buildOptionsSchema.parse({ variant: "debug" }),
+    timeoutMs: 60_000,
+  });
+
+  describe("users", () => {
+    it("finds users by id and username", async () => {
+      const user = await storage.createUser({ username: "guest-1", password: "secret" });
+
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername("guest-1")).toEqual(user);
+      expect(await storage.getUserByUsername("guest-2")).toBeUndefined();
+    });
+  });
+
+  describe("projects", () => {
+    it("creates projects with the column defaults", async () => {
+      const project = await createProject();
+
+      expect(project).toMatchObject({ status: "uploaded", progress: 0, keystorePath: null, keystoreDownloaded: false });
+      expect(await storage.getProject(project.id)).toEqual(project);
+    });
+
+    it("updates a project and publishes the change", async () => {
+      const project = await createProject();
+      const events: ProjectEvent[] = [];
+      const unsubscribe = projectEvents.subscribe(project.id, (event) => events.push(event));
+
+      const updated = await storage.updateProject(project.id, { id: 999, status: "analyzed", progress: 50 });
+      unsubscribe();
+
+      expect(updated).toMatchObject({ id: project.id, status: "analyzed", progress: 50 });
+      expect(events).toEqual([{ type: "project", data: updated }]);
+      expect(await storage.updateProject(999, { status: "analyzed" })).toBeUndefined();
+    });
+
+    it("lists projects in creation order and deletes them", async () => {
+      const first = await createProject();
+      const second = await createProject();
+
+      expect((await storage.getAllProjects()).map((project) => project.id)).toEqual([first.id, second.id]);
+      expect(await storage.deleteProject(first.id)).toBe(true);
+      expect(await storage.deleteProject(first.id)).toBe(false);
+      expect(await storage.getProject(first.id)).toBeUndefined();
+    });
+  });
+
+  describe("claimKeystoreDownload", () => {
+    it("hands the keystore out once, to its owner only", async () => {
+      const project = await createProject();
+      await storage.updateProject(project.id, { keystorePath: "keystores/project_1.p12", keystoreUserId: 7 });
+
+      expect(await storage.claimKeystoreDownload(project.id, 8)).toBeUndefined();
+      expect(await storage.claimKeystoreDownload(project.id, 7)).toMatchObject({ keystoreDownloaded: true });
+      expect(await storage.claimKeystoreDownload(project.id, 7)).toBeUndefined();
+    });
+
+    it("lets only one of several parallel requests claim it", async () => {
+      const project = await createProject();
+      await storage.updateProject(project.id, { keystorePath: "keystores/project_1.p12", keystoreUserId: 7 });
+
+      const claims = await Promise.all([1, 2, 3].map(() => storage.claimKeystoreDownload(project.id, 7)));
+
+      expect(claims.filter(Boolean)).toHaveLength(1);
+    });
+
+    it("has nothing to claim before a keystore is generated", async () => {
+      const project = await createProject();
+
+      expect(await storage.claimKeystoreDownload(project.id, 7)).toBeUndefined();
+    });
+  });
+
+  describe("build logs", () => {
+    it("returns a project's logs in order and clears them", async () => {
+      const project = await createProject();
+      const other = await createProject();
+      await storage.addBuildLog({ projectId: project.id, level: "info", message: "first" });
+      await storage.addBuildLog({ projectId: project.id, level: "error", message: "second" });
+      await storage.addBuildLog({ projectId: other.id, level: "info", message: "other" });
+
+      expect((await storage.getBuildLogs(project.id)).map((log) => log.message)).toEqual(["first", "second"]);
+
+      await storage.clearBuildLogs(project.id);
+      expect(await storage.getBuildLogs(project.id)).toEqual([]);
+      expect(await storage.getBuildLogs(other.id)).toHaveLength(1);
+    });
+  });
+
+  describe("signing identities", () => {
+    it("lists a user's identities and deletes them", async () => {
+      const identity = {
+        name: "Release key",
+        alias: "key",
+        keyAlgorithm: "RSA",
+        certificateSubject: "CN=Acme",
+        certificateFingerprint: "AB:CD",
+        certificateExpiresAt: new Date("2050-01-01T00:00:00Z"),
+        encryptedKeystore: "sealed",
+      };
+      const saved = await storage.createSigningIdentity({ ...identity, userId: 1 });
+      await storage.createSigningIdentity({ ...identity, userId: 2 });
+
+      expect(await storage.getSigningIdentitiesByUser(1)).toEqual([saved]);
+      expect(await storage.getSigningIdentity(saved.id)).toEqual(saved);
+      expect(await storage.deleteSigningIdentity(saved.id)).toBe(true);
+      expect(await storage.getSigningIdentitiesByUser(1)).toEqual([]);
+    });
+  });
+
+  describe("build jobs", () => {
+    it("claims the highest priority job first, then the oldest", async () => {
+      const project = await createProject();
+      const low = await createJob(project.id);
+      const high = await createJob(project.id, 5);
+      const later = await createJob(project.id);
+
+      const claimed = [await storage.claimBuildJob(), await storage.claimBuildJob(), await storage.claimBuildJob()];
+
+      expect(claimed.map((job) => job?.id)).toEqual([high.id, low.id, later.id]);
+      expect(claimed[0]).toMatchObject({ status: "running", attempts: 1 });
+      expect(claimed[0]?.heartbeatAt).toBeInstanceOf(Date);
+      expect(await storage.claimBuildJob()).toBeUndefined();
+    });
+
+    it("does not claim a job twice when claims run in parallel", async () => {
+      const project = await createProject();
+      await createJob(project.id);
+      await createJob(project.id);
+
+      const claimed = await Promise.all([1, 2, 3].map(() => storage.claimBuildJob()));
+      const ids = claimed.filter(Boolean).map((job) => job?.id);
+
+      expect(ids).toHaveLength(2);
+      expect(new Set(ids).size).toBe(2);
+    });
+
+    it("claims a new job when the database's time zone is ahead of UTC", async () => {
+      const project = await createProject();
+      await client.exec("SET TIME ZONE 'Asia/Tokyo'");
+      try {
+        const job = await createJob(project.id);
+
+        expect(job.runAt.getTime()).toBeLessThanOrEqual(Date.now());
+        expect(await storage.claimBuildJob()).toMatchObject({ id: job.id, status: "running" });
+      } finally {
+        await client.exec("SET TIME ZONE 'UTC'");
+      }
+    });
+
+    it("leaves jobs that are not due yet", async () => {
+      const project = await createProject();
+      const job = await createJob(project.id);
+      await storage.updateBuildJob(job.id, { runAt: new Date(Date.now() + 60_000) });
+
+      expect(await storage.claimBuildJob()).toBeUndefined();
+    });
+
+    it("finds a project's active job", async () => {
+      const project = await createProject();
+      const done = await createJob(project.id);
+      await storage.updateBuildJob(done.id, { status: "completed" });
+      const paused = await createJob(project.id);
+      await storage.updateBuildJob(paused.id, { status: "paused" });
+
+      expect(await storage.getActiveBuildJob(project.id)).toMatchObject({ id: paused.id, status: "paused" });
+    });
+
+    it("only transitions a job that is still in one of the given statuses", async () => {
+      const project = await createProject();
+      const job = await createJob(project.id);
+      await storage.updateBuildJob(job.id, { status: "completed" });
+
+      expect(await storage.transitionBuildJob(job.id, ["queued", "running"], { status: "cancelled" })).toBeUndefined();
+      expect(await storage.getBuildJob(job.id)).toMatchObject({ status: "completed" });
+
+      await storage.updateBuildJob(job.id, { status: "running" });
+      expect(await storage.transitionBuildJob(job.id, ["queued", "running"], { status: "cancelled" })).toMatchObject({ status: "cancelled" });
+    });
+
+    it("reports running jobs whose heartbeat stopped", async () => {
+      const project = await createProject();
+      await createJob(project.id);
+      await createJob(project.id);
+      const stalled = await storage.claimBuildJob();
+      const alive = await storage.claimBuildJob();
+      await storage.updateBuildJob(stalled!.id, { heartbeatAt: new Date(Date.now() - 10 * 60_000) });
+
+      const jobs = await storage.getStalledBuildJobs(new Date(Date.now() - 60_000));
+
+      expect(jobs.map((job) => job.id)).toEqual([stalled!.id]);
+      expect(jobs.map((job) => job.id)).not.toContain(alive!.id);
+    });
+  });
+});
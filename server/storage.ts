@@ -1,4 +1,7 @@
-import { projects, buildLogs, type Project, type InsertProject, type BuildLog, type InsertBuildLog, type User, type InsertUser } from "@shared/schema";
+import { and, asc, desc, eq, inArray, isNotNull, lt, lte, sql } from "drizzle-orm";
+import { projects, buildLogs, signingIdentities, buildJobs, users, type Project, type InsertProject, type BuildLog, type InsertBuildLog, type User, type InsertUser, type SigningIdentity, type InsertSigningIdentity, type BuildJob, type InsertBuildJob } from "@shared/schema";
+import { createDatabase, type Database } from "./db";
+import { projectEvents } from "./projectEvents";
 
 export interface IStorage {
   // User methods
@@ -12,28 +15,57 @@ export interface IStorage {
   updateProject(id: number, updates: Partial<Project>): Promise<Project | undefined>;
   deleteProject(id: number): Promise<boolean>;
   getAllProjects(): Promise<Project[]>;
+  // Marks the user's generated keystore downloaded; undefined when it is not theirs or was already downloaded
+  claimKeystoreDownload(projectId: number, userId: number): Promise<Project | undefined>;
   
   // Build log methods
   addBuildLog(log: InsertBuildLog): Promise<BuildLog>;
   getBuildLogs(projectId: number): Promise<BuildLog[]>;
   clearBuildLogs(projectId: number): Promise<void>;
+
+  // Signing identity methods
+  createSigningIdentity(identity: InsertSigningIdentity): Promise<SigningIdentity>;
+  getSigningIdentity(id: number): Promise<SigningIdentity | undefined>;
+  getSigningIdentitiesByUser(userId: number): Promise<SigningIdentity[]>;
+  deleteSigningIdentity(id: number): Promise<boolean>;
+
+  // Build job methods
+  createBuildJob(job: InsertBuildJob): Promise<BuildJob>;
+  getBuildJob(id: number): Promise<BuildJob | undefined>;
+  // The project's queued, running or paused job
+  getActiveBuildJob(projectId: number): Promise<BuildJob | undefined>;
+  // Marks the next due job running, highest priority first; safe to call from several servers at once
+  claimBuildJob(): Promise<BuildJob | undefined>;
+  updateBuildJob(id: number, updates: Partial<BuildJob>): Promise<BuildJob | undefined>;
+  // Updates the job only while its status is one of statuses; undefined when a worker or another request moved it on first
+  transitionBuildJob(id: number, statuses: string[], updates: Partial<BuildJob>): Promise<BuildJob | undefined>;
+  // Running jobs whose worker hasn't reported since heartbeatBefore
+  getStalledBuildJobs(heartbeatBefore: Date): Promise<BuildJob[]>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private projects: Map<number, Project>;
   private buildLogs: Map<number, BuildLog>;
+  private signingIdentities: Map<number, SigningIdentity>;
+  private buildJobs: Map<number, BuildJob>;
   private userIdCounter: number;
   private projectIdCounter: number;
   private logIdCounter: number;
+  private identityIdCounter: number;
+  private jobIdCounter: number;
 
   constructor() {
     this.users = new Map();
     this.projects = new Map();
     this.buildLogs = new Map();
+    this.signingIdentities = new Map();
+    this.buildJobs = new Map();
     this.userIdCounter = 1;
     this.projectIdCounter = 1;
     this.logIdCounter = 1;
+    this.identityIdCounter = 1;
+    this.jobIdCounter = 1;
   }
 
   // User methods
@@ -70,6 +102,10 @@ export class MemStorage implements IStorage {
       logs: insertProject.logs || [],
       apkPath: insertProject.apkPath || null,
       apkSize: insertProject.apkSize || null,
+      artifacts: null,
+      keystorePath: null,
+      keystoreUserId: null,
+      keystoreDownloaded: false,
       framework: insertProject.framework || null,
     };
     this.projects.set(id, project);
@@ -90,6 +126,7 @@ export class MemStorage implements IStorage {
       updatedAt: new Date(),
     };
     this.projects.set(id, updatedProject);
+    projectEvents.publish(id, { type: "project", data: updatedProject });
     return updatedProject;
   }
 
@@ -101,6 +138,14 @@ export class MemStorage implements IStorage {
     return Array.from(this.projects.values());
   }
 
+  async claimKeystoreDownload(projectId: number, userId: number): Promise<Project | undefined> {
+    const project = this.projects.get(projectId);
+    if (!project?.keystorePath || project.keystoreUserId !== userId || project.keystoreDownloaded) {
+      return undefined;
+    }
+    return this.updateProject(projectId, { keystoreDownloaded: true });
+  }
+
   // Build log methods
   async addBuildLog(insertLog: InsertBuildLog): Promise<BuildLog> {
     const id = this.logIdCounter++;
@@ -110,6 +155,7 @@ export class MemStorage implements IStorage {
       timestamp: new Date(),
     };
     this.buildLogs.set(id, log);
+    projectEvents.publish(log.projectId, { type: "log", data: log });
     return log;
   }
 
@@ -126,6 +172,279 @@ export class MemStorage implements IStorage {
     
     logsToDelete.forEach(id => this.buildLogs.delete(id));
   }
+
+  // Signing identity methods
+  async createSigningIdentity(insertIdentity: InsertSigningIdentity): Promise<SigningIdentity> {
+    const id = this.identityIdCounter++;
+    const identity: SigningIdentity = {
+      ...insertIdentity,
+      id,
+      createdAt: new Date(),
+    };
+    this.signingIdentities.set(id, identity);
+    return identity;
+  }
+
+  async getSigningIdentity(id: number): Promise<SigningIdentity | undefined> {
+    return this.signingIdentities.get(id);
+  }
+
+  async getSigningIdentitiesByUser(userId: number): Promise<SigningIdentity[]> {
+    return Array.from(this.signingIdentities.values()).filter(
+      (identity) => identity.userId === userId
+    );
+  }
+
+  async deleteSigningIdentity(id: number): Promise<boolean> {
+    return this.signingIdentities.delete(id);
+  }
+
+  // Build job methods
+  async createBuildJob(insertJob: InsertBuildJob): Promise<BuildJob> {
+    const id = this.jobIdCounter++;
+    const now = new Date();
+    const job: BuildJob = {
+      ...insertJob,
+      id,
+      status: "queued",
+      priority: insertJob.priority ?? 0,
+      signing: insertJob.signing ?? null,
+      attempts: 0,
+      maxAttempts: insertJob.maxAttempts ?? 1,
+      error: null,
+      runAt: now,
+      startedAt: null,
+      heartbeatAt: null,
+      finishedAt: null,
+      pauseRequested: false,
+      checkpoint: null,
+      createdAt: now,
+    };
+    this.buildJobs.set(id, job);
+    return job;
+  }
+
+  async getBuildJob(id: number): Promise<BuildJob | undefined> {
+    return this.buildJobs.get(id);
+  }
+
+  async getActiveBuildJob(projectId: number): Promise<BuildJob | undefined> {
+    return Array.from(this.buildJobs.values()).find(
+      (job) => job.projectId === projectId && ["queued", "running", "paused"].includes(job.status)
+    );
+  }
+
+  async claimBuildJob(): Promise<BuildJob | undefined> {
+    const now = new Date();
+    const [next] = Array.from(this.buildJobs.values())
+      .filter((job) => job.status === "queued" && job.runAt <= now)
+      .sort((a, b) => b.priority - a.priority || a.id - b.id);
+    if (!next) return undefined;
+    return this.updateBuildJob(next.id, { status: "running", attempts: next.attempts + 1, startedAt: now, heartbeatAt: now });
+  }
+
+  async updateBuildJob(id: number, updates: Partial<BuildJob>): Promise<BuildJob | undefined> {
+    const job = this.buildJobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob = { ...job, ...updates };
+    this.buildJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async transitionBuildJob(id: number, statuses: string[], updates: Partial<BuildJob>): Promise<BuildJob | undefined> {
+    const job = this.buildJobs.get(id);
+    if (!job || !statuses.includes(job.status)) return undefined;
+    return this.updateBuildJob(id, updates);
+  }
+
+  async getStalledBuildJobs(heartbeatBefore: Date): Promise<BuildJob[]> {
+    return Array.from(this.buildJobs.values()).filter(
+      (job) => job.status === "running" && job.heartbeatAt !== null && job.heartbeatAt < heartbeatBefore
+    );
+  }
+}
+
+// Keeps everything in PostgreSQL, so projects, logs and artifact paths survive restarts
+export class DbStorage implements IStorage {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Project methods
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const [project] = await this.db.insert(projects).values(insertProject).returning();
+    return project;
+  }
+
+  async getProject(id: number): Promise<Project | undefined> {
+    const [project] = await this.db.select().from(projects).where(eq(projects.id, id));
+    return project;
+  }
+
+  async updateProject(id: number, updates: Partial<Project>): Promise<Project | undefined> {
+    // The id and creation time never change
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    const [project] = await this.db
+      .update(projects)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(projects.id, id))
+      .returning();
+    if (project) {
+      projectEvents.publish(id, { type: "project", data: project });
+    }
+    return project;
+  }
+
+  async deleteProject(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(projects).where(eq(projects.id, id)).returning({ id: projects.id });
+    return deleted.length > 0;
+  }
+
+  async getAllProjects(): Promise<Project[]> {
+    return this.db.select().from(projects).orderBy(asc(projects.id));
+  }
+
+  async claimKeystoreDownload(projectId: number, userId: number): Promise<Project | undefined> {
+    // A conditional update, so of two parallel requests only one gets the keystore
+    const [project] = await this.db
+      .update(projects)
+      .set({ keystoreDownloaded: true, updatedAt: new Date() })
+      .where(and(
+        eq(projects.id, projectId),
+        eq(projects.keystoreUserId, userId),
+        eq(projects.keystoreDownloaded, false),
+        isNotNull(projects.keystorePath),
+      ))
+      .returning();
+    if (project) {
+      projectEvents.publish(projectId, { type: "project", data: project });
+    }
+    return project;
+  }
+
+  // Build log methods
+  async addBuildLog(insertLog: InsertBuildLog): Promise<BuildLog> {
+    const [log] = await this.db.insert(buildLogs).values(insertLog).returning();
+    projectEvents.publish(log.projectId, { type: "log", data: log });
+    return log;
+  }
+
+  async getBuildLogs(projectId: number): Promise<BuildLog[]> {
+    return this.db.select().from(buildLogs).where(eq(buildLogs.projectId, projectId)).orderBy(asc(buildLogs.id));
+  }
+
+  async clearBuildLogs(projectId: number): Promise<void> {
+    await this.db.delete(buildLogs).where(eq(buildLogs.projectId, projectId));
+  }
+
+  // Signing identity methods
+  async createSigningIdentity(insertIdentity: InsertSigningIdentity): Promise<SigningIdentity> {
+    const [identity] = await this.db.insert(signingIdentities).values(insertIdentity).returning();
+    return identity;
+  }
+
+  async getSigningIdentity(id: number): Promise<SigningIdentity | undefined> {
+    const [identity] = await this.db.select().from(signingIdentities).where(eq(signingIdentities.id, id));
+    return identity;
+  }
+
+  async getSigningIdentitiesByUser(userId: number): Promise<SigningIdentity[]> {
+    return this.db.select().from(signingIdentities).where(eq(signingIdentities.userId, userId)).orderBy(asc(signingIdentities.id));
+  }
+
+  async deleteSigningIdentity(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(signingIdentities).where(eq(signingIdentities.id, id)).returning({ id: signingIdentities.id });
+    return deleted.length > 0;
+  }
+
+  // Build job methods
+  async createBuildJob(insertJob: InsertBuildJob): Promise<BuildJob> {
+    // run_at has no time zone: the database's now() is local time, while claims compare it with a JS date sent as UTC
+    const [job] = await this.db.insert(buildJobs).values({ ...insertJob, runAt: new Date() }).returning();
+    return job;
+  }
+
+  async getBuildJob(id: number): Promise<BuildJob | undefined> {
+    const [job] = await this.db.select().from(buildJobs).where(eq(buildJobs.id, id));
+    return job;
+  }
+
+  async getActiveBuildJob(projectId: number): Promise<BuildJob | undefined> {
+    const [job] = await this.db
+      .select()
+      .from(buildJobs)
+      .where(and(eq(buildJobs.projectId, projectId), inArray(buildJobs.status, ["queued", "running", "paused"])))
+      .orderBy(asc(buildJobs.id))
+      .limit(1);
+    return job;
+  }
+
+  async claimBuildJob(): Promise<BuildJob | undefined> {
+    const now = new Date();
+    return this.db.transaction(async (tx) => {
+      // SKIP LOCKED lets other servers claim the next job instead of waiting on this one
+      const [next] = await tx
+        .select({ id: buildJobs.id })
+        .from(buildJobs)
+        .where(and(eq(buildJobs.status, "queued"), lte(buildJobs.runAt, now)))
+        .orderBy(desc(buildJobs.priority), asc(buildJobs.id))
+        .limit(1)
+        .for("update", { skipLocked: true });
+      if (!next) return undefined;
+
+      const [job] = await tx
+        .update(buildJobs)
+        .set({ status: "running", attempts: sql`${buildJobs.attempts} + 1`, startedAt: now, heartbeatAt: now })
+        .where(eq(buildJobs.id, next.id))
+        .returning();
+      return job;
+    });
+  }
+
+  async updateBuildJob(id: number, updates: Partial<BuildJob>): Promise<BuildJob | undefined> {
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    const [job] = await this.db.update(buildJobs).set(changes).where(eq(buildJobs.id, id)).returning();
+    return job;
+  }
+
+  async transitionBuildJob(id: number, statuses: string[], updates: Partial<BuildJob>): Promise<BuildJob | undefined> {
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    const [job] = await this.db
+      .update(buildJobs)
+      .set(changes)
+      .where(and(eq(buildJobs.id, id), inArray(buildJobs.status, statuses)))
+      .returning();
+    return job;
+  }
+
+  async getStalledBuildJobs(heartbeatBefore: Date): Promise<BuildJob[]> {
+    return this.db
+      .select()
+      .from(buildJobs)
+      .where(and(eq(buildJobs.status, "running"), lt(buildJobs.heartbeatAt, heartbeatBefore)))
+      .orderBy(asc(buildJobs.id));
+  }
 }
 
-export const storage = new MemStorage();
+// DbStorage when DATABASE_URL is set, otherwise everything lives in memory until the server stops
+export const database = process.env.DATABASE_URL ? createDatabase(process.env.DATABASE_URL) : undefined;
+export const storage: IStorage = database ? new DbStorage(database.db) : new MemStorage();
@@ -2,19 +2,49 @@ import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizz
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export type BuildVariant = "debug" | "release";
+
+export interface BuildArtifact {
+  path: string;
+  size: number;
+  format: "apk" | "aab";
+  variant: BuildVariant;
+  // Product flavor the artifact was built for, unset for unflavored builds
+  flavor?: string;
+  // APK split filter, e.g. arm64-v8a, hdpi, hdpiArm64-v8a or universal; unset when splits are off
+  split?: string;
+  applicationId: string;
+  versionCode: number;
+  builtAt: string;
+}
+
+// Keyed by Gradle-style variant name plus split, e.g. release, acmeDebug or release-arm64-v8a (see artifactName)
+export type BuildArtifacts = Record<string, BuildArtifact>;
+
+export function artifactName(variant: BuildVariant, flavor?: string, split?: string): string {
+  const name = flavor ? `${flavor}${variant[0].toUpperCase()}${variant.slice(1)}` : variant;
+  return split ? `${name}-${split}` : name;
+}
+
 export const projects = pgTable("projects", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   originalFileName: text("original_file_name").notNull(),
   fileSize: integer("file_size").notNull(),
   framework: text("framework"),
-  status: text("status").notNull().default("uploaded"), // uploaded, extracted, analyzing, analyzed, building, completed, error
+  status: text("status").notNull().default("uploaded"), // uploaded, extracted, analyzing, analyzed, building, paused, completed, error, cancelled
   progress: integer("progress").notNull().default(0),
   buildConfig: jsonb("build_config"),
   projectStats: jsonb("project_stats"),
   logs: jsonb("logs").default([]),
   apkPath: text("apk_path"),
   apkSize: integer("apk_size"),
+  // Latest output of each build variant and flavor, kept side by side; apkPath/apkSize point at the most recent build
+  artifacts: jsonb("artifacts").$type<BuildArtifacts>(),
+  keystorePath: text("keystore_path"),
+  // Session user the generated keystore was created for, the only one who may download it
+  keystoreUserId: integer("keystore_user_id"),
+  keystoreDownloaded: boolean("keystore_downloaded").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -27,6 +57,54 @@ export const buildLogs = pgTable("build_logs", {
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
+// Saved keystores; the keystore and its passwords are only stored encrypted (see KeystoreVault)
+export const signingIdentities = pgTable("signing_identities", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  alias: text("alias").notNull(),
+  keyAlgorithm: text("key_algorithm").notNull(), // RSA, EC
+  certificateSubject: text("certificate_subject").notNull(),
+  certificateFingerprint: text("certificate_fingerprint").notNull(),
+  certificateExpiresAt: timestamp("certificate_expires_at").notNull(),
+  encryptedKeystore: text("encrypted_keystore").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Sealed keystore a queued release build is signed with; the vault entry format of signing identities
+export interface BuildSigning {
+  userId: number;
+  alias: string;
+  keystore: string;
+}
+
+// Builds waiting for or running on a BuildQueue worker (see server/buildQueue.ts)
+export const buildJobs = pgTable("build_jobs", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  status: text("status").notNull().default("queued"), // queued, running, paused, completed, failed, cancelled
+  // Higher priorities start first, equal ones in request order
+  priority: integer("priority").notNull().default(0),
+  options: jsonb("options").$type<BuildOptions>().notNull(),
+  // Unset for debug builds, which use the server's debug key, and for unsigned release builds
+  signing: jsonb("signing").$type<BuildSigning>(),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(1),
+  timeoutMs: integer("timeout_ms").notNull(),
+  error: text("error"),
+  // Earliest start, pushed back between retries
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+  // Refreshed while a worker runs the job; a stale heartbeat means the server running it went away
+  heartbeatAt: timestamp("heartbeat_at"),
+  finishedAt: timestamp("finished_at"),
+  // Set while running to stop the build at its next stage boundary
+  pauseRequested: boolean("pause_requested").notNull().default(false),
+  // Where a paused build goes on, the server's BuildCheckpoint; unset for builds that start from scratch
+  checkpoint: jsonb("checkpoint"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const insertProjectSchema = createInsertSchema(projects).pick({
   name: true,
   originalFileName: true,
@@ -47,10 +125,109 @@ export const insertBuildLogSchema = createInsertSchema(buildLogs).pick({
   message: true,
 });
 
+export const insertSigningIdentitySchema = createInsertSchema(signingIdentities).pick({
+  userId: true,
+  name: true,
+  alias: true,
+  keyAlgorithm: true,
+  certificateSubject: true,
+  certificateFingerprint: true,
+  certificateExpiresAt: true,
+  encryptedKeystore: true,
+});
+
+// Signing details posted with a build request (see client KeystoreDialog)
+export const keystoreRequestSchema = z.object({
+  keystorePassword: z.string().min(1),
+  keyAlias: z.string().min(1),
+  keyPassword: z.string().min(1),
+  // Id returned by POST /api/keystores/upload
+  keystoreId: z.string().uuid().optional(),
+  createNew: z.boolean().default(false),
+  keyAlgorithm: z.enum(["RSA", "EC"]).default("RSA"),
+  organizationName: z.string().optional(),
+  organizationUnit: z.string().optional(),
+  locality: z.string().optional(),
+  state: z.string().optional(),
+  country: z.string().optional(),
+  validity: z.number().int().min(1).max(100).optional(),
+  // Keep the keystore in the user's vault for later builds
+  saveIdentity: z.boolean().default(false),
+  identityName: z.string().min(1).max(100).optional(),
+});
+
+// Build request signing with a saved identity, no credentials needed
+export const signingIdentityRequestSchema = z.object({
+  identityId: z.number().int().positive(),
+});
+
+// A white-label build of the same project; icon is a PNG path inside the project, env values
+// become manifest meta-data (and flavor.json next to a web app's index.html)
+export const flavorSchema = z.object({
+  name: z.string().regex(/^[a-z][a-zA-Z0-9]*$/, "Flavor names start with a lowercase letter and contain only letters and digits"),
+  applicationId: z.string().regex(/^[a-zA-Z][a-zA-Z0-9_]*(\.[a-zA-Z][a-zA-Z0-9_]*)+$/, "Application ids are dot-separated Java identifiers, e.g. com.example.app"),
+  appName: z.string().min(1).max(50).optional(),
+  icon: z.string().min(1).optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Colors are #RRGGBB").optional(),
+  env: z.record(z.string().regex(/^[A-Za-z_][A-Za-z0-9_.]*$/, "Env names are identifiers"), z.string()).default({}),
+});
+
+// Build settings posted alongside the signing details
+export const buildOptionsSchema = z.object({
+  // apk for direct installs, aab (Android App Bundle) for Google Play uploads
+  outputFormat: z.enum(["apk", "aab"]).default("apk"),
+  // debug builds are debuggable, use a .debug application id and are signed with the debug key
+  variant: z.enum(["debug", "release"]).default("release"),
+  // One artifact per flavor; without flavors a single artifact is built with the project's own settings
+  flavors: z.array(flavorSchema).min(1).max(20)
+    .refine((flavors) => new Set(flavors.map((flavor) => flavor.name)).size === flavors.length, "Flavor names must be unique")
+    .refine((flavors) => new Set(flavors.map((flavor) => flavor.applicationId)).size === flavors.length, "Flavor application ids must be unique")
+    .optional(),
+  // APK splits: one APK per ABI with native code and/or per screen density, next to a universal APK
+  splits: z.object({
+    abi: z.boolean().default(false),
+    density: z.boolean().default(false),
+    universal: z.boolean().default(true),
+  }).optional(),
+});
+
+// Queue settings posted alongside the build options
+export const buildJobOptionsSchema = z.object({
+  priority: z.number().int().min(-10).max(10).default(0),
+  timeoutMinutes: z.number().int().min(1).max(180).optional(),
+  // Runs including retries; only builds that crash or are interrupted are retried, failed compiles are not
+  maxAttempts: z.number().int().min(1).max(5).optional(),
+});
+
+export const insertBuildJobSchema = createInsertSchema(buildJobs, { options: buildOptionsSchema }).pick({
+  projectId: true,
+  priority: true,
+  options: true,
+  signing: true,
+  maxAttempts: true,
+  timeoutMs: true,
+});
+
+// Credentials checked against an uploaded keystore before it is accepted
+export const keystoreUploadSchema = keystoreRequestSchema.pick({
+  keystorePassword: true,
+  keyAlias: true,
+  keyPassword: true,
+});
+
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Project = typeof projects.$inferSelect;
 export type InsertBuildLog = z.infer<typeof insertBuildLogSchema>;
 export type BuildLog = typeof buildLogs.$inferSelect;
+export type KeystoreRequest = z.infer<typeof keystoreRequestSchema>;
+export type BuildOptions = z.infer<typeof buildOptionsSchema>;
+export type BuildFlavor = z.infer<typeof flavorSchema>;
+export type SplitOptions = NonNullable<BuildOptions["splits"]>;
+export type InsertSigningIdentity = z.infer<typeof insertSigningIdentitySchema>;
+export type SigningIdentity = typeof signingIdentities.$inferSelect;
+export type BuildJobOptions = z.infer<typeof buildJobOptionsSchema>;
+export type InsertBuildJob = z.infer<typeof insertBuildJobSchema>;
+export type BuildJob = typeof buildJobs.$inferSelect;
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),